@@ -1,52 +1,65 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Scan, QrCode, History as HistoryIcon, User } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Scan, QrCode, History as HistoryIcon, User, Settings as SettingsIcon } from 'lucide-react';
 import Scanner from './components/Scanner';
 import Generator from './components/Generator';
 import History from './components/History';
 import ResultModal from './components/ResultModal';
-import { Tab, ScanResult, GeneratedQR } from './types';
+import Settings from './components/Settings';
+import { Tab, ScanResult, GeneratedQR, SessionCode, Symbology } from './types';
+import { parsePayload } from './services/payloadParser';
+import { loadHistory, persistChanges } from './services/historyStore';
+import { mergeById } from './services/historyBackup';
 
 const App = () => {
   const [activeTab, setActiveTab] = useState<Tab>('scan');
   const [scannedHistory, setScannedHistory] = useState<ScanResult[]>([]);
   const [generatedHistory, setGeneratedHistory] = useState<GeneratedQR[]>([]);
   const [currentResult, setCurrentResult] = useState<ScanResult | null>(null);
+  const [editingGenerated, setEditingGenerated] = useState<GeneratedQR | null>(null);
 
   // Load History
+  // Images stay in IndexedDB; History loads them as items scroll into view
+  const persistedScansRef = useRef<ScanResult[]>([]);
+  const persistedGeneratedRef = useRef<GeneratedQR[]>([]);
+
   useEffect(() => {
-    const loadedScans = localStorage.getItem('qr-scans');
-    const loadedGen = localStorage.getItem('qr-gen');
-    if (loadedScans) setScannedHistory(JSON.parse(loadedScans));
-    if (loadedGen) setGeneratedHistory(JSON.parse(loadedGen));
+    // Anything added before loading finished stays on top
+    const mergeLoaded = <T extends { id: string }>(prev: T[], loaded: T[]) => {
+      const ids = new Set(prev.map(item => item.id));
+      return [...prev, ...loaded.filter(item => !ids.has(item.id))];
+    };
+
+    Promise.all([loadHistory('scans'), loadHistory('generated')])
+      .then(([scans, generated]) => {
+        persistedScansRef.current = scans;
+        persistedGeneratedRef.current = generated;
+        setScannedHistory(prev => mergeLoaded(prev, scans));
+        setGeneratedHistory(prev => mergeLoaded(prev, generated));
+      })
+      .catch(e => console.error("Failed to load history", e));
   }, []);
 
   // Save History
-  // Exclude heavy originalImage data from localStorage to prevent quota issues
   useEffect(() => {
-    const safeHistory = scannedHistory.map(item => {
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { originalImage, ...rest } = item;
-      return rest;
-    });
-    localStorage.setItem('qr-scans', JSON.stringify(safeHistory));
+    persistChanges('scans', persistedScansRef.current, scannedHistory)
+      .catch(e => console.error("Failed to save scan history", e));
+    persistedScansRef.current = scannedHistory;
   }, [scannedHistory]);
 
   useEffect(() => {
-    localStorage.setItem('qr-gen', JSON.stringify(generatedHistory));
+    persistChanges('generated', persistedGeneratedRef.current, generatedHistory)
+      .catch(e => console.error("Failed to save generated history", e));
+    persistedGeneratedRef.current = generatedHistory;
   }, [generatedHistory]);
 
-  const handleScan = useCallback((data: string, image?: string) => {
-    // Detect type simple heuristic
-    const type = data.startsWith('http') ? 'url' : 
-                 data.startsWith('WIFI:') ? 'wifi' : 
-                 data.includes('@') && data.includes('.') ? 'email' : 'text';
-
+  const handleScan = useCallback((data: string, image?: string, symbology?: Symbology) => {
     const newScan: ScanResult = {
       id: crypto.randomUUID(),
       data,
       timestamp: Date.now(),
-      type: type as any,
+      type: parsePayload(data).type,
       originalImage: image,
+      symbology,
     };
 
     setScannedHistory(prev => {
@@ -59,6 +72,41 @@ const App = () => {
     setCurrentResult(newScan);
   }, []);
 
+  // A finished scanning session lands in history as one group, newest group first
+  const handleSessionEnd = useCallback((codes: SessionCode[]) => {
+    const sessionId = crypto.randomUUID();
+    const sessionScans: ScanResult[] = codes.map(code => ({
+      id: crypto.randomUUID(),
+      data: code.data,
+      timestamp: code.timestamp,
+      type: parsePayload(code.data).type,
+      symbology: code.symbology,
+      originalImage: code.image,
+      sessionId,
+    }));
+    setScannedHistory(prev => [...sessionScans.reverse(), ...prev]);
+  }, []);
+
+  // Several codes found in one uploaded image go straight to history, first one on top
+  const handleScanMany = useCallback((codes: SessionCode[]) => {
+    const scans: ScanResult[] = codes.map((code, i) => ({
+      id: crypto.randomUUID(),
+      data: code.data,
+      // Stepped back a millisecond each so the time-sorted history keeps the detection order
+      timestamp: code.timestamp - i,
+      type: parsePayload(code.data).type,
+      symbology: code.symbology,
+      originalImage: code.image,
+    }));
+    setScannedHistory(prev => [...scans, ...prev]);
+  }, []);
+
+  // Reopens a generated code in the Generator with its saved content and style
+  const handleEditGenerated = useCallback((item: GeneratedQR) => {
+    setEditingGenerated(item);
+    setActiveTab('generate');
+  }, []);
+
   const handleGenerate = useCallback((item: GeneratedQR) => {
     setGeneratedHistory(prev => [item, ...prev]);
   }, []);
@@ -71,23 +119,47 @@ const App = () => {
     }
   }, []);
 
-  const updateScanResult = useCallback((updated: ScanResult) => {
-    setCurrentResult(updated);
+  const updateScan = useCallback((updated: ScanResult) => {
     setScannedHistory(prev => prev.map(p => p.id === updated.id ? updated : p));
   }, []);
 
+  const updateGenerated = useCallback((updated: GeneratedQR) => {
+    setGeneratedHistory(prev => prev.map(p => p.id === updated.id ? updated : p));
+  }, []);
+
+  // Backups merge by id, so importing the same file twice changes nothing
+  const handleImport = useCallback((scans: ScanResult[], generated: GeneratedQR[]) => {
+    setScannedHistory(prev => mergeById(prev, scans).items);
+    setGeneratedHistory(prev => mergeById(prev, generated).items);
+  }, []);
+
+  const updateScanResult = useCallback((updated: ScanResult) => {
+    setCurrentResult(updated);
+    updateScan(updated);
+  }, [updateScan]);
+
   return (
     <div className="h-screen w-full bg-dark-950 flex flex-col text-white font-sans overflow-hidden">
       {/* Main Content Area */}
       <main className="flex-1 relative overflow-hidden">
         <div className={`absolute inset-0 transition-opacity duration-300 ${activeTab === 'scan' ? 'opacity-100 z-10' : 'opacity-0 z-0'}`}>
-           <Scanner onScan={handleScan} isActive={activeTab === 'scan'} />
+           <Scanner onScan={handleScan} onScanMany={handleScanMany} onSessionEnd={handleSessionEnd} isActive={activeTab === 'scan'} />
         </div>
         <div className={`absolute inset-0 bg-dark-900 transition-opacity duration-300 ${activeTab === 'generate' ? 'opacity-100 z-10' : 'opacity-0 z-0'}`}>
-           {activeTab === 'generate' && <Generator onGenerate={handleGenerate} />}
+           {activeTab === 'generate' && (
+             <Generator
+               key={editingGenerated?.id || 'new'}
+               onGenerate={handleGenerate}
+               editItem={editingGenerated}
+               onCancelEdit={() => setEditingGenerated(null)}
+             />
+           )}
         </div>
         <div className={`absolute inset-0 bg-dark-900 transition-opacity duration-300 ${activeTab === 'history' ? 'opacity-100 z-10' : 'opacity-0 z-0'}`}>
-           {activeTab === 'history' && <History scans={scannedHistory} generated={generatedHistory} onClear={handleClearHistory} onSelectScan={setCurrentResult} />}
+           {activeTab === 'history' && <History scans={scannedHistory} generated={generatedHistory} onClear={handleClearHistory} onSelectScan={setCurrentResult} onUpdateScan={updateScan} onUpdateGenerated={updateGenerated} onImport={handleImport} onEditGenerated={handleEditGenerated} />}
+        </div>
+        <div className={`absolute inset-0 bg-dark-900 transition-opacity duration-300 ${activeTab === 'settings' ? 'opacity-100 z-10' : 'opacity-0 z-0'}`}>
+           {activeTab === 'settings' && <Settings />}
         </div>
       </main>
 
@@ -123,6 +195,16 @@ const App = () => {
              </div>
             <span className={`text-[10px] mt-1 font-medium tracking-wide ${activeTab === 'history' ? 'text-transparent bg-clip-text bg-mask-gradient-text' : 'text-gray-500'}`}>HISTORY</span>
           </button>
+
+          <button 
+            onClick={() => setActiveTab('settings')}
+            className={`flex flex-col items-center justify-center w-full h-full transition-all group ${activeTab === 'settings' ? 'scale-105' : ''}`}
+          >
+             <div className={`${activeTab === 'settings' ? 'text-transparent bg-clip-text bg-mask-gradient-text' : 'text-gray-500 group-hover:text-gray-300'}`}>
+                <SettingsIcon size={26} />
+             </div>
+            <span className={`text-[10px] mt-1 font-medium tracking-wide ${activeTab === 'settings' ? 'text-transparent bg-clip-text bg-mask-gradient-text' : 'text-gray-500'}`}>SETTINGS</span>
+          </button>
         </div>
       </nav>
 
@@ -0,0 +1,319 @@
+import React, { useState, useRef } from 'react';
+import { FileSpreadsheet, Upload, Download, ChevronDown, AlertTriangle, X } from 'lucide-react';
+import { GeneratedQR, QRStyle, QRContentType } from '../types';
+import { TEMPLATE_FIELDS, buildPayload, buildContentPayload, contentFromValues, validateContent } from '../services/contentTemplates';
+import { layoutCode, renderToCanvas } from '../services/qrRenderer';
+import { renderToSvg } from '../services/vectorExport';
+import { checkScannability } from '../services/scannability';
+import { parseCsv, toCsv } from '../services/csv';
+import { createZip, ZipEntry } from '../services/zip';
+import { downloadBlob, dataUrlToBytes } from '../services/download';
+
+interface BatchGeneratorProps {
+  style: QRStyle;
+  onGenerate: (item: GeneratedQR) => void;
+}
+
+type BatchFormat = 'png' | 'svg' | 'both';
+
+const TEMPLATE_OPTIONS: { id: QRContentType; label: string }[] = [
+  { id: 'url', label: 'URL' },
+  { id: 'text', label: 'Text' },
+  { id: 'wifi', label: 'WiFi' },
+  { id: 'email', label: 'Email' },
+  { id: 'vcard', label: 'Contact' },
+  { id: 'mecard', label: 'MeCard' },
+  { id: 'phone', label: 'Phone' },
+  { id: 'sms', label: 'SMS' },
+  { id: 'geo', label: 'Location' },
+  { id: 'event', label: 'Event' },
+  { id: 'crypto', label: 'Crypto' },
+  { id: 'payment', label: 'Bank Payment' },
+];
+
+const sanitizeFileName = (name: string) =>
+  name.trim().replace(/[\\/:*?"<>|\x00-\x1f]+/g, '_').replace(/\s+/g, '_').slice(0, 80);
+
+// Guess the column for a template field from the CSV header names
+const autoMap = (type: QRContentType, headers: string[]) => {
+  const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const mapping: Record<string, number> = {};
+  TEMPLATE_FIELDS[type].forEach(field => {
+    const idx = headers.findIndex(h => normalize(h) === normalize(field.key) || normalize(h) === normalize(field.label));
+    mapping[field.key] = idx;
+  });
+  if (TEMPLATE_FIELDS[type].length === 1 && mapping[TEMPLATE_FIELDS[type][0].key] === -1 && headers.length) {
+    mapping[TEMPLATE_FIELDS[type][0].key] = 0;
+  }
+  return mapping;
+};
+
+const BatchGenerator: React.FC<BatchGeneratorProps> = ({ style, onGenerate }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [template, setTemplate] = useState<QRContentType>('url');
+  const [mapping, setMapping] = useState<Record<string, number>>({});
+  const [nameColumn, setNameColumn] = useState<number>(-1);
+  const [format, setFormat] = useState<BatchFormat>('png');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCsvUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      const parsed = parseCsv(ev.target?.result as string);
+      if (parsed.length < 2) {
+        setError("CSV needs a header row and at least one data row");
+        return;
+      }
+      const [head, ...body] = parsed;
+      setError(null);
+      setFileName(file.name);
+      setHeaders(head);
+      setRows(body);
+      setMapping(autoMap(template, head));
+      setNameColumn(0);
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleTemplateChange = (type: QRContentType) => {
+    setTemplate(type);
+    setMapping(autoMap(type, headers));
+  };
+
+  const resetBatch = () => {
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+    setError(null);
+  };
+
+  const rowValues = (row: string[]) => {
+    const values: Record<string, string> = {};
+    Object.keys(mapping).forEach(key => {
+      const col = mapping[key];
+      if (col >= 0) values[key] = row[col] ?? '';
+    });
+    return values;
+  };
+
+  const previewPayload = rows.length ? buildPayload(template, rowValues(rows[0])) : '';
+
+  const handleGenerateBatch = async () => {
+    if (!rows.length) return;
+    setError(null);
+    setProgress({ done: 0, total: rows.length });
+
+    const canvas = document.createElement('canvas');
+    const entries: ZipEntry[] = [];
+    const manifest: unknown[][] = [['row', 'name', 'files', 'status', 'data']];
+    const usedNames = new Set<string>();
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      const content = contentFromValues(template, rowValues(row));
+      const payload = buildContentPayload(content);
+
+      // Name from the chosen column, made unique within the archive
+      const baseName = sanitizeFileName((nameColumn >= 0 ? row[nameColumn] : '') || '') || `qr-${i + 1}`;
+      let name = baseName;
+      for (let n = 2; usedNames.has(name.toLowerCase()); n++) name = `${baseName}-${n}`;
+      usedNames.add(name.toLowerCase());
+
+      if (!payload) {
+        const invalid = Object.keys(validateContent(content));
+        manifest.push([i + 1, name, '', invalid.length ? `skipped: invalid ${invalid.join(', ')}` : 'skipped: empty payload', '']);
+      } else {
+        try {
+          const layout = await layoutCode(payload, style);
+          await renderToCanvas(canvas, layout, style);
+          // A style that breaks decoding (low contrast, oversized logo) mustn't end up in the zip
+          const report = await checkScannability(canvas, payload, style.codeFormat);
+          if (report.status === 'fail') throw new Error('does not scan');
+          const base64 = canvas.toDataURL('image/png');
+          const files: string[] = [];
+
+          if (format !== 'svg') {
+            entries.push({ name: `${name}.png`, data: dataUrlToBytes(base64) });
+            files.push(`${name}.png`);
+          }
+          if (format !== 'png') {
+            entries.push({ name: `${name}.svg`, data: renderToSvg(layout, style) });
+            files.push(`${name}.svg`);
+          }
+
+          manifest.push([i + 1, name, files.join(' '), 'ok', payload]);
+          onGenerate({
+            id: crypto.randomUUID(),
+            data: payload,
+            timestamp: Date.now(),
+            base64,
+            content,
+            style
+          });
+        } catch (err) {
+          console.error("Batch item failed", err);
+          manifest.push([i + 1, name, '', `failed: ${(err as Error).message}`, payload]);
+        }
+      }
+
+      setProgress({ done: i + 1, total: rows.length });
+      // Yield so the progress bar can repaint
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    entries.push({ name: 'manifest.csv', data: toCsv(manifest) });
+
+    downloadBlob(createZip(entries), `qr-batch-${Date.now()}.zip`);
+
+    setProgress(null);
+  };
+
+  const isRunning = progress !== null;
+
+  return (
+    <div className="animate-fade-in space-y-6">
+      <input type="file" ref={fileInputRef} className="hidden" accept=".csv,text/csv" onChange={handleCsvUpload} />
+
+      {/* CSV Source */}
+      {!rows.length ? (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full border-2 border-dashed border-gray-700 hover:border-gray-500 bg-dark-950 rounded-xl p-6 flex flex-col items-center gap-3 transition-all"
+        >
+          <div className="p-3 bg-dark-800 rounded-lg text-gray-400">
+            <FileSpreadsheet size={24} />
+          </div>
+          <span className="text-sm text-gray-300">Upload CSV file</span>
+          <span className="text-[10px] text-gray-500">First row must contain column names</span>
+        </button>
+      ) : (
+        <div className="flex items-center gap-3 bg-mask-lime/5 border border-mask-lime/40 rounded-xl p-3">
+          <FileSpreadsheet size={20} className="text-mask-lime shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-white truncate">{fileName}</p>
+            <p className="text-[10px] text-gray-400">{rows.length} rows · {headers.length} columns</p>
+          </div>
+          <button
+            onClick={resetBatch}
+            disabled={isRunning}
+            className="p-1 hover:bg-red-500/20 text-gray-400 hover:text-red-400 rounded transition-colors"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+          <AlertTriangle size={14} /> {error}
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <>
+          {/* Template Selector */}
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-2 uppercase tracking-wide">Content Template</label>
+            <div className="flex gap-2 overflow-x-auto pb-2 no-scrollbar">
+              {TEMPLATE_OPTIONS.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => handleTemplateChange(t.id)}
+                  className={`px-4 py-2 rounded-full border text-sm whitespace-nowrap transition-all ${
+                    template === t.id
+                      ? 'bg-mask-gradient text-white border-transparent'
+                      : 'bg-dark-950 text-gray-400 border-gray-700 hover:border-gray-500'
+                  }`}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Column Mapping */}
+          <div className="bg-dark-950/50 p-4 rounded-xl border border-gray-800 space-y-3">
+            <label className="block text-xs font-medium text-gray-400 uppercase tracking-wide">Column Mapping</label>
+            {[...TEMPLATE_FIELDS[template], { key: '__name', label: 'File Name' }].map(field => (
+              <div key={field.key} className="grid grid-cols-2 gap-3 items-center">
+                <span className="text-sm text-gray-300">{field.label}</span>
+                <div className="relative">
+                  <select
+                    value={field.key === '__name' ? nameColumn : (mapping[field.key] ?? -1)}
+                    onChange={(e) => {
+                      const col = Number(e.target.value);
+                      if (field.key === '__name') setNameColumn(col);
+                      else setMapping({ ...mapping, [field.key]: col });
+                    }}
+                    className="w-full bg-dark-950 border border-gray-700 rounded-lg p-2 text-white text-xs outline-none appearance-none"
+                  >
+                    <option value={-1}>— None —</option>
+                    {headers.map((h, i) => (
+                      <option key={i} value={i}>{h || `Column ${i + 1}`}</option>
+                    ))}
+                  </select>
+                  <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={14} />
+                </div>
+              </div>
+            ))}
+            <div className="pt-2 border-t border-gray-800">
+              <span className="text-[10px] text-gray-500 uppercase font-bold block mb-1">First Row Preview</span>
+              <p className="text-xs text-gray-400 font-mono break-all whitespace-pre-wrap max-h-24 overflow-y-auto">
+                {previewPayload || 'Empty payload — check the column mapping'}
+              </p>
+            </div>
+          </div>
+
+          {/* Output Format */}
+          <div className="flex items-center justify-between">
+            <label className="text-xs font-medium text-gray-400 uppercase tracking-wide">Files</label>
+            <div className="flex bg-dark-950 rounded-lg p-1 border border-gray-700">
+              {(['png', 'svg', 'both'] as BatchFormat[]).map(f => (
+                <button
+                  key={f}
+                  onClick={() => setFormat(f)}
+                  className={`px-3 py-1 rounded-md text-xs font-medium uppercase transition-all ${format === f ? 'bg-gray-700 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
+                >
+                  {f}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-[10px] text-gray-500">
+            Every code uses the current settings from the Style & Logo tab.
+          </p>
+
+          {isRunning && (
+            <div>
+              <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                <div className="h-full bg-mask-gradient transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }}></div>
+              </div>
+              <p className="text-[10px] text-gray-400 mt-1 font-mono">{progress.done} / {progress.total}</p>
+            </div>
+          )}
+
+          <button
+            onClick={handleGenerateBatch}
+            disabled={isRunning}
+            className="w-full flex items-center justify-center gap-2 bg-mask-gradient hover:opacity-90 text-white px-6 py-3 rounded-xl font-medium transition-all shadow-lg disabled:opacity-60"
+          >
+            {isRunning ? <Upload size={20} className="animate-pulse" /> : <Download size={20} />}
+            <span>{isRunning ? 'Generating...' : `Generate ${rows.length} Codes (ZIP)`}</span>
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchGenerator;
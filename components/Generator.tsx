@@ -1,93 +1,186 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import QRCode from 'qrcode';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { 
   Download, Copy, Check, ChevronDown, Upload, Image as ImageIcon, 
   Palette, Type, RefreshCw, MoveDown, MoveRight, MoveDiagonal, Circle,
   Link, Wifi, Mail, UserSquare, FileText, Globe, Smartphone, Building, AtSign, AlertTriangle, Eye, Type as TypeIcon,
-  Maximize, Square, AppWindow
+  Maximize, Square, AppWindow, FileSpreadsheet, Pencil, ScanLine, Loader2,
+  Phone, MessageSquare, MapPin, CalendarDays, IdCard, Bitcoin, Landmark, Plus, X, Layers
 } from 'lucide-react';
-import { GeneratedQR } from '../types';
+import {
+  GeneratedQR, QRStyle, DotStyle, EyeStyle, ColorMode, GradientType, LogoShape, LogoPlate, ErrorLevel, ExportFormat,
+  QRContentType, WifiFields, EmailFields, VcardFields, GeneratorContent,
+  MecardFields, PhoneFields, SmsFields, GeoFields, EventFields, CryptoFields, CryptoCurrency,
+  PaymentFields, PaymentScheme, WifiEncryption, VcardVersion, ContactEntry, SegmentMode, CodeFormat
+} from '../types';
+import { computeLayout, layoutCode, renderToCanvas, DEFAULT_STYLE, QRLayout } from '../services/qrRenderer';
+import { renderToSvg, renderToPdf } from '../services/vectorExport';
+import {
+  restoreContent, buildContentPayload, validateContent, vcardFromContact, vcardToMecard,
+  WIFI_EAP_METHODS, WIFI_PHASE2_METHODS, VCARD_PHONE_TYPES, VCARD_EMAIL_TYPES
+} from '../services/contentTemplates';
+import { EMV_CURRENCIES } from '../services/paymentCodes';
+import { parseVcfFile } from '../services/payloadParser';
+import { downloadUrl, downloadBlob, dataUrlToBytes } from '../services/download';
+import { createZip, ZipEntry } from '../services/zip';
+import { MAX_PARTS, minimumParts, suggestedParts, encodeStructuredAppend } from '../services/structuredAppend';
+import { planEncoding, SEGMENT_LABELS } from '../services/qrEncoding';
+import { CODE_FORMAT_LABELS, FORMAT_LEVELS, levelFor } from '../services/compactCodes';
+import { loadDefaultPreset } from '../services/presets';
+import { checkScannability, ScannabilityReport } from '../services/scannability';
+import BatchGenerator from './BatchGenerator';
+import PresetManager from './PresetManager';
 
 interface GeneratorProps {
   onGenerate: (item: GeneratedQR) => void;
+  editItem?: GeneratedQR | null; // History item to reopen with its saved content and style
+  onCancelEdit?: () => void;
 }
 
-type DotStyle = 'square' | 'rounded' | 'dots' | 'extra-rounded' | 'classy' | 'classy-inverted' | 'diamond' | 'cross';
-type EyeStyle = 'square' | 'circle' | 'rounded' | 'leaf';
-type ColorMode = 'solid' | 'gradient';
-type GradientType = 'vertical' | 'horizontal' | 'diagonal' | 'radial';
-type QRContentType = 'text' | 'url' | 'wifi' | 'email' | 'vcard';
-type LogoShape = 'none' | 'circle' | 'rounded' | 'square';
 
-const Generator: React.FC<GeneratorProps> = ({ onGenerate }) => {
-  const [activeTab, setActiveTab] = useState<'content' | 'style'>('content');
+// Largest version the split suggestion aims for; bigger parts get hard to scan off a page
+const LINKED_PART_VERSION = 20;
+
+// Past this a vCard needs a version 13 or larger code at level M, too dense for many phone cameras
+const DENSE_VCARD_BYTES = 300;
+
+const Generator: React.FC<GeneratorProps> = ({ onGenerate, editItem, onCancelEdit }) => {
+  const [activeTab, setActiveTab] = useState<'content' | 'style' | 'batch'>('content');
+
+  // Older history items have no saved state; they reopen as plain text with the default style.
+  // Content saved before a template existed gets that template's empty fields.
+  const initialContent: GeneratorContent = restoreContent(editItem?.content || (editItem ? { text: editItem.data } : {}));
+  const initialStyle: QRStyle = { ...DEFAULT_STYLE, ...editItem?.style };
   
   // Content State
-  const [contentType, setContentType] = useState<QRContentType>('text');
-  const [text, setText] = useState(''); // The final generated string
+  const [contentType, setContentType] = useState<QRContentType>(initialContent.contentType);
+  const [text, setText] = useState(initialContent.contentType === 'text' ? initialContent.text : ''); // The final generated string
   
   // Template States
-  const [urlValue, setUrlValue] = useState('');
+  const [urlValue, setUrlValue] = useState(initialContent.url);
   
-  const [wifiData, setWifiData] = useState({
-    ssid: '',
-    password: '',
-    encryption: 'WPA' as 'WPA' | 'WEP' | 'nopass',
-    hidden: false
-  });
-
-  const [emailData, setEmailData] = useState({
-    email: '',
-    subject: '',
-    body: ''
-  });
-
-  const [vcardData, setVcardData] = useState({
-    firstName: '',
-    lastName: '',
-    phone: '',
-    email: '',
-    org: '',
-    title: '',
-    url: ''
-  });
+  const [wifiData, setWifiData] = useState<WifiFields>(initialContent.wifi);
+
+  const [emailData, setEmailData] = useState<EmailFields>(initialContent.email);
+
+  const [vcardData, setVcardData] = useState<VcardFields>(initialContent.vcard);
+  const [vcfError, setVcfError] = useState<string | null>(null);
+  const vcfInputRef = useRef<HTMLInputElement>(null);
+
+  const [mecardData, setMecardData] = useState<MecardFields>(initialContent.mecard);
+  const [phoneData, setPhoneData] = useState<PhoneFields>(initialContent.phone);
+  const [smsData, setSmsData] = useState<SmsFields>(initialContent.sms);
+  const [geoData, setGeoData] = useState<GeoFields>(initialContent.geo);
+  const [eventData, setEventData] = useState<EventFields>(initialContent.event);
+  const [cryptoData, setCryptoData] = useState<CryptoFields>(initialContent.crypto);
+  const [paymentData, setPaymentData] = useState<PaymentFields>(initialContent.payment);
+
+  const content = useMemo<GeneratorContent>(() => ({
+    contentType, text, url: urlValue, wifi: wifiData, email: emailData, vcard: vcardData,
+    mecard: mecardData, phone: phoneData, sms: smsData, geo: geoData, event: eventData, crypto: cryptoData,
+    payment: paymentData,
+  }), [contentType, text, urlValue, wifiData, emailData, vcardData, mecardData, phoneData, smsData, geoData, eventData, cryptoData, paymentData]);
+  const fieldErrors = validateContent(content);
+  const payloadBytes = useMemo(() => new TextEncoder().encode(text).length, [text]);
   
   // Style State
-  const [fgColorMode, setFgColorMode] = useState<ColorMode>('solid');
-  const [fgColor1, setFgColor1] = useState('#000000');
-  const [fgColor2, setFgColor2] = useState('#a3e635'); // Default Lime
-  const [fgGradientType, setFgGradientType] = useState<GradientType>('vertical');
-
-  const [bgColorMode, setBgColorMode] = useState<ColorMode>('solid');
-  const [bgColor1, setBgColor1] = useState('#ffffff');
-  const [bgColor2, setBgColor2] = useState('#e2e8f0');
-  const [bgGradientType, setBgGradientType] = useState<GradientType>('diagonal');
+  const [fgColorMode, setFgColorMode] = useState<ColorMode>(initialStyle.fgColorMode);
+  const [fgColor1, setFgColor1] = useState(initialStyle.fgColor1);
+  const [fgColor2, setFgColor2] = useState(initialStyle.fgColor2);
+  const [fgGradientType, setFgGradientType] = useState<GradientType>(initialStyle.fgGradientType);
+
+  const [bgColorMode, setBgColorMode] = useState<ColorMode>(initialStyle.bgColorMode);
+  const [bgColor1, setBgColor1] = useState(initialStyle.bgColor1);
+  const [bgColor2, setBgColor2] = useState(initialStyle.bgColor2);
+  const [bgGradientType, setBgGradientType] = useState<GradientType>(initialStyle.bgGradientType);
   
-  const [errorLevel, setErrorLevel] = useState<'L' | 'M' | 'Q' | 'H'>('M');
-  const [dotStyle, setDotStyle] = useState<DotStyle>('square');
-  const [eyeStyle, setEyeStyle] = useState<EyeStyle>('square');
+  const [codeFormat, setCodeFormat] = useState<CodeFormat>(initialStyle.codeFormat);
+  const [errorLevel, setErrorLevel] = useState<ErrorLevel>(initialStyle.errorLevel);
+  const [dotStyle, setDotStyle] = useState<DotStyle>(initialStyle.dotStyle);
+  const [eyeStyle, setEyeStyle] = useState<EyeStyle>(initialStyle.eyeStyle);
+
+  // Advanced encoding State
+  const [qrVersion, setQrVersion] = useState(initialStyle.qrVersion);
+  const [maskPattern, setMaskPattern] = useState(initialStyle.maskPattern);
+  const [segmentMode, setSegmentMode] = useState<SegmentMode>(initialStyle.segmentMode);
+  const [eciUtf8, setEciUtf8] = useState(initialStyle.eciUtf8);
   
   // Logo State
-  const [logo, setLogo] = useState<string | null>(null);
-  // Fixed logo size at 25% as requested
-  const logoSize = 25; 
-  const [logoShape, setLogoShape] = useState<LogoShape>('rounded');
+  const [logo, setLogo] = useState<string | null>(initialStyle.logo);
+  const [logoSize, setLogoSize] = useState(initialStyle.logoSize);
+  const [logoShape, setLogoShape] = useState<LogoShape>(initialStyle.logoShape);
+  const [logoPadding, setLogoPadding] = useState(initialStyle.logoPadding);
+  const [logoPlate, setLogoPlate] = useState<LogoPlate>(initialStyle.logoPlate);
+  const [logoPlateColor, setLogoPlateColor] = useState(initialStyle.logoPlateColor);
+  // Largest logo the current version and correction level can carry, from the last render
+  const [logoMaxSize, setLogoMaxSize] = useState<number | null>(null);
   
   // Dimensions State
-  const [qrSize, setQrSize] = useState<number>(1000); // Base resolution
+  const [qrSize, setQrSize] = useState<number>(initialStyle.qrSize); // Base resolution
 
   // Label / Text State
-  const [labelText, setLabelText] = useState('');
-  const [labelPosition, setLabelPosition] = useState<'top' | 'bottom'>('bottom');
-  const [labelColor, setLabelColor] = useState('#000000');
-  const [labelSize, setLabelSize] = useState(60);
-  const [labelFont, setLabelFont] = useState('Inter, sans-serif');
+  const [labelText, setLabelText] = useState(initialStyle.labelText);
+  const [labelPosition, setLabelPosition] = useState<'top' | 'bottom'>(initialStyle.labelPosition);
+  const [labelColor, setLabelColor] = useState(initialStyle.labelColor);
+  const [labelSize, setLabelSize] = useState(initialStyle.labelSize);
+  const [labelFont, setLabelFont] = useState(initialStyle.labelFont);
+
+  const qrStyle = useMemo<QRStyle>(() => ({
+    codeFormat,
+    fgColorMode, fgColor1, fgColor2, fgGradientType,
+    bgColorMode, bgColor1, bgColor2, bgGradientType,
+    errorLevel, dotStyle, eyeStyle,
+    logo, logoSize, logoShape, logoPadding, logoPlate, logoPlateColor,
+    labelText, labelPosition, labelColor, labelSize, labelFont,
+    qrSize,
+    qrVersion, maskPattern, segmentMode, eciUtf8,
+  }), [codeFormat, fgColorMode, fgColor1, fgColor2, fgGradientType, bgColorMode, bgColor1, bgColor2, bgGradientType, errorLevel, dotStyle, eyeStyle, logo, logoSize, logoShape, logoPadding, logoPlate, logoPlateColor, labelText, labelPosition, labelColor, labelSize, labelFont, qrSize, qrVersion, maskPattern, segmentMode, eciUtf8]);
+
+  const styleSetters: { [K in keyof QRStyle]?: (value: QRStyle[K]) => void } = {
+    codeFormat: setCodeFormat,
+    fgColorMode: setFgColorMode, fgColor1: setFgColor1, fgColor2: setFgColor2, fgGradientType: setFgGradientType,
+    bgColorMode: setBgColorMode, bgColor1: setBgColor1, bgColor2: setBgColor2, bgGradientType: setBgGradientType,
+    errorLevel: setErrorLevel, dotStyle: setDotStyle, eyeStyle: setEyeStyle,
+    logo: setLogo, logoSize: setLogoSize, logoShape: setLogoShape,
+    logoPadding: setLogoPadding, logoPlate: setLogoPlate, logoPlateColor: setLogoPlateColor,
+    labelText: setLabelText, labelPosition: setLabelPosition, labelColor: setLabelColor, labelSize: setLabelSize, labelFont: setLabelFont,
+    qrSize: setQrSize,
+    qrVersion: setQrVersion, maskPattern: setMaskPattern, segmentMode: setSegmentMode, eciUtf8: setEciUtf8,
+  };
+
+  // Presets and brand kits set only the fields they carry
+  const applyStyle = (style: Partial<QRStyle>) => {
+    (Object.keys(style) as (keyof QRStyle)[]).forEach(key => {
+      const setter = styleSetters[key] as ((value: unknown) => void) | undefined;
+      if (setter && style[key] !== undefined) setter(style[key]);
+    });
+  };
+
+  // New codes start from the default preset, if one is set
+  useEffect(() => {
+    if (editItem) return;
+    let cancelled = false;
+    loadDefaultPreset()
+      .then(preset => { if (preset && !cancelled) applyStyle(preset.style); })
+      .catch(e => console.error("Failed to load default preset", e));
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
   // Output State
   const [generatedBase64, setGeneratedBase64] = useState<string>('');
+  const [compactError, setCompactError] = useState<string | null>(null); // Why Micro QR / rMQR can't hold the content
+  const [linkedCount, setLinkedCount] = useState(0); // Parts asked for; 0 until the user opts in
+  const [linkedImages, setLinkedImages] = useState<string[]>([]);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('png');
+  const [isExporting, setIsExporting] = useState(false);
   const [copied, setCopied] = useState(false);
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
+  // Scannability of the current render; the run counter drops results of superseded renders
+  const [scanReport, setScanReport] = useState<ScannabilityReport | null>(null);
+  const [isCheckingScan, setIsCheckingScan] = useState(false);
+  const scanCheckRunRef = useRef(0);
+
   // Helper: Calculate relative luminance for contrast check
   const getLuminance = (hex: string) => {
     const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
@@ -111,36 +204,30 @@ const Generator: React.FC<GeneratorProps> = ({ onGenerate }) => {
 
   // Template Logic: Update `text` when template data changes
   useEffect(() => {
-    let newText = '';
-    switch (contentType) {
-      case 'text':
-        // Text is handled directly via textarea onChange for this mode
-        return; 
-      case 'url':
-        newText = urlValue;
-        break;
-      case 'wifi':
-        const { ssid, password, encryption, hidden } = wifiData;
-        if (ssid) {
-          const enc = encryption === 'nopass' ? '' : encryption;
-          newText = `WIFI:T:${enc};S:${ssid};P:${password};H:${hidden};;`;
-        }
-        break;
-      case 'email':
-        const { email, subject, body } = emailData;
-        if (email) {
-          newText = `mailto:${email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
-        }
-        break;
-      case 'vcard':
-        const { firstName, lastName, phone, org, title, url } = vcardData;
-        if (firstName || lastName || vcardData.email || phone) {
-           newText = `BEGIN:VCARD\nVERSION:3.0\nN:${lastName};${firstName};;;\nFN:${firstName} ${lastName}\nORG:${org}\nTITLE:${title}\nTEL:${phone}\nEMAIL:${vcardData.email}\nURL:${url}\nEND:VCARD`;
-        }
-        break;
-    }
-    setText(newText);
-  }, [contentType, urlValue, wifiData, emailData, vcardData]);
+    // Text is handled directly via textarea onChange for this mode
+    if (contentType === 'text') return;
+    setText(buildContentPayload(content));
+    // `text` is an output here; depending on it would loop
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [contentType, urlValue, wifiData, emailData, vcardData, mecardData, phoneData, smsData, geoData, eventData, cryptoData, paymentData]);
+
+  // Pre-fills the contact form from the first card in a .vcf file
+  const handleVcfImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      const contact = parseVcfFile(ev.target?.result as string);
+      if (!contact) {
+        setVcfError(`No vCard found in ${file.name}`);
+        return;
+      }
+      setVcfError(null);
+      setVcardData(vcardFromContact(contact, vcardData.version));
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
 
   // Handle Logo Upload
   const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -159,384 +246,51 @@ const Generator: React.FC<GeneratorProps> = ({ onGenerate }) => {
     }
   };
 
-  const getFillStyle = (ctx: CanvasRenderingContext2D, width: number, height: number, mode: ColorMode, type: GradientType, c1: string, c2: string) => {
-    if (mode === 'solid') return c1;
-    
-    let grd: CanvasGradient;
-    if (type === 'vertical') {
-      grd = ctx.createLinearGradient(0, 0, 0, height);
-    } else if (type === 'horizontal') {
-      grd = ctx.createLinearGradient(0, 0, width, 0);
-    } else if (type === 'diagonal') {
-      grd = ctx.createLinearGradient(0, 0, width, height);
-    } else {
-      grd = ctx.createRadialGradient(width/2, height/2, width/10, width/2, height/2, Math.max(width, height) * 0.8);
-    }
-    
-    grd.addColorStop(0, c1);
-    grd.addColorStop(1, c2);
-    return grd;
-  };
-
-  // Helper for rounded rectangles path
-  const roundRectPath = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) => {
-    ctx.beginPath();
-    ctx.moveTo(x + r, y);
-    ctx.lineTo(x + w - r, y);
-    ctx.quadraticCurveTo(x + w, y, x + w, y + r);
-    ctx.lineTo(x + w, y + h - r);
-    ctx.quadraticCurveTo(x + w, y + h, x + w - r, y + h);
-    ctx.lineTo(x + r, y + h);
-    ctx.quadraticCurveTo(x, y + h, x, y + h - r);
-    ctx.lineTo(x, y + r);
-    ctx.quadraticCurveTo(x, y, x + r, y);
-    ctx.closePath();
-  };
-  
-  // Helper for Leaf shape path (Top-Left and Bottom-Right rounded)
-  const leafPath = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) => {
-      ctx.beginPath();
-      ctx.moveTo(x + r, y);
-      ctx.lineTo(x + w, y); // Sharp Top-Right
-      ctx.lineTo(x + w, y + h - r);
-      ctx.quadraticCurveTo(x + w, y + h, x + w - r, y + h); // Round Bottom-Right
-      ctx.lineTo(x, y + h); // Sharp Bottom-Left
-      ctx.lineTo(x, y + r);
-      ctx.quadraticCurveTo(x, y, x + r, y); // Round Top-Left
-      ctx.closePath();
-  };
-
-  const drawFinderPattern = (ctx: CanvasRenderingContext2D, x: number, y: number, cellSize: number, style: EyeStyle) => {
-    // 7 modules wide
-    const os = cellSize * 7; // Outer Size
-    const is = cellSize * 3; // Inner Size (the filled block)
-    
-    ctx.beginPath();
-    
-    // 1. OUTER RING
-    switch (style) {
-        case 'circle':
-            ctx.moveTo(x + os, y + os/2);
-            ctx.arc(x + os/2, y + os/2, os/2, 0, Math.PI * 2); // Outer
-            ctx.moveTo(x + os - cellSize, y + os/2);
-            ctx.arc(x + os/2, y + os/2, (os - 2*cellSize)/2, 0, Math.PI * 2); // Hole (5 modules)
-            break;
-        case 'rounded':
-            roundRectPath(ctx, x, y, os, os, cellSize * 2);
-            // Hole needs to be subtracted. 
-            // Canvas 'evenodd' rule handles subtraction if we draw the inner shape here too?
-            // Wait, roundRectPath closes path. 
-            // We need to construct a single path for evenodd fill.
-            
-            // Re-implement path commands without beginPath/closePath for composite shape
-            ctx.moveTo(x + cellSize * 2, y);
-            ctx.lineTo(x + os - cellSize * 2, y);
-            ctx.quadraticCurveTo(x + os, y, x + os, y + cellSize * 2);
-            ctx.lineTo(x + os, y + os - cellSize * 2);
-            ctx.quadraticCurveTo(x + os, y + os, x + os - cellSize * 2, y + os);
-            ctx.lineTo(x + cellSize * 2, y + os);
-            ctx.quadraticCurveTo(x, y + os, x, y + os - cellSize * 2);
-            ctx.lineTo(x, y + cellSize * 2);
-            ctx.quadraticCurveTo(x, y, x + cellSize * 2, y);
-            
-            // Inner Hole (Counter-clockwise for nonzero winding, or just same direction for evenodd)
-            const hx = x + cellSize;
-            const hy = y + cellSize;
-            const hw = os - 2*cellSize;
-            const hr = cellSize * 1.5;
-            
-            ctx.moveTo(hx + hr, hy);
-            ctx.lineTo(hx + hw - hr, hy);
-            ctx.quadraticCurveTo(hx + hw, hy, hx + hw, hy + hr);
-            ctx.lineTo(hx + hw, hy + hw - hr);
-            ctx.quadraticCurveTo(hx + hw, hy + hw, hx + hw - hr, hy + hw);
-            ctx.lineTo(hx + hr, hy + hw);
-            ctx.quadraticCurveTo(hx, hy + hw, hx, hy + hw - hr);
-            ctx.lineTo(hx, hy + hr);
-            ctx.quadraticCurveTo(hx, hy, hx + hr, hy);
-            break;
-            
-        case 'leaf':
-             // Simplified Leaf Outer
-             const lr = cellSize * 2.5;
-             ctx.moveTo(x + lr, y);
-             ctx.lineTo(x + os, y);
-             ctx.lineTo(x + os, y + os - lr);
-             ctx.quadraticCurveTo(x + os, y + os, x + os - lr, y + os);
-             ctx.lineTo(x, y + os);
-             ctx.lineTo(x, y + lr);
-             ctx.quadraticCurveTo(x, y, x + lr, y);
-             
-             // Leaf Hole
-             const lix = x + cellSize;
-             const liy = y + cellSize;
-             const liw = os - 2*cellSize;
-             const lir = cellSize * 1.5;
-             ctx.moveTo(lix + lir, liy);
-             ctx.lineTo(lix + liw, liy);
-             ctx.lineTo(lix + liw, liy + liw - lir);
-             ctx.quadraticCurveTo(lix + liw, liy + liw, lix + liw - lir, liy + liw);
-             ctx.lineTo(lix, liy + liw);
-             ctx.lineTo(lix, liy + lir);
-             ctx.quadraticCurveTo(lix, liy, lix + lir, liy);
-             break;
-             
-        case 'square':
-        default:
-            ctx.rect(x, y, os, os);
-            ctx.rect(x + cellSize, y + cellSize, os - 2*cellSize, os - 2*cellSize);
-            break;
-    }
-    
-    // 2. INNER BLOCK (3x3 modules)
-    const ix = x + 2*cellSize;
-    const iy = y + 2*cellSize;
-    
-    switch (style) {
-        case 'circle':
-             ctx.moveTo(ix + is, iy + is/2);
-             ctx.arc(ix + is/2, iy + is/2, is/2, 0, Math.PI * 2);
-             break;
-        case 'rounded':
-             roundRectPath(ctx, ix, iy, is, is, cellSize * 1);
-             break;
-        case 'leaf':
-             // Leaf Inner
-             const ir = cellSize * 1;
-             ctx.moveTo(ix + ir, iy);
-             ctx.lineTo(ix + is, iy);
-             ctx.lineTo(ix + is, iy + is - ir);
-             ctx.quadraticCurveTo(ix + is, iy + is, ix + is - ir, iy + is);
-             ctx.lineTo(ix, iy + is);
-             ctx.lineTo(ix, iy + ir);
-             ctx.quadraticCurveTo(ix, iy, ix + ir, iy);
-             break;
-        case 'square':
-        default:
-             ctx.rect(ix, iy, is, is);
-             break;
-    }
-    
-    ctx.fill("evenodd"); 
-  };
-
-  const drawModule = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number, style: DotStyle) => {
-    const cx = x + size / 2;
-    const cy = y + size / 2;
-
-    ctx.beginPath();
-
-    switch (style) {
-      case 'dots':
-        ctx.arc(cx, cy, size / 2, 0, Math.PI * 2);
-        break;
-      case 'rounded':
-        roundRectPath(ctx, x, y, size, size, size * 0.25);
-        break;
-      case 'extra-rounded':
-        roundRectPath(ctx, x, y, size, size, size * 0.45);
-        break;
-      case 'classy':
-        // TL, TR, BR, BL
-        roundRectAdvanced(ctx, x, y, size, size, size * 0.5, 0, size * 0.5, 0);
-        break;
-      case 'classy-inverted':
-        roundRectAdvanced(ctx, x, y, size, size, 0, size * 0.5, 0, size * 0.5);
-        break;
-      case 'diamond':
-        ctx.moveTo(cx, y);
-        ctx.lineTo(x + size, cy);
-        ctx.lineTo(cx, y + size);
-        ctx.lineTo(x, cy);
-        break;
-      case 'cross':
-        const w = size * 0.35;
-        const inset = (size - w) / 2;
-        ctx.rect(x + inset, y, w, size);
-        ctx.rect(x, y + inset, size, w);
-        break;
-      case 'square':
-      default:
-        ctx.rect(x, y, size + 0.5, size + 0.5); // +0.5 to prevent sub-pixel rendering gaps
-        break;
-    }
-    
-    ctx.fill();
-    ctx.closePath();
-  };
-
-  const roundRectAdvanced = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, tl: number, tr: number, br: number, bl: number) => {
-    ctx.moveTo(x + tl, y);
-    ctx.lineTo(x + w - tr, y);
-    ctx.quadraticCurveTo(x + w, y, x + w, y + tr);
-    ctx.lineTo(x + w, y + h - br);
-    ctx.quadraticCurveTo(x + w, y + h, x + w - br, y + h);
-    ctx.lineTo(x + bl, y + h);
-    ctx.quadraticCurveTo(x, y + h, x, y + h - bl);
-    ctx.lineTo(x, y + tl);
-    ctx.quadraticCurveTo(x, y, x + tl, y);
-  };
-
   const generateQR = useCallback(async () => {
+    const run = ++scanCheckRunRef.current;
     if (!text) {
       setGeneratedBase64('');
+      setScanReport(null);
+      setIsCheckingScan(false);
+      setCompactError(null);
       return;
     }
 
     try {
-      const qrData = QRCode.create(text, {
-        errorCorrectionLevel: errorLevel
-      });
-
       const canvas = canvasRef.current;
       if (!canvas) return;
 
-      const size = qrSize; // User selected resolution
-      const margin = 2;
-      const modules = qrData.modules;
-      const moduleCount = modules.size;
-      const cellSize = size / (moduleCount + margin * 2);
-      
-      const scaleFactor = qrSize / 1000;
-      let extraHeight = 0;
-      let qrOffsetY = 0;
-
-      const renderLabelSize = labelSize * scaleFactor;
-
-      if (labelText) {
-          extraHeight = renderLabelSize * 2.5; 
-      }
-
-      const totalWidth = size;
-      const totalHeight = size + extraHeight;
-
-      canvas.width = totalWidth;
-      canvas.height = totalHeight;
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-
-      // Fill Background
-      const bgFill = getFillStyle(ctx, totalWidth, totalHeight, bgColorMode, bgGradientType, bgColor1, bgColor2);
-      ctx.fillStyle = bgFill;
-      ctx.fillRect(0, 0, totalWidth, totalHeight);
-
-      // Determine QR Y-Offset based on text position
-      if (labelText && labelPosition === 'top') {
-          qrOffsetY = extraHeight;
-      }
-
-      const fgFill = getFillStyle(ctx, size, size, fgColorMode, fgGradientType, fgColor1, fgColor2); 
-      ctx.fillStyle = fgFill;
-
-      const offset = margin * cellSize;
-
-      // Logo bounds logic
-      let logoStart = -1;
-      let logoEnd = -1;
-      const logoScale = logoSize / 100;
-
-      if (logo) {
-         const center = moduleCount / 2;
-         const logoModuleSize = Math.ceil((size * logoScale) / cellSize);
-         // Ensure odd size for better centering
-         const adjustedSize = logoModuleSize % 2 === 0 ? logoModuleSize + 1 : logoModuleSize;
-         
-         logoStart = Math.floor(center - adjustedSize / 2);
-         logoEnd = Math.ceil(center + adjustedSize / 2);
-      }
-
-      for (let r = 0; r < moduleCount; r++) {
-        for (let c = 0; c < moduleCount; c++) {
-          
-          // Skip modules that are under the logo "Quiet Zone"
-          if (logo && r >= logoStart && r < logoEnd && c >= logoStart && c < logoEnd) {
-             continue;
-          }
-
-          // Check for Finder Pattern Zones (7x7 in corners)
-          const isFinderPattern = 
-              (r < 7 && c < 7) || 
-              (r < 7 && c >= moduleCount - 7) || 
-              (r >= moduleCount - 7 && c < 7);
-
-          if (isFinderPattern) continue;
-
-          if (modules.get(r, c)) {
-            const x = offset + c * cellSize;
-            const y = qrOffsetY + offset + r * cellSize;
-            drawModule(ctx, x, y, cellSize, dotStyle);
-          }
-        }
-      }
-
-      // Draw Finder Patterns (Eyes) explicitly
-      drawFinderPattern(ctx, offset, qrOffsetY + offset, cellSize, eyeStyle);
-      drawFinderPattern(ctx, offset + (moduleCount - 7) * cellSize, qrOffsetY + offset, cellSize, eyeStyle);
-      drawFinderPattern(ctx, offset, qrOffsetY + offset + (moduleCount - 7) * cellSize, cellSize, eyeStyle);
-
-      // Draw Logo
-      if (logo) {
-        const logoImg = new Image();
-        // Removed crossOrigin to avoid Tainted Canvas errors with Data URLs in some browsers
-        logoImg.src = logo;
-        
-        await new Promise((resolve) => {
-          if (logoImg.complete) {
-              resolve(true);
-          } else {
-              logoImg.onload = () => resolve(true);
-              logoImg.onerror = () => resolve(false);
-          }
-        });
-
-        const logoSizePx = size * logoScale;
-        const logoX = (size - logoSizePx) / 2;
-        const logoY = qrOffsetY + (size - logoSizePx) / 2;
-        
-        ctx.save();
-        
-        if (logoShape !== 'none') {
-            ctx.beginPath();
-            if (logoShape === 'circle') {
-                ctx.arc(logoX + logoSizePx/2, logoY + logoSizePx/2, logoSizePx/2, 0, Math.PI * 2);
-            } else if (logoShape === 'rounded') {
-                // Use robust path fallback instead of ctx.roundRect for compatibility
-                roundRectPath(ctx, logoX, logoY, logoSizePx, logoSizePx, logoSizePx * 0.2); 
-            } else {
-                ctx.rect(logoX, logoY, logoSizePx, logoSizePx);
-            }
-            ctx.clip();
-        }
-        
-        ctx.drawImage(logoImg, logoX, logoY, logoSizePx, logoSizePx);
-        ctx.restore();
-      }
-
-      // Draw Label Text
-      if (labelText) {
-         ctx.fillStyle = labelColor;
-         ctx.font = `bold ${renderLabelSize}px ${labelFont}`;
-         ctx.textAlign = 'center';
-         ctx.textBaseline = 'middle';
-         
-         const textX = totalWidth / 2;
-         let textY = 0;
-         if (labelPosition === 'top') {
-             textY = extraHeight / 2;
-         } else {
-             textY = size + extraHeight / 2;
-         }
-         
-         ctx.fillText(labelText, textX, textY);
+      let layout: QRLayout;
+      try {
+        layout = await layoutCode(text, qrStyle);
+        if (run !== scanCheckRunRef.current) return;
+        setCompactError(null);
+      } catch (err) {
+        if (run !== scanCheckRunRef.current) return;
+        // Doesn't fit the encoding settings; the capacity meter and linked set panel say why,
+        // or for Micro QR and rMQR the encoder's own message
+        setCompactError(qrStyle.codeFormat === 'qr' ? null : (err as Error).message);
+        setGeneratedBase64('');
+        setScanReport(null);
+        setIsCheckingScan(false);
+        return;
       }
+      await renderToCanvas(canvas, layout, qrStyle);
 
       setGeneratedBase64(canvas.toDataURL('image/png'));
+      setLogoMaxSize(layout.logoMaxSize);
+
+      setIsCheckingScan(true);
+      const report = await checkScannability(canvas, text, qrStyle.codeFormat);
+      if (run !== scanCheckRunRef.current) return;
+      setScanReport(report);
+      setIsCheckingScan(false);
 
     } catch (err) {
       console.error("QR Generation failed", err);
+      if (run === scanCheckRunRef.current) setIsCheckingScan(false);
     }
-  }, [text, fgColor1, fgColor2, fgColorMode, fgGradientType, bgColor1, bgColor2, bgColorMode, bgGradientType, errorLevel, dotStyle, eyeStyle, logo, logoSize, logoShape, labelText, labelPosition, labelSize, labelColor, labelFont, qrSize]);
+  }, [text, qrStyle]);
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -545,20 +299,100 @@ const Generator: React.FC<GeneratorProps> = ({ onGenerate }) => {
     return () => clearTimeout(timer);
   }, [generateQR]);
 
-  const handleDownload = () => {
-    if (!generatedBase64) return;
-    const link = document.createElement('a');
-    link.download = `qrcode-${Date.now()}.png`;
-    link.href = generatedBase64;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Segments, version and fill for the current encoding settings
+  const encodingPlan = useMemo(() => planEncoding(text, qrStyle), [text, qrStyle]);
+  // Content over a single code's capacity, which can go out as a Structured Append set instead
+  const isOversized = codeFormat === 'qr' && !!text && encodingPlan.oversized;
+  const linkedMinimum = isOversized ? minimumParts(text, errorLevel) : null;
+  const linkedParts = linkedMinimum && linkedCount ? Math.min(MAX_PARTS, Math.max(linkedMinimum, linkedCount)) : 0;
+
+  // Renders the linked set whenever its content, part count or style changes
+  useEffect(() => {
+    if (!linkedParts) {
+      setLinkedImages([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const symbols = encodeStructuredAppend(text, linkedParts, qrStyle.errorLevel);
+      if (!symbols) return;
+      const canvas = document.createElement('canvas');
+      const images: string[] = [];
+      for (const symbol of symbols) {
+        await renderToCanvas(canvas, computeLayout(text, qrStyle, symbol), qrStyle);
+        if (cancelled) return;
+        images.push(canvas.toDataURL('image/png'));
+      }
+      setLinkedImages(images);
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [text, qrStyle, linkedParts]);
+
+  // One file per part in the chosen format, zipped with their position in the set in the names
+  const handleDownloadSet = async () => {
+    const symbols = encodeStructuredAppend(text, linkedParts, qrStyle.errorLevel);
+    if (!symbols) return;
+    setIsExporting(true);
+    try {
+      const base = `qrcode-set-${Date.now()}`;
+      const canvas = document.createElement('canvas');
+      const entries: ZipEntry[] = [];
+      for (const [i, symbol] of symbols.entries()) {
+        const name = `${base}-${i + 1}-of-${symbols.length}.${exportFormat}`;
+        const layout = computeLayout(text, qrStyle, symbol);
+        if (exportFormat === 'png') {
+          await renderToCanvas(canvas, layout, qrStyle);
+          entries.push({ name, data: dataUrlToBytes(canvas.toDataURL('image/png')) });
+        } else if (exportFormat === 'svg') {
+          entries.push({ name, data: renderToSvg(layout, qrStyle) });
+        } else {
+          entries.push({ name, data: new Uint8Array(await (await renderToPdf(layout, qrStyle)).arrayBuffer()) });
+        }
+      }
+      downloadBlob(createZip(entries), `${base}.zip`);
+    } catch (err) {
+      console.error("Export failed", err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Only block once the check has finished and the clean render itself failed
+  const isUnscannable = !isCheckingScan && scanReport?.status === 'fail';
+
+  const handleDownload = async () => {
+    if (!generatedBase64 || isUnscannable) return;
+    const filename = `qrcode-${Date.now()}`;
+
+    if (exportFormat === 'png') {
+      downloadUrl(generatedBase64, `${filename}.png`);
+    } else {
+      setIsExporting(true);
+      try {
+        // Vector exports re-trace the same layout the preview canvas was painted from
+        const layout = await layoutCode(text, qrStyle);
+        const blob = exportFormat === 'svg'
+          ? new Blob([renderToSvg(layout, qrStyle)], { type: 'image/svg+xml' })
+          : await renderToPdf(layout, qrStyle);
+        downloadBlob(blob, `${filename}.${exportFormat}`);
+      } catch (err) {
+        console.error("Export failed", err);
+        return;
+      } finally {
+        setIsExporting(false);
+      }
+    }
     
     onGenerate({
       id: crypto.randomUUID(),
       data: text,
       timestamp: Date.now(),
-      base64: generatedBase64
+      base64: generatedBase64,
+      content,
+      style: qrStyle,
     });
   };
 
@@ -573,6 +407,69 @@ const Generator: React.FC<GeneratorProps> = ({ onGenerate }) => {
     }
   }
 
+  const inputClass = (field: string) =>
+    `w-full bg-dark-950 border rounded-lg p-3 text-white focus:ring-2 focus:ring-mask-cyan outline-none text-sm ${fieldErrors[field] ? 'border-red-500/60' : 'border-gray-700'}`;
+
+  const renderFieldError = (field: string) =>
+    fieldErrors[field] && <p className="text-[10px] text-red-400 mt-1">{fieldErrors[field]}</p>;
+
+  const updateVcardAddress = (changes: Partial<VcardFields['address']>) =>
+    setVcardData({...vcardData, address: {...vcardData.address, ...changes}});
+
+  const updateVcardEntry = (list: 'phones' | 'emails', index: number, changes: Partial<ContactEntry>) =>
+    setVcardData({...vcardData, [list]: vcardData[list].map((entry, i) => (i === index ? {...entry, ...changes} : entry))});
+
+  // Typed phone or email rows; phone errors are keyed by row ("phone-0")
+  const renderVcardEntries = (
+    list: 'phones' | 'emails',
+    label: string,
+    types: string[],
+    inputType: string,
+    placeholder: string
+  ) => (
+    <div className="space-y-2">
+      <label className="block text-xs font-medium text-gray-400 uppercase">{label}</label>
+      {vcardData[list].map((entry, i) => {
+        const errorKey = list === 'phones' ? `phone-${i}` : '';
+        return (
+          <div key={i}>
+            <div className="flex gap-2">
+              <select
+                value={entry.label}
+                onChange={(e) => updateVcardEntry(list, i, { label: e.target.value })}
+                className="w-24 shrink-0 bg-dark-950 border border-gray-700 rounded-lg px-2 text-xs text-gray-300 focus:border-mask-cyan outline-none capitalize"
+              >
+                {types.map(type => <option key={type} value={type}>{type}</option>)}
+                <option value="">Other</option>
+              </select>
+              <input
+                type={inputType}
+                value={entry.value}
+                onChange={(e) => updateVcardEntry(list, i, { value: e.target.value })}
+                className={inputClass(errorKey)}
+                placeholder={placeholder}
+              />
+              <button
+                onClick={() => setVcardData({...vcardData, [list]: vcardData[list].filter((_, j) => j !== i)})}
+                className="px-2 text-gray-500 hover:text-red-400 transition-colors"
+                title="Remove"
+              >
+                <X size={16} />
+              </button>
+            </div>
+            {errorKey && renderFieldError(errorKey)}
+          </div>
+        );
+      })}
+      <button
+        onClick={() => setVcardData({...vcardData, [list]: [...vcardData[list], { value: '', label: types[0] }]})}
+        className="text-xs text-mask-cyan hover:text-white flex items-center gap-1 transition-colors"
+      >
+        <Plus size={14} /> Add {list === 'phones' ? 'phone' : 'email'}
+      </button>
+    </div>
+  );
+
   const renderColorControls = (
     label: string, 
     mode: ColorMode, 
@@ -663,6 +560,24 @@ const Generator: React.FC<GeneratorProps> = ({ onGenerate }) => {
   return (
     <div className="h-full w-full overflow-y-auto p-4 pb-24 md:pb-4 max-w-2xl mx-auto">
       <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-mask-gradient-text mb-6 font-mono">Creator Studio</h2>
+
+      {editItem && (
+        <div className="flex items-center gap-3 bg-mask-cyan/5 border border-mask-cyan/30 rounded-xl p-3 mb-6 animate-fade-in">
+          <Pencil size={16} className="text-mask-cyan shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-white">Editing a saved code</p>
+            <p className="text-[10px] text-gray-400 truncate">
+              {editItem.style ? 'Downloading adds the edited version to history' : 'Saved before styles were kept, so the default style is applied'}
+            </p>
+          </div>
+          <button
+            onClick={onCancelEdit}
+            className="text-xs bg-dark-800 hover:bg-dark-700 text-gray-300 px-3 py-1.5 rounded-lg border border-gray-700 shrink-0"
+          >
+            Start New
+          </button>
+        </div>
+      )}
       
       <canvas ref={canvasRef} className="hidden" />
 
@@ -682,6 +597,12 @@ const Generator: React.FC<GeneratorProps> = ({ onGenerate }) => {
           >
             <Palette size={16} /> Style & Logo
           </button>
+          <button 
+            onClick={() => setActiveTab('batch')}
+            className={`flex-1 py-4 text-sm font-medium flex items-center justify-center gap-2 transition-colors ${activeTab === 'batch' ? 'bg-dark-700 text-mask-cyan border-b-2 border-mask-cyan' : 'text-gray-400 hover:text-white'}`}
+          >
+            <FileSpreadsheet size={16} /> Batch
+          </button>
         </div>
 
         <div className="p-6 space-y-6">
@@ -697,6 +618,13 @@ const Generator: React.FC<GeneratorProps> = ({ onGenerate }) => {
                   { id: 'wifi', icon: Wifi, label: 'WiFi' },
                   { id: 'email', icon: Mail, label: 'Email' },
                   { id: 'vcard', icon: UserSquare, label: 'Contact' },
+                  { id: 'mecard', icon: IdCard, label: 'MeCard' },
+                  { id: 'phone', icon: Phone, label: 'Phone' },
+                  { id: 'sms', icon: MessageSquare, label: 'SMS' },
+                  { id: 'geo', icon: MapPin, label: 'Location' },
+                  { id: 'event', icon: CalendarDays, label: 'Event' },
+                  { id: 'crypto', icon: Bitcoin, label: 'Crypto' },
+                  { id: 'payment', icon: Landmark, label: 'Payment' },
                 ].map((type) => (
                   <button
                     key={type.id}
@@ -762,23 +690,85 @@ const Generator: React.FC<GeneratorProps> = ({ onGenerate }) => {
                           type="text"
                           value={wifiData.password}
                           onChange={(e) => setWifiData({...wifiData, password: e.target.value})}
-                          className="w-full bg-dark-950 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-mask-cyan outline-none text-sm"
+                          className={inputClass('password')}
                           placeholder="Password"
+                          disabled={wifiData.encryption === 'nopass'}
                         />
+                        {renderFieldError('password')}
                       </div>
                       <div>
                         <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Encryption</label>
                         <select
                            value={wifiData.encryption}
-                           onChange={(e) => setWifiData({...wifiData, encryption: e.target.value as any})}
+                           onChange={(e) => setWifiData({...wifiData, encryption: e.target.value as WifiEncryption})}
                            className="w-full bg-dark-950 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-mask-cyan outline-none text-sm appearance-none"
                         >
                           <option value="WPA">WPA/WPA2</option>
+                          <option value="SAE">WPA3 (SAE)</option>
+                          <option value="WPA2-EAP">WPA2/WPA3 Enterprise</option>
                           <option value="WEP">WEP</option>
                           <option value="nopass">None</option>
                         </select>
                       </div>
                     </div>
+                    {wifiData.encryption === 'WPA2-EAP' && (
+                      <div className="space-y-4 border-l-2 border-mask-cyan/30 pl-4">
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">EAP Method</label>
+                            <select
+                              value={wifiData.eapMethod}
+                              onChange={(e) => setWifiData({...wifiData, eapMethod: e.target.value})}
+                              className="w-full bg-dark-950 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-mask-cyan outline-none text-sm appearance-none"
+                            >
+                              {WIFI_EAP_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Phase 2</label>
+                            <select
+                              value={wifiData.phase2}
+                              onChange={(e) => setWifiData({...wifiData, phase2: e.target.value})}
+                              className="w-full bg-dark-950 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-mask-cyan outline-none text-sm appearance-none"
+                            >
+                              {WIFI_PHASE2_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+                            </select>
+                          </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Identity</label>
+                            <input
+                              type="text"
+                              value={wifiData.identity}
+                              onChange={(e) => setWifiData({...wifiData, identity: e.target.value})}
+                              className={inputClass('identity')}
+                              placeholder="user@example.com"
+                            />
+                            {renderFieldError('identity')}
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Anonymous Identity</label>
+                            <input
+                              type="text"
+                              value={wifiData.anonymousIdentity}
+                              onChange={(e) => setWifiData({...wifiData, anonymousIdentity: e.target.value})}
+                              className={inputClass('anonymousIdentity')}
+                              placeholder="Optional"
+                            />
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                    <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={wifiData.hidden}
+                        onChange={(e) => setWifiData({...wifiData, hidden: e.target.checked})}
+                        className="accent-mask-lime"
+                      />
+                      Hidden network
+                    </label>
                   </div>
                 )}
 
@@ -798,37 +788,608 @@ const Generator: React.FC<GeneratorProps> = ({ onGenerate }) => {
                 )}
 
                 {contentType === 'vcard' && (
-                   <div className="space-y-4">
-                      <div className="grid grid-cols-2 gap-4">
-                        <div>
-                          <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">First Name</label>
+                  <div className="space-y-4">
+                    <input type="file" ref={vcfInputRef} className="hidden" accept=".vcf,text/vcard,text/x-vcard" onChange={handleVcfImport} />
+                    <div className="flex gap-3">
+                      <div className="flex flex-1 bg-dark-950 rounded-lg p-1 border border-gray-700">
+                        {(['3.0', '4.0'] as VcardVersion[]).map(version => (
+                          <button
+                            key={version}
+                            onClick={() => setVcardData({...vcardData, version})}
+                            className={`flex-1 py-1.5 rounded-md text-xs font-bold transition-all ${vcardData.version === version ? 'bg-gray-700 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
+                          >
+                            vCard {version}
+                          </button>
+                        ))}
+                      </div>
+                      <button
+                        onClick={() => vcfInputRef.current?.click()}
+                        className="flex items-center gap-2 px-3 rounded-lg border border-gray-700 bg-dark-950 text-xs text-gray-300 hover:text-white hover:border-gray-500 transition-colors"
+                      >
+                        <Upload size={14} /> Import .vcf
+                      </button>
+                    </div>
+                    {vcfError && <p className="text-[10px] text-red-400">{vcfError}</p>}
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">First Name</label>
+                        <input
+                          type="text"
+                          value={vcardData.firstName}
+                          onChange={(e) => setVcardData({...vcardData, firstName: e.target.value})}
+                          className={inputClass('firstName')}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Last Name</label>
+                        <input
+                          type="text"
+                          value={vcardData.lastName}
+                          onChange={(e) => setVcardData({...vcardData, lastName: e.target.value})}
+                          className={inputClass('lastName')}
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Organization</label>
+                        <input
+                          type="text"
+                          value={vcardData.org}
+                          onChange={(e) => setVcardData({...vcardData, org: e.target.value})}
+                          className={inputClass('org')}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Job Title</label>
+                        <input
+                          type="text"
+                          value={vcardData.title}
+                          onChange={(e) => setVcardData({...vcardData, title: e.target.value})}
+                          className={inputClass('title')}
+                        />
+                      </div>
+                    </div>
+                    {renderVcardEntries('phones', 'Phones', VCARD_PHONE_TYPES, 'tel', '+1 555 123 4567')}
+                    {renderVcardEntries('emails', 'Emails', VCARD_EMAIL_TYPES, 'email', 'john@example.com')}
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Website</label>
+                      <input
+                        type="url"
+                        value={vcardData.url}
+                        onChange={(e) => setVcardData({...vcardData, url: e.target.value})}
+                        className={inputClass('url')}
+                        placeholder="https://example.com"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="block text-xs font-medium text-gray-400 uppercase">Address</label>
+                      <input
+                        type="text"
+                        value={vcardData.address.street}
+                        onChange={(e) => updateVcardAddress({ street: e.target.value })}
+                        className={inputClass('street')}
+                        placeholder="Street"
+                      />
+                      <div className="grid grid-cols-3 gap-2">
+                        <input
+                          type="text"
+                          value={vcardData.address.postalCode}
+                          onChange={(e) => updateVcardAddress({ postalCode: e.target.value })}
+                          className={inputClass('postalCode')}
+                          placeholder="Postal code"
+                        />
+                        <input
+                          type="text"
+                          value={vcardData.address.city}
+                          onChange={(e) => updateVcardAddress({ city: e.target.value })}
+                          className={`${inputClass('city')} col-span-2`}
+                          placeholder="City"
+                        />
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <input
+                          type="text"
+                          value={vcardData.address.region}
+                          onChange={(e) => updateVcardAddress({ region: e.target.value })}
+                          className={inputClass('region')}
+                          placeholder="State / Region"
+                        />
+                        <input
+                          type="text"
+                          value={vcardData.address.country}
+                          onChange={(e) => updateVcardAddress({ country: e.target.value })}
+                          className={inputClass('country')}
+                          placeholder="Country"
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Birthday</label>
+                        <input
+                          type="date"
+                          value={vcardData.birthday}
+                          onChange={(e) => setVcardData({...vcardData, birthday: e.target.value})}
+                          className={`${inputClass('birthday')} [color-scheme:dark]`}
+                        />
+                      </div>
+                      <div className="col-span-2">
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Note</label>
+                        <input
+                          type="text"
+                          value={vcardData.note}
+                          onChange={(e) => setVcardData({...vcardData, note: e.target.value})}
+                          className={inputClass('note')}
+                        />
+                      </div>
+                    </div>
+                    {payloadBytes > DENSE_VCARD_BYTES && (
+                      <div className="flex items-start gap-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3">
+                        <AlertTriangle size={16} className="text-yellow-400 shrink-0 mt-0.5" />
+                        <div className="space-y-2">
+                          <p className="text-xs text-yellow-200">
+                            This vCard is {payloadBytes} bytes, which makes a dense code that older phones struggle to read.
+                            A MeCard keeps the name, first phone and email, website, address and note in far less space.
+                          </p>
+                          <button
+                            onClick={() => {
+                              setMecardData(vcardToMecard(vcardData));
+                              setContentType('mecard');
+                            }}
+                            className="text-xs font-bold text-yellow-300 hover:text-yellow-100 flex items-center gap-1"
+                          >
+                            <IdCard size={14} /> Use compact MeCard
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {contentType === 'mecard' && (
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">First Name</label>
+                        <input
+                          type="text"
+                          value={mecardData.firstName}
+                          onChange={(e) => setMecardData({...mecardData, firstName: e.target.value})}
+                          className={inputClass('firstName')}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Last Name</label>
+                        <input
+                          type="text"
+                          value={mecardData.lastName}
+                          onChange={(e) => setMecardData({...mecardData, lastName: e.target.value})}
+                          className={inputClass('lastName')}
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Phone</label>
+                        <input
+                          type="tel"
+                          value={mecardData.phone}
+                          onChange={(e) => setMecardData({...mecardData, phone: e.target.value})}
+                          className={inputClass('phone')}
+                          placeholder="+1 555 123 4567"
+                        />
+                        {renderFieldError('phone')}
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Email</label>
+                        <input
+                          type="email"
+                          value={mecardData.email}
+                          onChange={(e) => setMecardData({...mecardData, email: e.target.value})}
+                          className={inputClass('email')}
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Website</label>
+                      <input
+                        type="url"
+                        value={mecardData.url}
+                        onChange={(e) => setMecardData({...mecardData, url: e.target.value})}
+                        className={inputClass('url')}
+                        placeholder="https://example.com"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Address</label>
+                      <input
+                        type="text"
+                        value={mecardData.address}
+                        onChange={(e) => setMecardData({...mecardData, address: e.target.value})}
+                        className={inputClass('address')}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Note</label>
+                      <input
+                        type="text"
+                        value={mecardData.note}
+                        onChange={(e) => setMecardData({...mecardData, note: e.target.value})}
+                        className={inputClass('note')}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {contentType === 'phone' && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Phone Number</label>
+                    <input
+                      type="tel"
+                      value={phoneData.phone}
+                      onChange={(e) => setPhoneData({ phone: e.target.value })}
+                      className={inputClass('phone')}
+                      placeholder="+1 555 123 4567"
+                    />
+                    {renderFieldError('phone')}
+                  </div>
+                )}
+
+                {contentType === 'sms' && (
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Phone Number</label>
+                      <input
+                        type="tel"
+                        value={smsData.phone}
+                        onChange={(e) => setSmsData({...smsData, phone: e.target.value})}
+                        className={inputClass('phone')}
+                        placeholder="+1 555 123 4567"
+                      />
+                      {renderFieldError('phone')}
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Message</label>
+                      <textarea
+                        value={smsData.message}
+                        onChange={(e) => setSmsData({...smsData, message: e.target.value})}
+                        className={`${inputClass('message')} h-24 resize-none`}
+                        placeholder="Pre-filled message (optional)"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {contentType === 'geo' && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Latitude</label>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={geoData.latitude}
+                        onChange={(e) => setGeoData({...geoData, latitude: e.target.value})}
+                        className={`${inputClass('latitude')} font-mono`}
+                        placeholder="51.5007"
+                      />
+                      {renderFieldError('latitude')}
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Longitude</label>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={geoData.longitude}
+                        onChange={(e) => setGeoData({...geoData, longitude: e.target.value})}
+                        className={`${inputClass('longitude')} font-mono`}
+                        placeholder="-0.1246"
+                      />
+                      {renderFieldError('longitude')}
+                    </div>
+                  </div>
+                )}
+
+                {contentType === 'event' && (
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Title</label>
+                      <input
+                        type="text"
+                        value={eventData.summary}
+                        onChange={(e) => setEventData({...eventData, summary: e.target.value})}
+                        className={inputClass('summary')}
+                        placeholder="Team meetup"
+                      />
+                      {renderFieldError('summary')}
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={eventData.allDay}
+                        // Date inputs take the first 10 characters of a datetime value
+                        onChange={(e) => setEventData({
+                          ...eventData,
+                          allDay: e.target.checked,
+                          start: e.target.checked ? eventData.start.slice(0, 10) : eventData.start,
+                          end: e.target.checked ? eventData.end.slice(0, 10) : eventData.end,
+                        })}
+                        className="accent-mask-lime"
+                      />
+                      All-day event
+                    </label>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Start</label>
+                        <input
+                          type={eventData.allDay ? 'date' : 'datetime-local'}
+                          value={eventData.start}
+                          onChange={(e) => setEventData({...eventData, start: e.target.value})}
+                          className={inputClass('start')}
+                        />
+                        {renderFieldError('start')}
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">{eventData.allDay ? 'Last Day' : 'End'}</label>
+                        <input
+                          type={eventData.allDay ? 'date' : 'datetime-local'}
+                          value={eventData.end}
+                          onChange={(e) => setEventData({...eventData, end: e.target.value})}
+                          className={inputClass('end')}
+                        />
+                        {renderFieldError('end')}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Location</label>
+                      <input
+                        type="text"
+                        value={eventData.location}
+                        onChange={(e) => setEventData({...eventData, location: e.target.value})}
+                        className={inputClass('location')}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Description</label>
+                      <textarea
+                        value={eventData.description}
+                        onChange={(e) => setEventData({...eventData, description: e.target.value})}
+                        className={`${inputClass('description')} h-20 resize-none`}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {contentType === 'crypto' && (
+                  <div className="space-y-4">
+                    <div className="flex bg-dark-950 rounded-lg p-1 border border-gray-700">
+                      {([
+                        { id: 'bitcoin', label: 'Bitcoin (BTC)' },
+                        { id: 'ethereum', label: 'Ethereum (ETH)' },
+                      ] as { id: CryptoCurrency; label: string }[]).map(c => (
+                        <button
+                          key={c.id}
+                          onClick={() => setCryptoData({...cryptoData, currency: c.id})}
+                          className={`flex-1 py-1.5 rounded-md text-xs font-bold transition-all ${cryptoData.currency === c.id ? 'bg-gray-700 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
+                        >
+                          {c.label}
+                        </button>
+                      ))}
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Wallet Address</label>
+                      <input
+                        type="text"
+                        value={cryptoData.address}
+                        onChange={(e) => setCryptoData({...cryptoData, address: e.target.value})}
+                        className={`${inputClass('address')} font-mono`}
+                        placeholder={cryptoData.currency === 'bitcoin' ? 'bc1q…' : '0x…'}
+                        spellCheck={false}
+                      />
+                      {renderFieldError('address')}
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">
+                          Amount ({cryptoData.currency === 'bitcoin' ? 'BTC' : 'ETH'})
+                        </label>
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={cryptoData.amount}
+                          onChange={(e) => setCryptoData({...cryptoData, amount: e.target.value})}
+                          className={`${inputClass('amount')} font-mono`}
+                          placeholder="Optional"
+                        />
+                        {renderFieldError('amount')}
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Label</label>
+                        <input
+                          type="text"
+                          value={cryptoData.label}
+                          onChange={(e) => setCryptoData({...cryptoData, label: e.target.value})}
+                          className={inputClass('label')}
+                          placeholder="Recipient name"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Message</label>
+                      <input
+                        type="text"
+                        value={cryptoData.message}
+                        onChange={(e) => setCryptoData({...cryptoData, message: e.target.value})}
+                        className={inputClass('message')}
+                        placeholder="Optional"
+                      />
+                    </div>
+                  </div>
+                )}
+                {contentType === 'payment' && (
+                  <div className="space-y-4">
+                    <div className="flex bg-dark-950 rounded-lg p-1 border border-gray-700">
+                      {([
+                        { id: 'epc', label: 'SEPA Transfer' },
+                        { id: 'emv', label: 'EMVCo Merchant' },
+                      ] as { id: PaymentScheme; label: string }[]).map(s => (
+                        <button
+                          key={s.id}
+                          onClick={() => setPaymentData({...paymentData, scheme: s.id, currency: s.id === 'epc' ? 'EUR' : paymentData.currency})}
+                          className={`flex-1 py-1.5 rounded-md text-xs font-bold transition-all ${paymentData.scheme === s.id ? 'bg-gray-700 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
+                        >
+                          {s.label}
+                        </button>
+                      ))}
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">
+                        {paymentData.scheme === 'epc' ? 'Beneficiary Name' : 'Merchant Name'}
+                      </label>
+                      <input
+                        type="text"
+                        value={paymentData.payee}
+                        onChange={(e) => setPaymentData({...paymentData, payee: e.target.value})}
+                        className={inputClass('payee')}
+                        placeholder={paymentData.scheme === 'epc' ? 'Red Cross Belgium' : 'Corner Cafe'}
+                      />
+                      {renderFieldError('payee')}
+                    </div>
+
+                    {paymentData.scheme === 'epc' ? (
+                      <div className="grid grid-cols-3 gap-4">
+                        <div className="col-span-2">
+                          <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">IBAN</label>
                           <input
                             type="text"
-                            value={vcardData.firstName}
-                            onChange={(e) => setVcardData({...vcardData, firstName: e.target.value})}
-                            className="w-full bg-dark-950 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-mask-cyan outline-none text-sm"
+                            value={paymentData.iban}
+                            onChange={(e) => setPaymentData({...paymentData, iban: e.target.value})}
+                            className={`${inputClass('iban')} font-mono`}
+                            placeholder="BE72 0000 0000 1616"
+                            spellCheck={false}
                           />
+                          {renderFieldError('iban')}
                         </div>
                         <div>
-                          <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Last Name</label>
+                          <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">BIC</label>
                           <input
                             type="text"
-                            value={vcardData.lastName}
-                            onChange={(e) => setVcardData({...vcardData, lastName: e.target.value})}
-                            className="w-full bg-dark-950 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-mask-cyan outline-none text-sm"
+                            value={paymentData.bic}
+                            onChange={(e) => setPaymentData({...paymentData, bic: e.target.value})}
+                            className={`${inputClass('bic')} font-mono`}
+                            placeholder="Optional"
+                            spellCheck={false}
                           />
+                          {renderFieldError('bic')}
                         </div>
                       </div>
+                    ) : (
+                      <>
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Network ID</label>
+                            <input
+                              type="text"
+                              value={paymentData.merchantAccountId}
+                              onChange={(e) => setPaymentData({...paymentData, merchantAccountId: e.target.value})}
+                              className={`${inputClass('merchantAccountId')} font-mono`}
+                              placeholder="com.example.pay"
+                              spellCheck={false}
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Merchant Account</label>
+                            <input
+                              type="text"
+                              value={paymentData.merchantAccount}
+                              onChange={(e) => setPaymentData({...paymentData, merchantAccount: e.target.value})}
+                              className={`${inputClass('merchantAccount')} font-mono`}
+                              placeholder="Account or merchant ID"
+                              spellCheck={false}
+                            />
+                          </div>
+                        </div>
+                        {renderFieldError('merchantAccount')}
+                        <div className="grid grid-cols-3 gap-4">
+                          <div>
+                            <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">City</label>
+                            <input
+                              type="text"
+                              value={paymentData.merchantCity}
+                              onChange={(e) => setPaymentData({...paymentData, merchantCity: e.target.value})}
+                              className={inputClass('merchantCity')}
+                              placeholder="Singapore"
+                            />
+                            {renderFieldError('merchantCity')}
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Country</label>
+                            <input
+                              type="text"
+                              value={paymentData.countryCode}
+                              onChange={(e) => setPaymentData({...paymentData, countryCode: e.target.value})}
+                              className={`${inputClass('countryCode')} font-mono`}
+                              placeholder="SG"
+                              maxLength={2}
+                            />
+                            {renderFieldError('countryCode')}
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Category</label>
+                            <input
+                              type="text"
+                              inputMode="numeric"
+                              value={paymentData.category}
+                              onChange={(e) => setPaymentData({...paymentData, category: e.target.value})}
+                              className={`${inputClass('category')} font-mono`}
+                              placeholder="0000"
+                              maxLength={4}
+                            />
+                            {renderFieldError('category')}
+                          </div>
+                        </div>
+                      </>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-4">
                       <div>
-                           <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Mobile</label>
-                           <input
-                            type="tel"
-                            value={vcardData.phone}
-                            onChange={(e) => setVcardData({...vcardData, phone: e.target.value})}
-                            className="w-full bg-dark-950 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-mask-cyan outline-none text-sm"
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Amount</label>
+                        <div className="flex gap-2">
+                          <input
+                            type="text"
+                            inputMode="decimal"
+                            value={paymentData.amount}
+                            onChange={(e) => setPaymentData({...paymentData, amount: e.target.value})}
+                            className={`${inputClass('amount')} font-mono`}
+                            placeholder="Optional"
                           />
+                          {paymentData.scheme === 'epc' ? (
+                            <span className="flex items-center px-3 rounded-lg bg-dark-950 border border-gray-700 text-xs font-bold text-gray-400">EUR</span>
+                          ) : (
+                            <select
+                              value={paymentData.currency}
+                              onChange={(e) => setPaymentData({...paymentData, currency: e.target.value})}
+                              className="bg-dark-950 border border-gray-700 rounded-lg px-2 text-xs font-bold text-gray-300 focus:border-mask-cyan outline-none"
+                            >
+                              {Object.keys(EMV_CURRENCIES).map(code => <option key={code} value={code}>{code}</option>)}
+                            </select>
+                          )}
+                        </div>
+                        {renderFieldError('amount')}
                       </div>
-                   </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Reference</label>
+                        <input
+                          type="text"
+                          value={paymentData.reference}
+                          onChange={(e) => setPaymentData({...paymentData, reference: e.target.value})}
+                          className={inputClass('reference')}
+                          placeholder={paymentData.scheme === 'epc' ? 'RF… or free text' : 'Invoice number'}
+                        />
+                        {renderFieldError('reference')}
+                      </div>
+                    </div>
+                  </div>
                 )}
               </div>
 
@@ -850,9 +1411,43 @@ const Generator: React.FC<GeneratorProps> = ({ onGenerate }) => {
             </div>
           )}
 
+          {/* BATCH TAB */}
+          {activeTab === 'batch' && (
+            <BatchGenerator style={qrStyle} onGenerate={onGenerate} />
+          )}
+
           {/* STYLE TAB */}
           {activeTab === 'style' && (
             <div className="animate-fade-in space-y-8">
+
+              <PresetManager currentStyle={qrStyle} onApply={applyStyle} />
+
+              {/* Code Format */}
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-2 uppercase tracking-wide">Code Format</label>
+                <div className="flex bg-dark-950 rounded-lg p-1 border border-gray-700">
+                  {(Object.keys(CODE_FORMAT_LABELS) as CodeFormat[]).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => {
+                        setCodeFormat(format);
+                        setErrorLevel(levelFor(format, errorLevel));
+                      }}
+                      className={`flex-1 py-1.5 rounded-md text-xs font-bold transition-all ${codeFormat === format ? 'bg-gray-700 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
+                    >
+                      {CODE_FORMAT_LABELS[format]}
+                    </button>
+                  ))}
+                </div>
+                {codeFormat !== 'qr' && (
+                  <p className="text-[10px] text-gray-500 mt-2">
+                    {codeFormat === 'microqr'
+                      ? 'Up to 17×17 modules with a single finder, for short IDs on small parts.'
+                      : 'A rectangular strip up to 17 modules tall, for narrow labels.'}
+                    {' '}Holds far less than a QR code, no logo, and not every phone camera reads it.
+                  </p>
+                )}
+              </div>
               
               {/* Size / Resolution Control */}
               <div>
@@ -949,19 +1544,123 @@ const Generator: React.FC<GeneratorProps> = ({ onGenerate }) => {
                     <select
                       value={errorLevel}
                       onChange={(e) => setErrorLevel(e.target.value as any)}
-                      disabled={!!logo}
-                      className={`w-full bg-dark-950 border border-gray-700 rounded-xl p-2.5 text-white focus:ring-2 focus:ring-mask-cyan outline-none appearance-none text-sm h-[42px] ${logo ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'}`}
+                      className="w-full bg-dark-950 border border-gray-700 rounded-xl p-2.5 text-white focus:ring-2 focus:ring-mask-cyan outline-none appearance-none text-sm cursor-pointer h-[42px]"
                     >
-                      <option value="L">Low (7%)</option>
-                      <option value="M">Medium (15%)</option>
-                      <option value="Q">Quartile (25%)</option>
-                      <option value="H">High (30%)</option>
+                      <option value="L" disabled={!FORMAT_LEVELS[codeFormat].includes('L')}>Low (7%)</option>
+                      <option value="M" disabled={!FORMAT_LEVELS[codeFormat].includes('M')}>Medium (15%)</option>
+                      <option value="Q" disabled={!FORMAT_LEVELS[codeFormat].includes('Q')}>Quartile (25%)</option>
+                      <option value="H" disabled={!FORMAT_LEVELS[codeFormat].includes('H')}>High (30%)</option>
                     </select>
                     <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={16} />
                   </div>
                 </div>
               </div>
 
+              {/* Advanced Encoding */}
+              {codeFormat === 'qr' && (
+                <div className="border-t border-gray-700/50 pt-6">
+                  <label className="block text-xs font-medium text-gray-400 mb-4 uppercase tracking-wide">Advanced Encoding</label>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Version</label>
+                      <div className="relative">
+                        <select
+                          value={qrVersion}
+                          onChange={(e) => setQrVersion(Number(e.target.value))}
+                          className="w-full bg-dark-950 border border-gray-700 rounded-xl p-2.5 text-white focus:ring-2 focus:ring-mask-cyan outline-none appearance-none text-sm cursor-pointer h-[42px]"
+                        >
+                          <option value={0}>Auto (smallest)</option>
+                          {Array.from({ length: 40 }, (_, i) => i + 1).map(v => (
+                            <option key={v} value={v}>{v} ({v * 4 + 17}×{v * 4 + 17})</option>
+                          ))}
+                        </select>
+                        <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={16} />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Mask Pattern</label>
+                      <div className="relative">
+                        <select
+                          value={maskPattern}
+                          onChange={(e) => setMaskPattern(Number(e.target.value))}
+                          className="w-full bg-dark-950 border border-gray-700 rounded-xl p-2.5 text-white focus:ring-2 focus:ring-mask-cyan outline-none appearance-none text-sm cursor-pointer h-[42px]"
+                        >
+                          <option value={-1}>Auto (lowest penalty)</option>
+                          {Array.from({ length: 8 }, (_, i) => i).map(m => (
+                            <option key={m} value={m}>Mask {m}</option>
+                          ))}
+                        </select>
+                        <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={16} />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Segments</label>
+                      <div className="relative">
+                        <select
+                          value={segmentMode}
+                          onChange={(e) => setSegmentMode(e.target.value as SegmentMode)}
+                          className="w-full bg-dark-950 border border-gray-700 rounded-xl p-2.5 text-white focus:ring-2 focus:ring-mask-cyan outline-none appearance-none text-sm cursor-pointer h-[42px]"
+                        >
+                          {(Object.keys(SEGMENT_LABELS) as SegmentMode[]).map(mode => (
+                            <option key={mode} value={mode}>{mode === 'auto' ? SEGMENT_LABELS[mode] : `${SEGMENT_LABELS[mode]} only`}</option>
+                          ))}
+                        </select>
+                        <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={16} />
+                      </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer self-end h-[42px]">
+                      <input
+                        type="checkbox"
+                        checked={eciUtf8}
+                        onChange={(e) => setEciUtf8(e.target.checked)}
+                        className="accent-mask-lime"
+                      />
+                      UTF-8 ECI header
+                    </label>
+                  </div>
+
+                  {/* Capacity meter */}
+                  {text && (
+                    <div className="mt-4 bg-dark-950 p-4 rounded-xl border border-gray-800 space-y-2">
+                      {encodingPlan.problem ? (
+                        <p className="flex items-center gap-2 text-xs text-red-400">
+                          <AlertTriangle size={14} className="shrink-0" /> {encodingPlan.problem}
+                        </p>
+                      ) : (
+                        <>
+                          <div className="flex justify-between text-xs font-mono">
+                            <span className={encodingPlan.fits ? 'text-gray-300' : 'text-red-400'}>
+                              {Math.ceil(encodingPlan.usedBits / 8)} / {encodingPlan.capacityBits / 8} bytes
+                            </span>
+                            <span className="text-gray-500">
+                              {encodingPlan.version
+                                ? `Version ${encodingPlan.version} (${encodingPlan.version * 4 + 17}×${encodingPlan.version * 4 + 17}) · ${errorLevel}`
+                                : `Over version 40 · ${errorLevel}`}
+                            </span>
+                          </div>
+                          <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                            <div
+                              className={`h-full transition-all ${encodingPlan.fits ? 'bg-mask-gradient' : 'bg-red-500'}`}
+                              style={{ width: `${Math.min(100, (encodingPlan.usedBits / encodingPlan.capacityBits) * 100)}%` }}
+                            ></div>
+                          </div>
+                          <div className="flex flex-wrap gap-1.5">
+                            {encodingPlan.segments.map((segment, i) => (
+                              <span key={i} className="text-[10px] font-mono text-gray-400 bg-dark-800 border border-gray-700 rounded px-1.5 py-0.5">
+                                {SEGMENT_LABELS[segment.mode]} · {Array.from(segment.text).length}
+                              </span>
+                            ))}
+                          </div>
+                          {!encodingPlan.fits && qrVersion > 0 && !encodingPlan.oversized && (
+                            <p className="text-xs text-red-400">Too much data for version {qrVersion}; pick a larger version or Auto.</p>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Logo Upload */}
               <div className="border-t border-gray-700/50 pt-6">
                 <label className="block text-xs font-medium text-gray-400 mb-4 uppercase tracking-wide">Logo Overlay</label>
@@ -1027,6 +1726,86 @@ const Generator: React.FC<GeneratorProps> = ({ onGenerate }) => {
                                  </p>
                              )}
                         </div>
+
+                        {/* Logo Size, capped by the error correction budget */}
+                        <div>
+                            <div className="flex justify-between mb-2">
+                                <label className="text-[10px] text-gray-500 uppercase font-bold">Size</label>
+                                <span className="text-[10px] text-gray-400">
+                                    {Math.round(Math.min(logoSize, logoMaxSize ?? logoSize))}%{logoMaxSize !== null && ` · max ${Math.floor(logoMaxSize)}%`}
+                                </span>
+                            </div>
+                            <input
+                                type="range"
+                                min="5"
+                                max={Math.max(5, Math.floor(logoMaxSize ?? 30))}
+                                value={Math.min(logoSize, Math.max(5, Math.floor(logoMaxSize ?? 30)))}
+                                onChange={(e) => setLogoSize(Number(e.target.value))}
+                                disabled={logoMaxSize !== null && logoMaxSize < 5}
+                                className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-mask-lime disabled:opacity-40"
+                            />
+                            {logoMaxSize !== null && logoMaxSize < 10 && (
+                                <p className="text-[10px] text-mask-orange mt-2">
+                                    {codeFormat !== 'qr'
+                                      ? `${CODE_FORMAT_LABELS[codeFormat]} codes have no room for a logo.`
+                                      : `${logoMaxSize <= 0 ? 'No room for a logo' : 'Only a small logo fits'} at this correction level. Raise it or reduce the padding.`}
+                                </p>
+                            )}
+                        </div>
+
+                        {/* Plate */}
+                        <div>
+                            <label className="text-[10px] text-gray-500 uppercase font-bold mb-2 block">Background</label>
+                            <div className="grid grid-cols-3 gap-2">
+                                {([
+                                    { id: 'clear', label: 'Cleared' },
+                                    { id: 'solid', label: 'Plate' },
+                                    { id: 'none', label: 'Over Code' },
+                                ] as { id: LogoPlate; label: string }[]).map(p => (
+                                    <button
+                                        key={p.id}
+                                        onClick={() => setLogoPlate(p.id)}
+                                        className={`py-1.5 rounded-lg border text-xs transition-all ${logoPlate === p.id ? 'bg-gray-700 border-gray-500 text-white' : 'border-gray-800 text-gray-500 hover:bg-dark-900'}`}
+                                    >
+                                        {p.label}
+                                    </button>
+                                ))}
+                            </div>
+                            {logoPlate === 'solid' && (
+                                <div className="flex items-center gap-2 mt-2">
+                                    <input
+                                        type="color"
+                                        value={logoPlateColor}
+                                        onChange={(e) => setLogoPlateColor(e.target.value)}
+                                        className="w-8 h-8 rounded cursor-pointer bg-transparent border-none p-0"
+                                    />
+                                    <span className="text-xs text-gray-400 font-mono uppercase">{logoPlateColor}</span>
+                                </div>
+                            )}
+                            {logoPlate === 'none' && (
+                                <p className="text-[10px] text-mask-cyan mt-2">
+                                    * Modules stay in place and show through transparent parts of the logo.
+                                </p>
+                            )}
+                        </div>
+
+                        {/* Padding */}
+                        {logoPlate !== 'none' && (
+                            <div>
+                                <label className="text-[10px] text-gray-500 uppercase font-bold mb-2 block">Padding (modules)</label>
+                                <div className="grid grid-cols-4 gap-2">
+                                    {[0, 1, 2, 3].map(n => (
+                                        <button
+                                            key={n}
+                                            onClick={() => setLogoPadding(n)}
+                                            className={`py-1.5 rounded-lg border text-xs transition-all ${logoPadding === n ? 'bg-gray-700 border-gray-500 text-white' : 'border-gray-800 text-gray-500 hover:bg-dark-900'}`}
+                                        >
+                                            {n}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
                     </div>
                 )}
               </div>
@@ -1136,17 +1915,73 @@ const Generator: React.FC<GeneratorProps> = ({ onGenerate }) => {
           <div className="relative group">
             <div className="absolute -inset-1 bg-mask-gradient rounded-2xl blur opacity-25 group-hover:opacity-50 transition duration-1000"></div>
             <div className="relative bg-white p-4 rounded-xl shadow-2xl">
-              <img src={generatedBase64} alt="Generated QR" className="w-64 h-64 object-contain" />
+              <img src={generatedBase64} alt="Generated QR" className={codeFormat === 'rmqr' ? 'w-80 max-h-64 object-contain' : 'w-64 h-64 object-contain'} />
+            </div>
+          </div>
+
+          <div className="w-full max-w-sm mt-6 bg-dark-800/60 border border-gray-700 rounded-xl p-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="flex items-center gap-2 text-xs font-medium text-gray-400 uppercase tracking-wide">
+                <ScanLine size={14} /> Scannability
+              </span>
+              {isCheckingScan || !scanReport ? (
+                <span className="flex items-center gap-1 text-xs text-gray-500"><Loader2 size={12} className="animate-spin" /> Checking</span>
+              ) : (
+                <span className={`text-sm font-bold ${
+                  scanReport.status === 'pass' ? 'text-mask-lime' : scanReport.status === 'warn' ? 'text-mask-orange' : 'text-red-400'
+                }`}>
+                  {scanReport.score}/100 · {scanReport.status === 'fail' ? 'Fail' : 'Pass'}
+                </span>
+              )}
             </div>
+            {scanReport && (
+              <div className={`flex flex-wrap gap-1 ${isCheckingScan ? 'opacity-50' : ''}`}>
+                {scanReport.checks.map(check => (
+                  <span
+                    key={check.label}
+                    className={`text-[10px] px-2 py-0.5 rounded-full border ${
+                      check.passed ? 'text-mask-lime bg-mask-lime/10 border-mask-lime/20' : 'text-red-400 bg-red-500/10 border-red-500/20'
+                    }`}
+                  >
+                    {check.passed ? '✓' : '✗'} {check.label}
+                  </span>
+                ))}
+              </div>
+            )}
+            {!isCheckingScan && scanReport?.status === 'warn' && (
+              <p className="flex items-start gap-2 text-xs text-mask-orange mt-2">
+                <AlertTriangle size={14} className="shrink-0 mt-px" />
+                Scans as rendered, but may fail when printed small, out of focus or in poor light. Try more contrast, a smaller logo or a higher error correction level.
+              </p>
+            )}
+            {isUnscannable && (
+              <p className="flex items-start gap-2 text-xs text-red-400 mt-2">
+                <AlertTriangle size={14} className="shrink-0 mt-px" />
+                This code does not scan. Increase contrast, shrink the logo or raise error correction before downloading.
+              </p>
+            )}
+          </div>
+
+          <div className="flex bg-dark-800 rounded-lg p-1 border border-gray-700 mt-4">
+            {(['png', 'svg', 'pdf'] as ExportFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => setExportFormat(format)}
+                className={`px-4 py-1.5 rounded-md text-xs font-bold uppercase tracking-wide transition-all ${exportFormat === format ? 'bg-gray-700 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
+              >
+                {format}
+              </button>
+            ))}
           </div>
 
-          <div className="flex gap-4 mt-8 w-full max-w-sm">
+          <div className="flex gap-4 mt-4 w-full max-w-sm">
              <button 
                onClick={handleDownload}
-               className="flex-1 flex items-center justify-center gap-2 bg-mask-gradient hover:opacity-90 text-white px-6 py-3 rounded-xl font-medium transition-all transform hover:-translate-y-0.5 active:translate-y-0 shadow-lg"
+               disabled={isExporting || isUnscannable}
+               className="flex-1 flex items-center justify-center gap-2 bg-mask-gradient hover:opacity-90 text-white px-6 py-3 rounded-xl font-medium transition-all transform hover:-translate-y-0.5 active:translate-y-0 shadow-lg disabled:opacity-60"
              >
                <Download size={20} />
-               <span>Download</span>
+               <span>{isExporting ? 'Exporting...' : `Download ${exportFormat.toUpperCase()}`}</span>
              </button>
              
              <button 
@@ -1159,6 +1994,110 @@ const Generator: React.FC<GeneratorProps> = ({ onGenerate }) => {
         </div>
       )}
       
+      {/* ENCODING: the advanced settings can't hold the content */}
+      {text && codeFormat === 'qr' && !encodingPlan.fits && !isOversized && activeTab !== 'batch' && (
+        <div className="mt-8 flex justify-center animate-fade-in">
+          <div className="w-full max-w-sm flex items-start gap-2 text-xs text-mask-orange bg-dark-800/60 border border-gray-700 rounded-xl p-4">
+            <AlertTriangle size={14} className="shrink-0 mt-px" />
+            <span>
+              {encodingPlan.problem || `The content doesn't fit version ${qrVersion} at level ${errorLevel}.`}
+              {' '}Change it under Style › Advanced Encoding.
+            </span>
+          </div>
+        </div>
+      )}
+      {text && codeFormat !== 'qr' && compactError && activeTab !== 'batch' && (
+        <div className="mt-8 flex justify-center animate-fade-in">
+          <div className="w-full max-w-sm flex items-start gap-2 text-xs text-mask-orange bg-dark-800/60 border border-gray-700 rounded-xl p-4">
+            <AlertTriangle size={14} className="shrink-0 mt-px" />
+            <span>
+              {CODE_FORMAT_LABELS[codeFormat]}: {compactError}. Shorten the content or switch to a full QR code under Style › Code Format.
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* LINKED SET: content too large for one code */}
+      {isOversized && activeTab !== 'batch' && (
+        <div className="mt-8 flex flex-col items-center animate-fade-in pb-8">
+          <div className="w-full max-w-sm bg-dark-800/60 border border-gray-700 rounded-xl p-4 space-y-3">
+            <div className="flex items-start gap-2 text-xs text-mask-orange">
+              <AlertTriangle size={14} className="shrink-0 mt-px" />
+              <span>
+                {payloadBytes} bytes is more than one QR code holds at level {errorLevel}.
+                {linkedMinimum
+                  ? ' It can be split across linked codes that scanners put back together (Structured Append).'
+                  : ` Even ${MAX_PARTS} linked codes can't hold it; shorten the content or lower the error correction level.`}
+              </span>
+            </div>
+            {linkedMinimum && !linkedParts && (
+              <button
+                onClick={() => setLinkedCount(suggestedParts(text, errorLevel, LINKED_PART_VERSION) || linkedMinimum)}
+                className="w-full flex items-center justify-center gap-2 bg-dark-950 hover:bg-dark-700 text-gray-200 py-2.5 rounded-lg text-sm font-medium border border-gray-700 transition-colors"
+              >
+                <Layers size={16} /> Split into linked codes
+              </button>
+            )}
+            {linkedParts > 0 && (
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-gray-400 uppercase tracking-wide">Codes in set</span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setLinkedCount(linkedParts - 1)}
+                    disabled={linkedParts <= linkedMinimum!}
+                    className="w-7 h-7 rounded-md bg-dark-950 border border-gray-700 text-gray-300 hover:text-white disabled:opacity-40"
+                  >
+                    −
+                  </button>
+                  <span className="w-6 text-center text-sm font-bold font-mono text-white">{linkedParts}</span>
+                  <button
+                    onClick={() => setLinkedCount(linkedParts + 1)}
+                    disabled={linkedParts >= MAX_PARTS}
+                    className="w-7 h-7 rounded-md bg-dark-950 border border-gray-700 text-gray-300 hover:text-white disabled:opacity-40"
+                  >
+                    +
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {linkedParts > 0 && (
+            <>
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 mt-6 w-full max-w-lg">
+                {linkedImages.map((src, i) => (
+                  <div key={i} className="bg-white p-2 rounded-lg shadow-lg">
+                    <img src={src} alt={`Linked code ${i + 1}`} className="w-full aspect-square object-contain" />
+                    <p className="text-center text-[10px] font-bold font-mono text-gray-600 mt-1">{i + 1}/{linkedParts}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex bg-dark-800 rounded-lg p-1 border border-gray-700 mt-4">
+                {(['png', 'svg', 'pdf'] as ExportFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => setExportFormat(format)}
+                    className={`px-4 py-1.5 rounded-md text-xs font-bold uppercase tracking-wide transition-all ${exportFormat === format ? 'bg-gray-700 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
+                  >
+                    {format}
+                  </button>
+                ))}
+              </div>
+
+              <button
+                onClick={handleDownloadSet}
+                disabled={isExporting || !linkedImages.length}
+                className="mt-4 w-full max-w-sm flex items-center justify-center gap-2 bg-mask-gradient hover:opacity-90 text-white px-6 py-3 rounded-xl font-medium transition-all shadow-lg disabled:opacity-60"
+              >
+                <Download size={20} />
+                <span>{isExporting ? 'Exporting...' : `Download Set (${linkedParts} × ${exportFormat.toUpperCase()}, ZIP)`}</span>
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
       {!text && activeTab === 'content' && (
         <div className="mt-12 text-center text-gray-500">
            <p className="flex items-center justify-center gap-2 opacity-50"><Upload size={16}/> Enter text to start</p>
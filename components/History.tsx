@@ -1,19 +1,222 @@
-import React, { useState } from 'react';
-import { ScanResult, GeneratedQR } from '../types';
-import { Clock, Trash2, ExternalLink, Copy, Check, X, Download, AlertTriangle } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ScanResult, GeneratedQR, PayloadType } from '../types';
+import { Clock, Trash2, ExternalLink, Copy, Check, X, Download, AlertTriangle, Layers, ChevronDown, FileSpreadsheet, Search, SlidersHorizontal, Tag, StickyNote, Upload, FileJson, Pencil, Sparkles } from 'lucide-react';
+import HistoryItemEditor from './HistoryItemEditor';
+import { toCsv } from '../services/csv';
+import { downloadBlob, downloadUrl } from '../services/download';
+import { HistoryKind, loadImage } from '../services/historyStore';
+import { HistoryFilter, EMPTY_FILTER, TYPE_LABELS, isFilterActive, matchesFilter, collectTags } from '../services/historyFilter';
+import { parsePayload } from '../services/payloadParser';
+import { createBackup, parseBackup, scansToCsv, generatedToCsv } from '../services/historyBackup';
+import { analyzeBatch, isAiAvailable, BatchProgress } from '../services/aiService';
 
 interface HistoryProps {
   scans: ScanResult[];
   generated: GeneratedQR[];
   onClear: (type: 'scans' | 'generated') => void;
   onSelectScan: (scan: ScanResult) => void;
+  onUpdateScan: (scan: ScanResult) => void;
+  onUpdateGenerated: (item: GeneratedQR) => void;
+  onImport: (scans: ScanResult[], generated: GeneratedQR[]) => void;
+  onEditGenerated: (item: GeneratedQR) => void;
 }
 
-const History: React.FC<HistoryProps> = ({ scans, generated, onClear, onSelectScan }) => {
+// Entries rendered per "Show more" step; long histories would otherwise render thousands of cards
+const PAGE_SIZE = 50;
+
+interface StoredImageProps {
+  kind: HistoryKind;
+  id: string;
+  src?: string; // Already in memory, e.g. a code generated this session
+  alt: string;
+  className?: string;
+  placeholderClassName?: string;
+  onClick?: (src: string) => void;
+}
+
+// Reads an image from the history store once it scrolls into view. Renders nothing if there is none.
+const StoredImage: React.FC<StoredImageProps> = ({ kind, id, src, alt, className, placeholderClassName, onClick }) => {
+  const placeholderRef = useRef<HTMLDivElement>(null);
+  const [loaded, setLoaded] = useState<string | null | undefined>(src);
+
+  useEffect(() => {
+    if (src) {
+      setLoaded(src);
+      return;
+    }
+    const el = placeholderRef.current;
+    if (!el) return;
+
+    let cancelled = false;
+    const observer = new IntersectionObserver(entries => {
+      if (!entries.some(e => e.isIntersecting)) return;
+      observer.disconnect();
+      loadImage(kind, id)
+        .then(image => { if (!cancelled) setLoaded(image); })
+        .catch(() => { if (!cancelled) setLoaded(null); });
+    }, { rootMargin: '200px' });
+    observer.observe(el);
+
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [kind, id, src]);
+
+  if (loaded === undefined) return <div ref={placeholderRef} className={`bg-dark-700 animate-pulse rounded ${placeholderClassName || ''}`}></div>;
+  if (loaded === null) return null;
+  return (
+    <img
+      src={loaded}
+      alt={alt}
+      className={`${className || ''} ${onClick ? 'cursor-zoom-in' : ''}`}
+      onClick={onClick ? (e) => { e.stopPropagation(); onClick(loaded); } : undefined}
+    />
+  );
+};
+
+const History: React.FC<HistoryProps> = ({ scans, generated, onClear, onSelectScan, onUpdateScan, onUpdateGenerated, onImport, onEditGenerated }) => {
   const [filter, setFilter] = useState<'scans' | 'generated'>('scans');
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [isConfirmingClear, setIsConfirmingClear] = useState(false);
+  const [expandedSessions, setExpandedSessions] = useState<Set<string>>(new Set());
+
+  // Search & filters apply to whichever list is showing
+  const [searchFilter, setSearchFilter] = useState<HistoryFilter>(EMPTY_FILTER);
+  const [showFilters, setShowFilters] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [editing, setEditing] = useState<{ kind: 'scan'; item: ScanResult } | { kind: 'generated'; item: GeneratedQR } | null>(null);
+
+  // Generated items don't carry a type, so parse them once
+  const generatedTypes = useMemo(() => {
+    const types = new Map<string, PayloadType>();
+    generated.forEach(item => types.set(item.id, parsePayload(item.data).type));
+    return types;
+  }, [generated]);
+
+  const filteredScans = useMemo(
+    () => scans.filter(item => matchesFilter(item, item.type, searchFilter)),
+    [scans, searchFilter]
+  );
+  const filteredGenerated = useMemo(
+    () => generated.filter(item => matchesFilter(item, generatedTypes.get(item.id) || 'text', searchFilter)),
+    [generated, generatedTypes, searchFilter]
+  );
+
+  const allTags = useMemo(() => collectTags([...scans, ...generated]), [scans, generated]);
+  const filterActive = isFilterActive(searchFilter);
+
+  const updateFilter = (patch: Partial<HistoryFilter>) => {
+    setSearchFilter(prev => ({ ...prev, ...patch }));
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const handleSaveEdit = (tags: string[], notes: string) => {
+    if (!editing) return;
+    const patch = { tags: tags.length ? tags : undefined, notes: notes || undefined };
+    if (editing.kind === 'scan') onUpdateScan({ ...editing.item, ...patch });
+    else onUpdateGenerated({ ...editing.item, ...patch });
+    setEditing(null);
+  };
+
+  const openEditor = (e: React.MouseEvent, next: NonNullable<typeof editing>) => {
+    e.stopPropagation();
+    setEditing(next);
+  };
+
+  // Generated images may not be in memory yet
+  const imageFor = async (item: GeneratedQR) => item.base64 || loadImage('generated', item.id);
+
+  const handlePreviewGenerated = async (item: GeneratedQR) => {
+    const image = await imageFor(item);
+    if (image) setPreviewImage(image);
+  };
+
+  const handleDownloadGenerated = async (item: GeneratedQR) => {
+    const image = await imageFor(item);
+    if (image) downloadUrl(image, `qr-${item.timestamp}.png`);
+  };
+
+  // Backup & export
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [backupMessage, setBackupMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const showBackupMessage = (text: string, isError = false) => {
+    setBackupMessage({ text, isError });
+    setTimeout(() => setBackupMessage(null), 4000);
+  };
+
+  // AI analysis of every scan without one; stops when History unmounts
+  const scansRef = useRef(scans);
+  scansRef.current = scans;
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<BatchProgress | null>(null);
+  const unanalyzedScans = useMemo(() => scans.filter(item => !item.aiAnalysis), [scans]);
+  const aiAvailable = isAiAvailable();
+
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
+
+  const handleAnalyzeAll = async () => {
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    const { done, failed } = await analyzeBatch(unanalyzedScans.map(item => item.data), {
+      signal: controller.signal,
+      onProgress: setAnalysisProgress,
+      // Every scan of that content gets the result, read fresh so edits made meanwhile survive
+      onResult: (content, analysis) => {
+        scansRef.current
+          .filter(item => item.data === content)
+          .forEach(item => onUpdateScan({ ...item, aiSummary: analysis.summary, aiAnalysis: analysis }));
+      },
+    });
+    analysisAbortRef.current = null;
+    setAnalysisProgress(null);
+    if (controller.signal.aborted) return;
+    showBackupMessage(failed ? `Analyzed ${done}, ${failed} failed after retries` : `Analyzed ${done} distinct codes`, failed > 0);
+  };
+
+  const handleExportJson = async () => {
+    setIsExporting(true);
+    try {
+      const backup = await createBackup(scans, generated);
+      downloadBlob(new Blob([JSON.stringify(backup)], { type: 'application/json' }), `qr-history-${Date.now()}.json`);
+    } catch (e) {
+      console.error("Backup failed", e);
+      showBackupMessage("Could not create backup", true);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // CSV follows what's on screen: the current list with its filters
+  const handleExportCsv = () => {
+    const csv = filter === 'scans' ? scansToCsv(filteredScans) : generatedToCsv(filteredGenerated);
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `qr-${filter}-${Date.now()}.csv`);
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      try {
+        const backup = parseBackup(ev.target?.result as string);
+        const scanIds = new Set(scans.map(i => i.id));
+        const generatedIds = new Set(generated.map(i => i.id));
+        const newScans = backup.scans.filter(i => !scanIds.has(i.id)).length;
+        const newGenerated = backup.generated.filter(i => !generatedIds.has(i.id)).length;
+        onImport(backup.scans, backup.generated);
+        showBackupMessage(`Imported ${newScans} scans and ${newGenerated} generated codes`);
+      } catch (err: any) {
+        showBackupMessage(err.message || "Import failed", true);
+      }
+    };
+    reader.readAsText(file);
+  };
 
   const handleCopy = (e: React.MouseEvent, text: string, id: string) => {
     e.stopPropagation();
@@ -32,9 +235,144 @@ const History: React.FC<HistoryProps> = ({ scans, generated, onClear, onSelectSc
   const handleTabChange = (newFilter: 'scans' | 'generated') => {
       setFilter(newFilter);
       setIsConfirmingClear(false);
+      setVisibleCount(PAGE_SIZE);
+  };
+
+  const toggleSession = (sessionId: string) => {
+    setExpandedSessions(prev => {
+      const next = new Set(prev);
+      if (next.has(sessionId)) next.delete(sessionId); else next.add(sessionId);
+      return next;
+    });
+  };
+
+  // While filtering, sessions start open so matches inside them are visible; toggling still works
+  const isSessionExpanded = (sessionId: string) => expandedSessions.has(sessionId) !== filterActive;
+
+  const exportSession = (e: React.MouseEvent, items: ScanResult[]) => {
+    e.stopPropagation();
+    const rows = [['data', 'type', 'timestamp'], ...items.map(i => [i.data, i.type, new Date(i.timestamp).toISOString()])];
+    downloadBlob(new Blob([toCsv(rows)], { type: 'text/csv' }), `scan-session-${items[0].timestamp}.csv`);
   };
 
+  // Collapse scans that share a sessionId into one entry, positioned at its newest scan
+  const scanEntries = (() => {
+    const entries: ({ kind: 'scan'; item: ScanResult } | { kind: 'session'; id: string; items: ScanResult[] })[] = [];
+    const sessions = new Map<string, ScanResult[]>();
+    filteredScans.forEach(item => {
+      if (!item.sessionId) {
+        entries.push({ kind: 'scan', item });
+        return;
+      }
+      const group = sessions.get(item.sessionId);
+      if (group) {
+        group.push(item);
+      } else {
+        const items = [item];
+        sessions.set(item.sessionId, items);
+        entries.push({ kind: 'session', id: item.sessionId, items });
+      }
+    });
+    return entries;
+  })();
+
+  const renderTagsAndNotes = (item: ScanResult | GeneratedQR) => (item.tags?.length || item.notes) ? (
+    <div className="mb-2 space-y-1">
+      {item.tags && item.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {item.tags.map(tag => (
+            <button
+              key={tag}
+              onClick={(e) => { e.stopPropagation(); updateFilter({ tag }); }}
+              className="text-[11px] bg-mask-cyan/10 text-mask-cyan hover:bg-mask-cyan/20 px-2 py-0.5 rounded-md transition-colors"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+      {item.notes && (
+        <p className="text-xs text-gray-400 italic line-clamp-2 flex items-start gap-1">
+          <StickyNote size={12} className="shrink-0 mt-0.5" /> {item.notes}
+        </p>
+      )}
+    </div>
+  ) : null;
+
+  const renderScanItem = (item: ScanResult) => (
+    <div 
+      key={item.id}
+      onClick={() => onSelectScan(item)}
+      className="group bg-dark-800 hover:bg-dark-750 p-4 rounded-xl border border-dark-800 hover:border-mask-cyan/30 transition-all cursor-pointer"
+    >
+       <div className="flex justify-between items-start mb-2">
+          <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${
+            item.type === 'url' ? 'bg-blue-500/20 text-blue-400' :
+            item.type === 'wifi' ? 'bg-purple-500/20 text-purple-400' :
+            'bg-gray-700 text-gray-300'
+          }`}>
+            {item.type.toUpperCase()}
+          </span>
+          {item.symbology && item.symbology !== 'QR Code' && (
+            <span className="text-xs px-2 py-0.5 rounded-full font-medium bg-orange-500/20 text-orange-400 mr-auto ml-2">
+              {item.symbology}
+            </span>
+          )}
+          <span className="text-xs text-gray-500 flex items-center gap-1">
+            <Clock size={12} /> {formatDate(item.timestamp)}
+          </span>
+       </div>
+       <p className="text-gray-200 font-mono text-sm truncate mb-2">{item.data}</p>
+       {item.aiSummary && (
+         <div className={`text-xs mb-2 border-l-2 pl-2 ${item.aiAnalysis?.safetyRating === 'caution' ? 'text-yellow-400 border-yellow-500/50' : 'text-mask-cyan border-mask-cyan/50'}`}>
+            {item.aiAnalysis?.safetyRating === 'caution' ? '⚠' : '✨'} {item.aiSummary}
+         </div>
+       )}
+       {renderTagsAndNotes(item)}
+       <div className="flex gap-3 mt-2 opacity-60 group-hover:opacity-100 transition-opacity">
+         <button 
+           onClick={(e) => handleCopy(e, item.data, item.id)}
+           className="p-1.5 hover:bg-dark-700 rounded text-gray-400 hover:text-white"
+         >
+            {copiedId === item.id ? <Check size={16} className="text-green-400" /> : <Copy size={16} />}
+         </button>
+         <button 
+           onClick={(e) => openEditor(e, { kind: 'scan', item })}
+           className="p-1.5 hover:bg-dark-700 rounded text-gray-400 hover:text-white"
+           title="Tags & notes"
+         >
+            <Tag size={16} />
+         </button>
+         {item.type === 'url' && (
+           <a 
+             href={item.data} 
+             target="_blank" 
+             rel="noopener noreferrer"
+             onClick={(e) => e.stopPropagation()} 
+             className="p-1.5 hover:bg-dark-700 rounded text-gray-400 hover:text-white"
+           >
+             <ExternalLink size={16} />
+           </a>
+         )}
+         <StoredImage
+           kind="scans"
+           id={item.id}
+           src={item.originalImage}
+           alt="Scanned"
+           className="ml-auto w-10 h-10 object-cover rounded border border-gray-700"
+           placeholderClassName="ml-auto w-10 h-10"
+           onClick={setPreviewImage}
+         />
+       </div>
+    </div>
+  );
+
   const currentListEmpty = filter === 'scans' ? scans.length === 0 : generated.length === 0;
+  const matchCount = filter === 'scans' ? filteredScans.length : filteredGenerated.length;
+  const totalCount = filter === 'scans' ? scans.length : generated.length;
+  const visibleScanEntries = scanEntries.slice(0, visibleCount);
+  const visibleGenerated = filteredGenerated.slice(0, visibleCount);
+  const hasMore = filter === 'scans' ? scanEntries.length > visibleCount : filteredGenerated.length > visibleCount;
 
   return (
     <div className="h-full w-full overflow-y-auto p-4 pb-24 max-w-2xl mx-auto">
@@ -69,21 +407,200 @@ const History: React.FC<HistoryProps> = ({ scans, generated, onClear, onSelectSc
         )}
       </div>
 
-      <div className="flex gap-2 mb-6 bg-dark-800 p-1 rounded-lg inline-flex">
-        <button
-          onClick={() => handleTabChange('scans')}
-          className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${filter === 'scans' ? 'bg-dark-700 text-mask-cyan shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
-        >
-          Scanned
-        </button>
-        <button
-          onClick={() => handleTabChange('generated')}
-          className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${filter === 'generated' ? 'bg-dark-700 text-mask-cyan shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
-        >
-          Generated
-        </button>
+      <input type="file" ref={importInputRef} className="hidden" accept=".json,application/json" onChange={handleImportFile} />
+
+      <div className="flex items-start justify-between gap-2 mb-6">
+        <div className="flex gap-2 bg-dark-800 p-1 rounded-lg inline-flex">
+          <button
+            onClick={() => handleTabChange('scans')}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${filter === 'scans' ? 'bg-dark-700 text-mask-cyan shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
+          >
+            Scanned
+          </button>
+          <button
+            onClick={() => handleTabChange('generated')}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${filter === 'generated' ? 'bg-dark-700 text-mask-cyan shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
+          >
+            Generated
+          </button>
+        </div>
+
+        <div className="flex gap-1 bg-dark-800 p-1 rounded-lg">
+          {filter === 'scans' && aiAvailable && (
+            <button
+              onClick={handleAnalyzeAll}
+              disabled={!!analysisProgress || unanalyzedScans.length === 0}
+              className="p-2 rounded-md text-mask-lime hover:bg-dark-700 transition-colors disabled:opacity-40"
+              title={`Analyze all unanalyzed scans with AI (${unanalyzedScans.length})`}
+            >
+              <Sparkles size={16} className={analysisProgress ? 'animate-pulse' : ''} />
+            </button>
+          )}
+          <button
+            onClick={handleExportCsv}
+            disabled={matchCount === 0}
+            className="p-2 rounded-md text-gray-400 hover:text-white hover:bg-dark-700 transition-colors disabled:opacity-40"
+            title="Export this list as CSV"
+          >
+            <FileSpreadsheet size={16} />
+          </button>
+          <button
+            onClick={handleExportJson}
+            disabled={isExporting || (scans.length === 0 && generated.length === 0)}
+            className="p-2 rounded-md text-gray-400 hover:text-white hover:bg-dark-700 transition-colors disabled:opacity-40"
+            title="Back up all history as JSON"
+          >
+            <FileJson size={16} className={isExporting ? 'animate-pulse' : ''} />
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="p-2 rounded-md text-gray-400 hover:text-white hover:bg-dark-700 transition-colors"
+            title="Import a JSON backup"
+          >
+            <Upload size={16} />
+          </button>
+        </div>
       </div>
 
+      {analysisProgress && (
+        <div className="mb-4 bg-dark-800 border border-gray-700 rounded-lg p-3 animate-fade-in">
+          <div className="flex items-center justify-between gap-2 text-xs mb-2">
+            <span className="text-gray-300 flex items-center gap-2">
+              <Sparkles size={12} className="text-mask-lime" />
+              Analyzing {analysisProgress.done + analysisProgress.failed} / {analysisProgress.total}
+              {analysisProgress.failed > 0 && <span className="text-red-400">· {analysisProgress.failed} failed</span>}
+            </span>
+            <button
+              onClick={() => analysisAbortRef.current?.abort()}
+              className="text-gray-400 hover:text-white px-2 py-0.5 rounded hover:bg-dark-700"
+            >
+              Cancel
+            </button>
+          </div>
+          <div className="h-1.5 bg-dark-950 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-mask-gradient transition-all"
+              style={{ width: `${analysisProgress.total ? ((analysisProgress.done + analysisProgress.failed) / analysisProgress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {backupMessage && (
+        <div className={`mb-4 flex items-center gap-2 text-xs rounded-lg px-3 py-2 border animate-fade-in ${
+          backupMessage.isError ? 'text-red-400 bg-red-500/10 border-red-500/20' : 'text-mask-lime bg-mask-lime/10 border-mask-lime/20'
+        }`}>
+          {backupMessage.isError ? <AlertTriangle size={14} /> : <Check size={14} />} {backupMessage.text}
+        </div>
+      )}
+
+      {/* Search & Filters */}
+      {!currentListEmpty && (
+        <div className="mb-6 space-y-3">
+          <div className="flex gap-2">
+            <div className="flex-1 relative">
+              <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none" />
+              <input
+                type="search"
+                value={searchFilter.query}
+                onChange={(e) => updateFilter({ query: e.target.value })}
+                placeholder={filter === 'scans' ? 'Search content, AI summaries, notes...' : 'Search content and notes...'}
+                className="w-full bg-dark-800 border border-gray-700 rounded-lg pl-9 pr-3 py-2 text-sm text-white outline-none focus:border-mask-cyan transition-colors placeholder-gray-500"
+              />
+            </div>
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={`px-3 rounded-lg border transition-colors ${showFilters || (filterActive && !searchFilter.query) ? 'bg-mask-cyan/10 border-mask-cyan/40 text-mask-cyan' : 'bg-dark-800 border-gray-700 text-gray-400 hover:text-white'}`}
+              title="Filters"
+            >
+              <SlidersHorizontal size={16} />
+            </button>
+          </div>
+
+          {showFilters && (
+            <div className="bg-dark-800 border border-gray-700 rounded-xl p-4 space-y-4 animate-fade-in">
+              <div>
+                <span className="text-[10px] text-gray-500 uppercase font-bold block mb-2">Type</span>
+                <div className="flex flex-wrap gap-2">
+                  {(['all', ...Object.keys(TYPE_LABELS)] as HistoryFilter['type'][]).map(type => (
+                    <button
+                      key={type}
+                      onClick={() => updateFilter({ type })}
+                      className={`px-3 py-1 rounded-full border text-xs transition-all ${
+                        searchFilter.type === type
+                          ? 'bg-mask-gradient text-white border-transparent'
+                          : 'bg-dark-950 text-gray-400 border-gray-700 hover:border-gray-500'
+                      }`}
+                    >
+                      {type === 'all' ? 'All' : TYPE_LABELS[type]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <span className="text-[10px] text-gray-500 uppercase font-bold block mb-2">From</span>
+                  <input
+                    type="date"
+                    value={searchFilter.from}
+                    max={searchFilter.to || undefined}
+                    onChange={(e) => updateFilter({ from: e.target.value })}
+                    className="w-full bg-dark-950 border border-gray-700 rounded-lg p-2 text-white text-xs outline-none [color-scheme:dark]"
+                  />
+                </div>
+                <div>
+                  <span className="text-[10px] text-gray-500 uppercase font-bold block mb-2">To</span>
+                  <input
+                    type="date"
+                    value={searchFilter.to}
+                    min={searchFilter.from || undefined}
+                    onChange={(e) => updateFilter({ to: e.target.value })}
+                    className="w-full bg-dark-950 border border-gray-700 rounded-lg p-2 text-white text-xs outline-none [color-scheme:dark]"
+                  />
+                </div>
+              </div>
+
+              {allTags.length > 0 && (
+                <div>
+                  <span className="text-[10px] text-gray-500 uppercase font-bold block mb-2">Tag</span>
+                  <div className="flex flex-wrap gap-2">
+                    {allTags.map(tag => (
+                      <button
+                        key={tag}
+                        onClick={() => updateFilter({ tag: searchFilter.tag === tag ? '' : tag })}
+                        className={`px-2 py-1 rounded-md text-xs transition-colors ${
+                          searchFilter.tag === tag ? 'bg-mask-cyan text-dark-950 font-medium' : 'bg-dark-950 text-gray-400 hover:text-white'
+                        }`}
+                      >
+                        #{tag}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {filterActive && (
+            <div className="flex items-center justify-between text-xs text-gray-400">
+              <span>{matchCount} of {totalCount} {filter === 'scans' ? 'scans' : 'codes'}</span>
+              <div className="flex items-center gap-2">
+                {searchFilter.tag && (
+                  <span className="bg-mask-cyan/10 text-mask-cyan px-2 py-0.5 rounded-md">#{searchFilter.tag}</span>
+                )}
+                <button
+                  onClick={() => updateFilter(EMPTY_FILTER)}
+                  className="text-mask-cyan hover:text-white transition-colors"
+                >
+                  Clear filters
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="space-y-3">
         {filter === 'scans' && scans.length === 0 && (
           <div className="flex flex-col items-center justify-center py-16 text-gray-500 opacity-50">
@@ -97,60 +614,51 @@ const History: React.FC<HistoryProps> = ({ scans, generated, onClear, onSelectSc
              <p>No generated QRs yet</p>
           </div>
         )}
+        {!currentListEmpty && matchCount === 0 && (
+          <div className="flex flex-col items-center justify-center py-16 text-gray-500 opacity-50">
+             <Search size={48} className="mb-4 text-gray-600" />
+             <p>Nothing matches these filters</p>
+          </div>
+        )}
 
-        {filter === 'scans' && scans.map(item => (
-          <div 
-            key={item.id}
-            onClick={() => onSelectScan(item)}
-            className="group bg-dark-800 hover:bg-dark-750 p-4 rounded-xl border border-dark-800 hover:border-mask-cyan/30 transition-all cursor-pointer"
-          >
-             <div className="flex justify-between items-start mb-2">
-                <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${
-                  item.type === 'url' ? 'bg-blue-500/20 text-blue-400' :
-                  item.type === 'wifi' ? 'bg-purple-500/20 text-purple-400' :
-                  'bg-gray-700 text-gray-300'
-                }`}>
-                  {item.type.toUpperCase()}
-                </span>
+        {filter === 'scans' && visibleScanEntries.map(entry => entry.kind === 'scan' ? renderScanItem(entry.item) : (
+          <div key={entry.id} className="bg-dark-800 rounded-xl border border-dark-800 hover:border-mask-cyan/30 transition-all">
+            <div
+              onClick={() => toggleSession(entry.id)}
+              className="p-4 flex items-center gap-3 cursor-pointer"
+            >
+              <div className="bg-mask-cyan/10 p-2 rounded-lg text-mask-cyan">
+                <Layers size={18} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-200">Scan Session · {entry.items.length} codes</p>
                 <span className="text-xs text-gray-500 flex items-center gap-1">
-                  <Clock size={12} /> {formatDate(item.timestamp)}
+                  <Clock size={12} /> {formatDate(entry.items[entry.items.length - 1].timestamp)}
                 </span>
-             </div>
-             <p className="text-gray-200 font-mono text-sm truncate mb-2">{item.data}</p>
-             {item.aiSummary && (
-               <div className="text-xs text-mask-cyan mb-2 border-l-2 border-mask-cyan/50 pl-2">
-                  ✨ {item.aiSummary}
-               </div>
-             )}
-             <div className="flex gap-3 mt-2 opacity-60 group-hover:opacity-100 transition-opacity">
-               <button 
-                 onClick={(e) => handleCopy(e, item.data, item.id)}
-                 className="p-1.5 hover:bg-dark-700 rounded text-gray-400 hover:text-white"
-               >
-                  {copiedId === item.id ? <Check size={16} className="text-green-400" /> : <Copy size={16} />}
-               </button>
-               {item.type === 'url' && (
-                 <a 
-                   href={item.data} 
-                   target="_blank" 
-                   rel="noopener noreferrer"
-                   onClick={(e) => e.stopPropagation()} 
-                   className="p-1.5 hover:bg-dark-700 rounded text-gray-400 hover:text-white"
-                 >
-                   <ExternalLink size={16} />
-                 </a>
-               )}
-             </div>
+              </div>
+              <button
+                onClick={(e) => exportSession(e, [...entry.items].reverse())}
+                className="flex items-center gap-1 text-xs bg-dark-700 hover:bg-dark-600 text-white px-3 py-1.5 rounded-md transition-colors"
+              >
+                <FileSpreadsheet size={12} /> CSV
+              </button>
+              <ChevronDown size={16} className={`text-gray-400 transition-transform ${isSessionExpanded(entry.id) ? 'rotate-180' : ''}`} />
+            </div>
+            {isSessionExpanded(entry.id) && (
+              <div className="space-y-2 px-3 pb-3">
+                {entry.items.map(renderScanItem)}
+              </div>
+            )}
           </div>
         ))}
 
-        {filter === 'generated' && generated.map(item => (
+        {filter === 'generated' && visibleGenerated.map(item => (
            <div key={item.id} className="bg-dark-800 p-4 rounded-xl border border-dark-800 flex gap-4">
               <button 
-                onClick={() => setPreviewImage(item.base64)}
+                onClick={() => handlePreviewGenerated(item)}
                 className="bg-white p-1 rounded h-fit shrink-0 hover:scale-105 transition-transform cursor-zoom-in"
               >
-                <img src={item.base64} alt="QR" className="w-16 h-16 object-contain" />
+                <StoredImage kind="generated" id={item.id} src={item.base64} alt="QR" className="w-16 h-16 object-contain" placeholderClassName="w-16 h-16" />
               </button>
               <div className="flex-1 min-w-0 flex flex-col justify-between">
                 <div>
@@ -158,15 +666,15 @@ const History: React.FC<HistoryProps> = ({ scans, generated, onClear, onSelectSc
                      <span className="text-xs text-gray-500">{formatDate(item.timestamp)}</span>
                   </div>
                   <p className="text-gray-200 font-mono text-sm truncate mb-3">{item.data}</p>
+                  {renderTagsAndNotes(item)}
                 </div>
-                <div className="flex gap-2">
-                   <a 
-                     href={item.base64} 
-                     download={`qr-${item.timestamp}.png`}
+                <div className="flex flex-wrap gap-2">
+                   <button 
+                     onClick={() => handleDownloadGenerated(item)}
                      className="flex items-center gap-1 text-xs bg-dark-700 hover:bg-dark-600 text-white px-3 py-1.5 rounded-md transition-colors"
                    >
                      <Download size={12} /> Download
-                   </a>
+                   </button>
                    <button 
                      onClick={(e) => handleCopy(e, item.data, item.id)}
                      className="flex items-center gap-1 text-xs bg-dark-700 hover:bg-dark-600 text-white px-3 py-1.5 rounded-md transition-colors"
@@ -174,12 +682,44 @@ const History: React.FC<HistoryProps> = ({ scans, generated, onClear, onSelectSc
                       {copiedId === item.id ? <Check size={12} className="text-green-400" /> : <Copy size={12} />}
                       {copiedId === item.id ? 'Copied' : 'Copy'}
                    </button>
+                   <button 
+                     onClick={() => onEditGenerated(item)}
+                     className="flex items-center gap-1 text-xs bg-dark-700 hover:bg-dark-600 text-white px-3 py-1.5 rounded-md transition-colors"
+                   >
+                      <Pencil size={12} /> Edit
+                   </button>
+                   <button 
+                     onClick={(e) => openEditor(e, { kind: 'generated', item })}
+                     className="flex items-center gap-1 text-xs bg-dark-700 hover:bg-dark-600 text-white px-3 py-1.5 rounded-md transition-colors"
+                   >
+                      <Tag size={12} /> Tags
+                   </button>
                 </div>
               </div>
            </div>
         ))}
       </div>
 
+      {hasMore && (
+        <button
+          onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+          className="w-full mt-3 py-3 bg-dark-800 hover:bg-dark-700 text-gray-300 text-sm rounded-xl border border-gray-700 transition-colors"
+        >
+          Show more
+        </button>
+      )}
+
+      {editing && (
+        <HistoryItemEditor
+          data={editing.item.data}
+          tags={editing.item.tags || []}
+          notes={editing.item.notes || ''}
+          suggestions={allTags}
+          onSave={handleSaveEdit}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
       {/* Image Preview Modal */}
       {previewImage && (
         <div 
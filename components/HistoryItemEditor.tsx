@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { X, Tag, Check } from 'lucide-react';
+import { normalizeTag } from '../services/historyFilter';
+
+interface HistoryItemEditorProps {
+  data: string;
+  tags: string[];
+  notes: string;
+  suggestions: string[]; // Tags already used elsewhere in history
+  onSave: (tags: string[], notes: string) => void;
+  onClose: () => void;
+}
+
+const HistoryItemEditor: React.FC<HistoryItemEditorProps> = ({ data, tags: initialTags, notes: initialNotes, suggestions, onSave, onClose }) => {
+  const [tags, setTags] = useState<string[]>(initialTags);
+  const [notes, setNotes] = useState(initialNotes);
+  const [tagInput, setTagInput] = useState('');
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+    setTagInput('');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(tagInput);
+    } else if (e.key === 'Backspace' && !tagInput && tags.length) {
+      setTags(tags.slice(0, -1));
+    }
+  };
+
+  const handleSave = () => {
+    // A tag still being typed counts
+    const pending = normalizeTag(tagInput);
+    onSave(pending && !tags.includes(pending) ? [...tags, pending] : tags, notes.trim());
+  };
+
+  const unusedSuggestions = suggestions.filter(s => !tags.includes(s));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose}></div>
+
+      <div className="relative w-full max-w-md bg-dark-900 rounded-2xl shadow-2xl border border-gray-800 animate-fade-in">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h3 className="font-semibold text-lg text-transparent bg-clip-text bg-mask-gradient-text">Tags & Notes</h3>
+          <button onClick={onClose} className="p-2 hover:bg-dark-800 rounded-full text-gray-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-xs text-gray-400 font-mono truncate">{data}</p>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-2 uppercase tracking-wide">Tags</label>
+            <div className="flex flex-wrap items-center gap-2 bg-dark-950 border border-gray-700 rounded-lg p-2 focus-within:border-mask-cyan transition-colors">
+              {tags.map(tag => (
+                <span key={tag} className="text-xs bg-mask-cyan/10 text-mask-cyan px-2 py-1 rounded-md flex items-center gap-1">
+                  #{tag}
+                  <button onClick={() => setTags(tags.filter(t => t !== tag))} className="hover:text-white">
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+              <input
+                type="text"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                onKeyDown={handleTagKeyDown}
+                onBlur={() => tagInput && addTag(tagInput)}
+                placeholder={tags.length ? '' : 'Add a tag and press Enter'}
+                className="flex-1 min-w-[8rem] bg-transparent text-sm text-white outline-none placeholder-gray-600"
+              />
+            </div>
+            {unusedSuggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {unusedSuggestions.slice(0, 12).map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => addTag(tag)}
+                    className="text-[11px] text-gray-400 hover:text-white bg-dark-800 hover:bg-dark-700 px-2 py-0.5 rounded flex items-center gap-1 transition-colors"
+                  >
+                    <Tag size={10} /> {tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-2 uppercase tracking-wide">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={4}
+              placeholder="Where was this code, what was it for..."
+              className="w-full bg-dark-950 border border-gray-700 rounded-lg p-3 text-sm text-white outline-none focus:border-mask-cyan resize-none transition-colors"
+            />
+          </div>
+
+          <button
+            onClick={handleSave}
+            className="w-full bg-mask-gradient hover:opacity-90 text-white py-3 rounded-xl font-medium flex items-center justify-center gap-2 transition-colors"
+          >
+            <Check size={18} /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryItemEditor;
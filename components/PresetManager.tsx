@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Bookmark, Briefcase, Star, Download, Trash2, Upload, Share2, Check, X, AlertTriangle } from 'lucide-react';
+import { QRStyle, StylePreset } from '../types';
+import {
+  createPreset, loadPresets, savePresets, deletePreset, getDefaultPresetId, setDefaultPresetId,
+  presetsToJson, parsePresetFile
+} from '../services/presets';
+import { downloadBlob } from '../services/download';
+
+interface PresetManagerProps {
+  currentStyle: QRStyle;
+  onApply: (style: Partial<QRStyle>) => void;
+}
+
+const sanitizeFileName = (name: string) => name.trim().replace(/[^\w-]+/g, '_').slice(0, 60) || 'preset';
+
+const PresetManager: React.FC<PresetManagerProps> = ({ currentStyle, onApply }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [presets, setPresets] = useState<StylePreset[]>([]);
+  const [defaultId, setDefaultId] = useState<string | null>(getDefaultPresetId());
+  const [savingKind, setSavingKind] = useState<StylePreset['kind'] | null>(null);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const refresh = () => loadPresets().then(setPresets).catch(e => console.error("Failed to load presets", e));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const showMessage = (text: string, isError = false) => {
+    setMessage({ text, isError });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const handleSave = async () => {
+    if (!savingKind || !name.trim()) return;
+    try {
+      await savePresets([createPreset(name, savingKind, currentStyle)]);
+      await refresh();
+      showMessage(savingKind === 'brandKit' ? "Brand kit saved" : "Preset saved");
+      setSavingKind(null);
+      setName('');
+    } catch (e) {
+      console.error("Failed to save preset", e);
+      showMessage("Could not save preset", true);
+    }
+  };
+
+  const handleDelete = async (preset: StylePreset) => {
+    await deletePreset(preset.id);
+    setDefaultId(getDefaultPresetId());
+    refresh();
+  };
+
+  const toggleDefault = (preset: StylePreset) => {
+    const next = defaultId === preset.id ? null : preset.id;
+    setDefaultPresetId(next);
+    setDefaultId(next);
+  };
+
+  const handleShare = (items: StylePreset[], fileName: string) => {
+    downloadBlob(new Blob([presetsToJson(items)], { type: 'application/json' }), `${sanitizeFileName(fileName)}.json`);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (ev) => {
+      try {
+        const imported = parsePresetFile(ev.target?.result as string);
+        await savePresets(imported);
+        await refresh();
+        showMessage(`Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}`);
+      } catch (err: any) {
+        showMessage(err.message || "Import failed", true);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="bg-dark-950/50 p-4 rounded-xl border border-gray-800 space-y-3">
+      <input type="file" ref={importInputRef} className="hidden" accept=".json,application/json" onChange={handleImport} />
+
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-medium text-gray-400 uppercase tracking-wide">Presets & Brand Kits</label>
+        <div className="flex gap-1">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-dark-800 transition-colors"
+            title="Import presets"
+          >
+            <Upload size={14} />
+          </button>
+          <button
+            onClick={() => handleShare(presets, 'qr-presets')}
+            disabled={!presets.length}
+            className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-dark-800 transition-colors disabled:opacity-40"
+            title="Share all presets"
+          >
+            <Share2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      {presets.length > 0 && (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {presets.map(preset => (
+            <div key={preset.id} className="group flex items-center gap-2 bg-dark-900 hover:bg-dark-800 border border-gray-800 rounded-lg pl-2 pr-1 py-1 transition-colors">
+              <button onClick={() => onApply(preset.style)} className="flex-1 min-w-0 flex items-center gap-2 text-left" title="Apply">
+                <span className="flex -space-x-1 shrink-0">
+                  <span className="w-4 h-4 rounded-full border border-gray-700" style={{ background: preset.style.fgColor1 }}></span>
+                  <span className="w-4 h-4 rounded-full border border-gray-700" style={{ background: preset.style.bgColor1 }}></span>
+                </span>
+                {preset.style.logo && <img src={preset.style.logo} alt="" className="w-5 h-5 object-contain rounded bg-white shrink-0" />}
+                <span className="text-sm text-gray-200 truncate">{preset.name}</span>
+                {preset.kind === 'brandKit' && (
+                  <span className="text-[10px] uppercase font-bold text-mask-orange flex items-center gap-1 shrink-0">
+                    <Briefcase size={10} /> Kit
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => toggleDefault(preset)}
+                className={`p-1.5 rounded transition-colors ${defaultId === preset.id ? 'text-mask-lime' : 'text-gray-500 hover:text-white'}`}
+                title={defaultId === preset.id ? 'Default (click to unset)' : 'Use as default'}
+              >
+                <Star size={14} fill={defaultId === preset.id ? 'currentColor' : 'none'} />
+              </button>
+              <button
+                onClick={() => handleShare([preset], preset.name)}
+                className="p-1.5 rounded text-gray-500 hover:text-white transition-colors"
+                title="Share"
+              >
+                <Download size={14} />
+              </button>
+              <button
+                onClick={() => handleDelete(preset)}
+                className="p-1.5 rounded text-gray-500 hover:text-red-400 transition-colors"
+                title="Delete"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {savingKind ? (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder={savingKind === 'brandKit' ? 'Brand kit name' : 'Preset name'}
+            className="flex-1 bg-dark-950 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-mask-cyan"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="bg-mask-gradient hover:opacity-90 text-white px-3 rounded-lg disabled:opacity-50"
+          >
+            <Check size={16} />
+          </button>
+          <button
+            onClick={() => { setSavingKind(null); setName(''); }}
+            className="bg-dark-800 hover:bg-dark-700 text-gray-300 px-3 rounded-lg border border-gray-700"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => setSavingKind('preset')}
+            className="flex items-center justify-center gap-2 text-xs bg-dark-800 hover:bg-dark-700 text-white py-2 rounded-lg border border-gray-700 transition-colors"
+          >
+            <Bookmark size={14} /> Save Preset
+          </button>
+          <button
+            onClick={() => setSavingKind('brandKit')}
+            className="flex items-center justify-center gap-2 text-xs bg-dark-800 hover:bg-dark-700 text-white py-2 rounded-lg border border-gray-700 transition-colors"
+            title="Logo, colours, dot & eye style and label font"
+          >
+            <Briefcase size={14} /> Save Brand Kit
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <div className={`flex items-center gap-2 text-xs rounded-lg px-3 py-2 border ${
+          message.isError ? 'text-red-400 bg-red-500/10 border-red-500/20' : 'text-mask-lime bg-mask-lime/10 border-mask-lime/20'
+        }`}>
+          {message.isError ? <AlertTriangle size={14} /> : <Check size={14} />} {message.text}
+        </div>
+      )}
+
+      {presets.length === 0 && !savingKind && (
+        <p className="text-[10px] text-gray-500">Save the current style to reuse it. The starred preset is applied to every new code.</p>
+      )}
+    </div>
+  );
+};
+
+export default PresetManager;
@@ -1,7 +1,15 @@
 import React, { useEffect, useState } from 'react';
-import { ScanResult, GeminiAnalysis } from '../types';
-import { X, ExternalLink, Copy, Check, Sparkles, AlertTriangle, ShieldCheck, Globe, Wifi, Mail, FileText, Eye, EyeOff, Lock } from 'lucide-react';
-import { analyzeContent, isAiAvailable } from '../services/geminiService';
+import { ScanResult, GeminiAnalysis, UrlThreatAnalysis, AnalysisAction, AnalysisActionType } from '../types';
+import {
+  X, ExternalLink, Copy, Check, Sparkles, AlertTriangle, ShieldCheck, Globe, Wifi, Mail, FileText, Eye, EyeOff, Lock, Barcode,
+  Phone, MessageSquare, MapPin, CalendarDays, UserSquare, Bitcoin, Wallet, Download, Landmark, ShieldAlert, Search
+} from 'lucide-react';
+import { analyzeContent, isAiAvailable } from '../services/aiService';
+import { parsePayload } from '../services/payloadParser';
+import { payloadToVcard, toIcsFile } from '../services/contentTemplates';
+import { downloadBlob } from '../services/download';
+import { analyzeUrl } from '../services/urlThreats';
+import { actionHref, actionFile } from '../services/analysisActions';
 
 interface ResultModalProps {
   result: ScanResult | null;
@@ -9,6 +17,28 @@ interface ResultModalProps {
   onUpdate: (updatedResult: ScanResult) => void;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatEventTime = (time: number, allDay: boolean) =>
+  allDay ? new Date(time).toLocaleDateString() : new Date(time).toLocaleString();
+
+// T: values as people know them
+const WIFI_SECURITY_LABELS: Record<string, string> = {
+  WPA: 'WPA/WPA2',
+  SAE: 'WPA3',
+  'WPA2-EAP': 'WPA2/WPA3 Enterprise',
+  WEP: 'WEP',
+};
+
+const ACTION_ICONS: Record<AnalysisActionType, React.ElementType> = {
+  open_url: ExternalLink,
+  copy: Copy,
+  add_contact: UserSquare,
+  create_event: CalendarDays,
+  compose_email: Mail,
+  web_search: Search,
+};
+
 const ResultModal: React.FC<ResultModalProps> = ({ result, onClose, onUpdate }) => {
   const [copied, setCopied] = useState(false);
   const [analyzing, setAnalyzing] = useState(false);
@@ -17,13 +47,7 @@ const ResultModal: React.FC<ResultModalProps> = ({ result, onClose, onUpdate })
   const aiAvailable = isAiAvailable();
 
   useEffect(() => {
-    if (result) {
-      if (result.aiSummary) {
-        setAnalysis(null); 
-      } else {
-        setAnalysis(null);
-      }
-    }
+    setAnalysis(result?.aiAnalysis || null);
   }, [result]);
 
   const handleCopy = (text: string) => {
@@ -42,23 +66,99 @@ const ResultModal: React.FC<ResultModalProps> = ({ result, onClose, onUpdate })
       setAnalysis(aiData);
       onUpdate({
         ...result,
-        aiSummary: aiData.summary
+        aiSummary: aiData.summary,
+        aiAnalysis: aiData,
       });
     }
   };
 
   if (!result) return null;
 
-  const isUrl = result.type === 'url';
-  const isWifi = result.data.startsWith('WIFI:');
-  const isEmail = result.data.startsWith('mailto:');
+  const payload = parsePayload(result.data);
+  const threat = analyzeUrl(result.data);
+
+  const renderAction = (action: AnalysisAction, key: number) => {
+    const Icon = ACTION_ICONS[action.type];
+    const href = actionHref(action);
+    // Suggested links get the same offline check as scanned ones
+    const risky = action.type === 'open_url' && analyzeUrl(action.url)?.safetyRating === 'caution';
+    const className = `text-xs px-3 py-1.5 rounded-lg border flex items-center gap-1.5 transition-colors ${
+      risky
+        ? 'bg-red-500/10 text-red-300 border-red-500/30 hover:bg-red-500/20'
+        : 'bg-mask-cyan/10 text-mask-cyan border-mask-cyan/10 hover:bg-mask-cyan/20'
+    }`;
+
+    if (href) {
+      const external = action.type !== 'compose_email';
+      return (
+        <a
+          key={key}
+          href={href}
+          target={external ? '_blank' : undefined}
+          rel={external ? 'noopener noreferrer' : undefined}
+          className={className}
+          title={risky ? 'This link shows warning signs' : href}
+        >
+          <Icon size={12} /> {action.label}
+        </a>
+      );
+    }
+    if (action.type === 'copy') {
+      return (
+        <button key={key} onClick={() => handleCopy(action.value)} className={className}>
+          {copied ? <Check size={12} /> : <Icon size={12} />} {action.label}
+        </button>
+      );
+    }
+    const file = actionFile(action);
+    if (file) {
+      return (
+        <button key={key} onClick={() => downloadBlob(file.blob, file.fileName)} className={className}>
+          <Icon size={12} /> {action.label}
+        </button>
+      );
+    }
+    return null; // An open_url action with a link that isn't http(s)
+  };
+
+  const renderThreatPanel = (threat: UrlThreatAnalysis) => {
+    if (threat.safetyRating === 'safe') {
+      return (
+        <div className="flex items-center justify-center gap-2 text-xs text-mask-lime mb-4">
+          <ShieldCheck size={14} /> No warning signs found in this link
+        </div>
+      );
+    }
+    const caution = threat.safetyRating === 'caution';
+    return (
+      <div className={`text-left rounded-lg p-3 mb-4 border ${caution ? 'bg-red-500/10 border-red-500/30' : 'bg-yellow-500/10 border-yellow-500/30'}`}>
+        <div className={`flex items-center gap-2 text-xs font-bold uppercase tracking-wide mb-2 ${caution ? 'text-red-300' : 'text-yellow-300'}`}>
+          <ShieldAlert size={14} /> {caution ? 'Possibly unsafe link' : 'Check before opening'}
+        </div>
+        <ul className="space-y-1">
+          {threat.reasons.map(reason => (
+            <li key={reason.message} className="flex items-start gap-2 text-xs text-gray-300">
+              <AlertTriangle size={12} className={`shrink-0 mt-0.5 ${reason.severity === 'low' ? 'text-gray-500' : reason.severity === 'medium' ? 'text-yellow-400' : 'text-red-400'}`} />
+              <span className="break-all">{reason.message}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
 
   const renderContent = () => {
     try {
-      if (isWifi) {
-        const ssid = result.data.match(/S:([^;]+)/)?.[1] || 'Unknown Network';
-        const password = result.data.match(/P:([^;]+)/)?.[1] || '';
-        const type = result.data.match(/T:([^;]+)/)?.[1] || 'None';
+      if (payload.type === 'wifi') {
+        const ssid = payload.ssid || 'Unknown Network';
+        const password = payload.password;
+        const type = WIFI_SECURITY_LABELS[payload.encryption.toUpperCase()] || payload.encryption || 'None';
+        const enterpriseFields = [
+          { label: 'EAP Method', value: payload.eapMethod },
+          { label: 'Phase 2', value: payload.phase2 },
+          { label: 'Identity', value: payload.identity },
+          { label: 'Anonymous Identity', value: payload.anonymousIdentity },
+        ].filter(f => f.value);
 
         return (
           <div className="bg-dark-950 p-5 rounded-xl border border-gray-800 space-y-4">
@@ -76,7 +176,20 @@ const ResultModal: React.FC<ResultModalProps> = ({ result, onClose, onUpdate })
               <div>
                 <label className="text-xs text-gray-500 uppercase block mb-1">Security</label>
                 <span className="text-gray-300 font-mono text-sm bg-dark-900 px-2 py-1 rounded border border-gray-800">{type}</span>
+                {payload.hidden && (
+                  <span className="ml-2 text-gray-400 text-xs">Hidden network</span>
+                )}
               </div>
+              {enterpriseFields.length > 0 && (
+                <div className="grid grid-cols-2 gap-3">
+                  {enterpriseFields.map(f => (
+                    <div key={f.label} className="min-w-0">
+                      <label className="text-xs text-gray-500 uppercase block mb-1">{f.label}</label>
+                      <div className="text-gray-300 text-sm font-mono break-all">{f.value}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
               {password && (
                 <div>
                     <label className="text-xs text-gray-500 uppercase block mb-1">Password</label>
@@ -109,11 +222,15 @@ const ResultModal: React.FC<ResultModalProps> = ({ result, onClose, onUpdate })
         );
       }
 
-      if (isEmail) {
-        const email = result.data.replace('mailto:', '').split('?')[0];
-        const params = new URLSearchParams(result.data.split('?')[1] || '');
-        const subject = params.get('subject');
-        const body = params.get('body');
+      if (payload.type === 'email') {
+        const email = payload.to;
+        const { subject, body } = payload;
+        // MATMSG and bare addresses are re-expressed as mailto: so the mail app can open them
+        const params = new URLSearchParams();
+        if (subject) params.set('subject', subject);
+        if (body) params.set('body', body);
+        const query = params.toString().replace(/\+/g, '%20');
+        const href = payload.format === 'mailto' ? result.data.trim() : `mailto:${email}${query ? `?${query}` : ''}`;
 
         return (
           <div className="bg-dark-950 p-5 rounded-xl border border-gray-800 space-y-4">
@@ -141,7 +258,7 @@ const ResultModal: React.FC<ResultModalProps> = ({ result, onClose, onUpdate })
               )}
             </div>
             <a 
-              href={result.data}
+              href={href}
               className="block w-full text-center py-3 bg-mask-gradient hover:opacity-90 text-white rounded-xl font-medium transition-colors mt-2"
             >
               Send Email
@@ -150,28 +267,31 @@ const ResultModal: React.FC<ResultModalProps> = ({ result, onClose, onUpdate })
         );
       }
 
-      if (isUrl) {
-        let hostname = '';
-        try {
-          hostname = new URL(result.data).hostname;
-        } catch (e) { hostname = 'Website'; }
+      if (payload.type === 'url') {
+        const hostname = payload.hostname || 'Website';
 
         return (
           <div className="bg-dark-950 p-5 rounded-xl border border-gray-800 text-center">
               <div className="w-16 h-16 bg-mask-cyan/10 text-mask-cyan rounded-full flex items-center justify-center mx-auto mb-4">
                 <Globe size={32} />
               </div>
-              <h3 className="text-xl font-bold text-white mb-1">{hostname}</h3>
+              <h3 className="text-xl font-bold text-white mb-1">{threat?.displayHost || hostname}</h3>
               <p className="text-gray-400 text-sm break-all mb-6 px-4">{result.data}</p>
-              
+
+              {threat && renderThreatPanel(threat)}
+
               <div className="flex gap-3">
                 <a 
-                  href={result.data}
+                  href={payload.url}
                   target="_blank"
                   rel="noopener noreferrer"
-                  className="flex-1 bg-mask-gradient hover:opacity-90 text-white py-3 rounded-xl font-medium flex items-center justify-center gap-2 transition-colors shadow-lg"
+                  className={`flex-1 py-3 rounded-xl font-medium flex items-center justify-center gap-2 transition-colors ${
+                    threat?.safetyRating === 'caution'
+                      ? 'bg-dark-800 hover:bg-red-500/20 text-red-300 border border-red-500/40'
+                      : 'bg-mask-gradient hover:opacity-90 text-white shadow-lg'
+                  }`}
                 >
-                  <ExternalLink size={18} /> Open Link
+                  <ExternalLink size={18} /> {threat?.safetyRating === 'caution' ? 'Open Anyway' : 'Open Link'}
                 </a>
                 <button 
                   onClick={() => handleCopy(result.data)}
@@ -183,6 +303,363 @@ const ResultModal: React.FC<ResultModalProps> = ({ result, onClose, onUpdate })
           </div>
         );
       }
+
+      if (payload.type === 'phone') {
+        return (
+          <div className="bg-dark-950 p-5 rounded-xl border border-gray-800 space-y-4">
+            <div className="flex items-center gap-3 pb-3 border-b border-gray-800">
+              <div className="bg-mask-lime/10 p-2 rounded-lg text-mask-lime">
+                  <Phone size={24} />
+              </div>
+              <div>
+                <h4 className="text-sm text-gray-400 uppercase tracking-wide">Phone Number</h4>
+                <p className="text-xl font-semibold text-white font-mono break-all">{payload.number}</p>
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <a
+                href={`tel:${payload.number.replace(/[^\d+*#,;]/g, '')}`}
+                className="flex-1 text-center py-3 bg-mask-gradient hover:opacity-90 text-white rounded-xl font-medium flex items-center justify-center gap-2 transition-colors"
+              >
+                <Phone size={18} /> Call
+              </a>
+              <button
+                onClick={() => handleCopy(payload.number)}
+                className="bg-dark-800 hover:bg-dark-700 text-gray-200 px-4 rounded-xl border border-gray-700 shrink-0"
+              >
+                {copied ? <Check size={18} /> : <Copy size={18} />}
+              </button>
+            </div>
+          </div>
+        );
+      }
+
+      if (payload.type === 'sms') {
+        const href = `sms:${payload.number}${payload.message ? `?body=${encodeURIComponent(payload.message)}` : ''}`;
+
+        return (
+          <div className="bg-dark-950 p-5 rounded-xl border border-gray-800 space-y-4">
+            <div className="flex items-center gap-3 pb-3 border-b border-gray-800">
+              <div className="bg-mask-lime/10 p-2 rounded-lg text-mask-lime">
+                  <MessageSquare size={24} />
+              </div>
+              <div>
+                <h4 className="text-sm text-gray-400 uppercase tracking-wide">Text Message</h4>
+                <p className="text-lg font-semibold text-white font-mono break-all">{payload.number || 'No recipient'}</p>
+              </div>
+            </div>
+            {payload.message && (
+              <div>
+                <label className="text-xs text-gray-500 uppercase block mb-1">Message</label>
+                <div className="text-gray-300 text-sm bg-dark-900 p-2 rounded border border-gray-800 break-words whitespace-pre-wrap max-h-32 overflow-y-auto">{payload.message}</div>
+              </div>
+            )}
+            <a
+              href={href}
+              className="block w-full text-center py-3 bg-mask-gradient hover:opacity-90 text-white rounded-xl font-medium transition-colors"
+            >
+              Send Message
+            </a>
+          </div>
+        );
+      }
+
+      if (payload.type === 'geo') {
+        const { latitude, longitude } = payload;
+        const coordinates = `${latitude}, ${longitude}`;
+        const mapUrl = `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=16/${latitude}/${longitude}`;
+
+        return (
+          <div className="bg-dark-950 p-5 rounded-xl border border-gray-800 space-y-4">
+            <div className="flex items-center gap-3 pb-3 border-b border-gray-800">
+              <div className="bg-mask-orange/10 p-2 rounded-lg text-mask-orange">
+                  <MapPin size={24} />
+              </div>
+              <div>
+                <h4 className="text-sm text-gray-400 uppercase tracking-wide">Location</h4>
+                <p className="text-lg font-semibold text-white font-mono break-all">{coordinates}</p>
+              </div>
+            </div>
+            {(payload.query || payload.altitude !== undefined) && (
+              <div className="space-y-3">
+                {payload.query && (
+                  <div>
+                    <label className="text-xs text-gray-500 uppercase block mb-1">Place</label>
+                    <div className="text-gray-300 text-sm bg-dark-900 p-2 rounded border border-gray-800 break-words">{payload.query}</div>
+                  </div>
+                )}
+                {payload.altitude !== undefined && (
+                  <div>
+                    <label className="text-xs text-gray-500 uppercase block mb-1">Altitude</label>
+                    <span className="text-gray-300 font-mono text-sm">{payload.altitude} m</span>
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="flex gap-3">
+              <a
+                href={mapUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex-1 bg-mask-gradient hover:opacity-90 text-white py-3 rounded-xl font-medium flex items-center justify-center gap-2 transition-colors"
+              >
+                <ExternalLink size={18} /> Open Map
+              </a>
+              <button
+                onClick={() => handleCopy(coordinates)}
+                className="bg-dark-800 hover:bg-dark-700 text-gray-200 px-4 rounded-xl border border-gray-700 shrink-0"
+                title="Copy coordinates"
+              >
+                {copied ? <Check size={18} /> : <Copy size={18} />}
+              </button>
+            </div>
+          </div>
+        );
+      }
+
+      if (payload.type === 'event') {
+        const { start, end, allDay } = payload;
+        // DTEND of an all-day event is the day after the last one
+        const lastDay = allDay && end !== undefined && start !== undefined && end - start > DAY_MS ? end - DAY_MS : undefined;
+        const when = start === undefined ? '' : [
+          formatEventTime(start, allDay),
+          allDay ? (lastDay !== undefined ? formatEventTime(lastDay, true) : '') : (end !== undefined ? formatEventTime(end, false) : ''),
+        ].filter(Boolean).join(' – ');
+
+        return (
+          <div className="bg-dark-950 p-5 rounded-xl border border-gray-800 space-y-4">
+            <div className="flex items-center gap-3 pb-3 border-b border-gray-800">
+              <div className="bg-mask-cyan/10 p-2 rounded-lg text-mask-cyan">
+                  <CalendarDays size={24} />
+              </div>
+              <div>
+                <h4 className="text-sm text-gray-400 uppercase tracking-wide">Calendar Event</h4>
+                <p className="text-lg font-semibold text-white break-words">{payload.summary || 'Untitled event'}</p>
+              </div>
+            </div>
+            <div className="space-y-3">
+              {when && (
+                <div>
+                  <label className="text-xs text-gray-500 uppercase block mb-1">When{allDay ? ' (all day)' : ''}</label>
+                  <div className="text-gray-300 text-sm">{when}</div>
+                </div>
+              )}
+              {payload.location && (
+                <div>
+                  <label className="text-xs text-gray-500 uppercase block mb-1">Location</label>
+                  <div className="text-gray-300 text-sm bg-dark-900 p-2 rounded border border-gray-800 break-words">{payload.location}</div>
+                </div>
+              )}
+              {payload.description && (
+                <div>
+                  <label className="text-xs text-gray-500 uppercase block mb-1">Description</label>
+                  <div className="text-gray-300 text-sm bg-dark-900 p-2 rounded border border-gray-800 break-words whitespace-pre-wrap max-h-32 overflow-y-auto">{payload.description}</div>
+                </div>
+              )}
+            </div>
+            <button
+              onClick={() => downloadBlob(new Blob([toIcsFile(result.data)], { type: 'text/calendar' }), 'event.ics')}
+              className="w-full py-3 bg-mask-gradient hover:opacity-90 text-white rounded-xl font-medium flex items-center justify-center gap-2 transition-colors"
+            >
+              <Download size={18} /> Add to Calendar
+            </button>
+          </div>
+        );
+      }
+
+      if (payload.type === 'contact') {
+        const vcf = payload.format === 'vcard' ? result.data.trim() : payloadToVcard(payload);
+        const subtitle = [payload.title, payload.org].filter(Boolean).join(' · ');
+
+        return (
+          <div className="bg-dark-950 p-5 rounded-xl border border-gray-800 space-y-4">
+            <div className="flex items-center gap-3 pb-3 border-b border-gray-800">
+              <div className="bg-blue-500/10 p-2 rounded-lg text-blue-400">
+                  <UserSquare size={24} />
+              </div>
+              <div className="min-w-0">
+                <h4 className="text-sm text-gray-400 uppercase tracking-wide">Contact{payload.format === 'mecard' ? ' (MeCard)' : ''}</h4>
+                <p className="text-lg font-semibold text-white break-words">{payload.name || 'Unnamed contact'}</p>
+                {subtitle && <p className="text-xs text-gray-400 truncate">{subtitle}</p>}
+              </div>
+            </div>
+            <div className="space-y-2 text-sm">
+              {payload.phones.map((p, i) => (
+                <a key={`tel-${i}`} href={`tel:${p.value}`} className="flex items-center gap-2 text-gray-300 hover:text-white">
+                  <Phone size={14} className="text-gray-500 shrink-0" />
+                  <span className="font-mono break-all">{p.value}</span>
+                  {p.label && <span className="text-[10px] text-gray-500 uppercase">{p.label}</span>}
+                </a>
+              ))}
+              {payload.emails.map((e, i) => (
+                <a key={`email-${i}`} href={`mailto:${e.value}`} className="flex items-center gap-2 text-gray-300 hover:text-white">
+                  <Mail size={14} className="text-gray-500 shrink-0" />
+                  <span className="break-all">{e.value}</span>
+                  {e.label && <span className="text-[10px] text-gray-500 uppercase">{e.label}</span>}
+                </a>
+              ))}
+              {payload.urls.map((u, i) => (
+                <div key={`url-${i}`} className="flex items-center gap-2 text-gray-300">
+                  <Globe size={14} className="text-gray-500 shrink-0" />
+                  <span className="break-all">{u}</span>
+                </div>
+              ))}
+              {payload.address && (
+                <div className="flex items-start gap-2 text-gray-300">
+                  <MapPin size={14} className="text-gray-500 shrink-0 mt-0.5" />
+                  <span className="break-words">{payload.address}</span>
+                </div>
+              )}
+              {payload.note && (
+                <p className="text-gray-400 text-xs italic bg-dark-900 p-2 rounded border border-gray-800 break-words">{payload.note}</p>
+              )}
+            </div>
+            <button
+              onClick={() => downloadBlob(new Blob([vcf], { type: 'text/vcard' }), `${(payload.name || 'contact').replace(/[^\w-]+/g, '_')}.vcf`)}
+              className="w-full py-3 bg-mask-gradient hover:opacity-90 text-white rounded-xl font-medium flex items-center justify-center gap-2 transition-colors"
+            >
+              <Download size={18} /> Save Contact
+            </button>
+          </div>
+        );
+      }
+
+      if (payload.type === 'crypto') {
+        const symbol = payload.currency === 'bitcoin' ? 'BTC' : 'ETH';
+
+        return (
+          <div className="bg-dark-950 p-5 rounded-xl border border-gray-800 space-y-4">
+            <div className="flex items-center gap-3 pb-3 border-b border-gray-800">
+              <div className="bg-mask-orange/10 p-2 rounded-lg text-mask-orange">
+                  {payload.currency === 'bitcoin' ? <Bitcoin size={24} /> : <Wallet size={24} />}
+              </div>
+              <div>
+                <h4 className="text-sm text-gray-400 uppercase tracking-wide">
+                  {payload.currency === 'bitcoin' ? 'Bitcoin' : 'Ethereum'} Payment
+                </h4>
+                <p className="text-xl font-semibold text-white font-mono">
+                  {payload.amount ? `${payload.amount} ${symbol}` : 'Any amount'}
+                </p>
+              </div>
+            </div>
+            <div className="space-y-3">
+              {payload.label && (
+                <div>
+                  <label className="text-xs text-gray-500 uppercase block mb-1">Recipient</label>
+                  <div className="text-gray-300 text-sm">{payload.label}</div>
+                </div>
+              )}
+              {payload.message && (
+                <div>
+                  <label className="text-xs text-gray-500 uppercase block mb-1">Message</label>
+                  <div className="text-gray-300 text-sm bg-dark-900 p-2 rounded border border-gray-800 break-words">{payload.message}</div>
+                </div>
+              )}
+              <div>
+                <label className="text-xs text-gray-500 uppercase block mb-1">
+                  Address{payload.chainId !== undefined && ` · chain ${payload.chainId}`}
+                </label>
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 bg-dark-900 border border-gray-800 rounded-lg px-3 py-2 font-mono text-gray-200 text-xs break-all">{payload.address}</div>
+                  <button
+                    onClick={() => handleCopy(payload.address)}
+                    className="bg-dark-800 hover:bg-dark-700 text-gray-200 p-2 rounded-lg border border-gray-700 shrink-0"
+                    title="Copy address"
+                  >
+                    {copied ? <Check size={18} /> : <Copy size={18} />}
+                  </button>
+                </div>
+              </div>
+            </div>
+            <a
+              href={result.data.trim()}
+              className="w-full py-3 bg-mask-gradient hover:opacity-90 text-white rounded-xl font-medium flex items-center justify-center gap-2 transition-colors"
+            >
+              <Wallet size={18} /> Open in Wallet
+            </a>
+            <p className="text-[10px] text-gray-500 text-center">Check the address in your wallet before you pay. Payments can't be undone.</p>
+          </div>
+        );
+      }
+
+      if (payload.type === 'payment') {
+        const isSepa = payload.scheme === 'epc';
+        const formattedAccount = isSepa ? payload.account.replace(/(.{4})(?=.)/g, '$1 ') : payload.account;
+
+        return (
+          <div className="bg-dark-950 p-5 rounded-xl border border-gray-800 space-y-4">
+            <div className="flex items-center gap-3 pb-3 border-b border-gray-800">
+              <div className="bg-mask-lime/10 p-2 rounded-lg text-mask-lime">
+                  <Landmark size={24} />
+              </div>
+              <div>
+                <h4 className="text-sm text-gray-400 uppercase tracking-wide">
+                  {isSepa ? 'SEPA Transfer' : 'Merchant Payment'}
+                </h4>
+                <p className="text-xl font-semibold text-white font-mono">
+                  {payload.amount ? `${payload.amount} ${payload.currency}` : 'Any amount'}
+                </p>
+              </div>
+            </div>
+            {payload.issues.length === 0 ? (
+              <div className="flex items-center gap-2 text-xs text-mask-lime">
+                <ShieldCheck size={14} /> {isSepa ? 'IBAN check digits verified' : 'Checksum verified'}
+              </div>
+            ) : (
+              <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 space-y-1">
+                {payload.issues.map(issue => (
+                  <p key={issue} className="flex items-center gap-2 text-xs text-red-300">
+                    <AlertTriangle size={12} className="shrink-0" /> {issue}
+                  </p>
+                ))}
+              </div>
+            )}
+            <div className="space-y-3">
+              {payload.payee && (
+                <div>
+                  <label className="text-xs text-gray-500 uppercase block mb-1">{isSepa ? 'Beneficiary' : 'Merchant'}</label>
+                  <div className="text-gray-300 text-sm">
+                    {payload.payee}
+                    {(payload.city || (!isSepa && payload.country)) && (
+                      <span className="text-gray-500"> · {[payload.city, payload.country].filter(Boolean).join(', ')}</span>
+                    )}
+                  </div>
+                </div>
+              )}
+              {payload.account && (
+                <div>
+                  <label className="text-xs text-gray-500 uppercase block mb-1">
+                    {isSepa ? 'IBAN' : 'Account'}{payload.accountNetwork && ` · ${payload.accountNetwork}`}
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 bg-dark-900 border border-gray-800 rounded-lg px-3 py-2 font-mono text-gray-200 text-xs break-all">{formattedAccount}</div>
+                    <button
+                      onClick={() => handleCopy(payload.account)}
+                      className="bg-dark-800 hover:bg-dark-700 text-gray-200 p-2 rounded-lg border border-gray-700 shrink-0"
+                      title={isSepa ? 'Copy IBAN' : 'Copy account'}
+                    >
+                      {copied ? <Check size={18} /> : <Copy size={18} />}
+                    </button>
+                  </div>
+                </div>
+              )}
+              {payload.bic && (
+                <div>
+                  <label className="text-xs text-gray-500 uppercase block mb-1">BIC</label>
+                  <div className="text-gray-300 text-sm font-mono">{payload.bic}</div>
+                </div>
+              )}
+              {payload.reference && (
+                <div>
+                  <label className="text-xs text-gray-500 uppercase block mb-1">Reference</label>
+                  <div className="text-gray-300 text-sm bg-dark-900 p-2 rounded border border-gray-800 break-words font-mono">{payload.reference}</div>
+                </div>
+              )}
+            </div>
+            <p className="text-[10px] text-gray-500 text-center">Compare the payee and account with your banking app before you confirm.</p>
+          </div>
+        );
+      }
     } catch (e) {
       console.error("Error parsing scan result:", e);
     }
@@ -193,6 +670,7 @@ const ResultModal: React.FC<ResultModalProps> = ({ result, onClose, onUpdate })
          <div className="flex items-center gap-2 mb-3 text-gray-400 uppercase text-xs font-semibold tracking-wider">
             <FileText size={14} /> Plain Text Content
          </div>
+         {threat && renderThreatPanel(threat)}
          <p className="text-gray-200 font-mono text-sm leading-relaxed break-words whitespace-pre-wrap mb-6 max-h-60 overflow-y-auto">
            {result.data}
          </p>
@@ -222,6 +700,11 @@ const ResultModal: React.FC<ResultModalProps> = ({ result, onClose, onUpdate })
         <div className="flex items-center justify-between p-4 border-b border-gray-800 bg-dark-900 shrink-0">
           <div className="flex items-center gap-2">
             <h3 className="font-semibold text-lg text-transparent bg-clip-text bg-mask-gradient-text">Scan Result</h3>
+            {result.symbology && result.symbology !== 'QR Code' && (
+              <span className="text-[10px] uppercase font-bold bg-gray-800 text-gray-300 px-2 py-1 rounded border border-gray-700 flex items-center gap-1">
+                <Barcode size={10} /> {result.symbology}
+              </span>
+            )}
           </div>
           <button 
             onClick={onClose} 
@@ -239,7 +722,7 @@ const ResultModal: React.FC<ResultModalProps> = ({ result, onClose, onUpdate })
             {renderContent()}
           </div>
 
-          {/* Gemini AI Section */}
+          {/* AI Section */}
           <div className="border-t border-dark-800 pt-6">
              {!result.aiSummary && !analysis ? (
                <div className="bg-gradient-to-r from-dark-800 to-dark-900 p-5 rounded-xl border border-gray-800 text-center">
@@ -265,7 +748,7 @@ const ResultModal: React.FC<ResultModalProps> = ({ result, onClose, onUpdate })
                    </button>
                  ) : (
                    <div className="inline-flex items-center gap-2 bg-red-500/10 border border-red-500/20 rounded-lg px-4 py-2 text-xs text-red-400 font-medium">
-                     <Lock size={12} /> AI Not Configured (Missing API Key)
+                     <Lock size={12} /> AI Not Configured (choose a provider in Settings)
                    </div>
                  )}
                </div>
@@ -303,11 +786,11 @@ const ResultModal: React.FC<ResultModalProps> = ({ result, onClose, onUpdate })
                        <div className="mt-4 pt-4 border-t border-gray-800">
                          <span className="text-[10px] text-gray-500 uppercase font-bold block mb-2">Recommended Actions</span>
                          <div className="flex flex-wrap gap-2">
-                           {analysis.actions.map((action, i) => (
+                           {analysis.actions.map((action, i) => typeof action === 'string' ? (
                              <span key={i} className="text-xs bg-mask-cyan/10 text-mask-cyan px-3 py-1.5 rounded-lg border border-mask-cyan/10">
                                {action}
                              </span>
-                           ))}
+                           ) : renderAction(action, i))}
                          </div>
                        </div>
                      )}
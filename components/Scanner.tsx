@@ -1,22 +1,87 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import jsQR from 'jsqr';
-import { Camera, RefreshCcw, AlertTriangle, Zap, ZapOff, Image as ImageIcon } from 'lucide-react';
-import { ScanResult } from '../types';
+import { Camera, RefreshCcw, AlertTriangle, Zap, ZapOff, Image as ImageIcon, Layers, Check, X, SlidersHorizontal, ZoomIn } from 'lucide-react';
+import { SessionCode, Symbology } from '../types';
+import { DecodedBarcode, decodeQR, decodeZxing, decodeAll, detectionOutline } from '../services/barcodeDecoder';
+import { PartialSequence, SequencePart, addSequencePart, missingParts, assembleSequence } from '../services/structuredAppend';
 
 interface ScannerProps {
-  onScan: (data: string, image?: string) => void;
+  onScan: (data: string, image?: string, symbology?: Symbology) => void;
+  onScanMany: (codes: SessionCode[]) => void;
+  onSessionEnd: (codes: SessionCode[]) => void;
   isActive: boolean;
 }
 
-const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
+type CaptureResolution = '720p' | '1080p' | '4k';
+
+const RESOLUTIONS: Record<CaptureResolution, { width: number; height: number }> = {
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+  '4k': { width: 3840, height: 2160 },
+};
+
+// Scan box as a share of the view's shorter side; 0 decodes the whole frame
+const ROI_SIZES = [0, 40, 55, 70, 85];
+
+const SCANNER_SETTINGS_KEY = 'qr-scanner-settings';
+
+interface ScannerSettings {
+  resolution: CaptureResolution;
+  roiSize: number;
+}
+
+const loadScannerSettings = (): ScannerSettings => {
+  const defaults: ScannerSettings = { resolution: '720p', roiSize: 0 };
+  try {
+    const saved = JSON.parse(localStorage.getItem(SCANNER_SETTINGS_KEY) || '{}');
+    return {
+      resolution: saved.resolution in RESOLUTIONS ? saved.resolution : defaults.resolution,
+      roiSize: ROI_SIZES.includes(saved.roiSize) ? saved.roiSize : defaults.roiSize,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+// Maps a point on screen to video pixels, for a video shown with object-fit: cover
+const screenToVideo = (video: HTMLVideoElement, clientX: number, clientY: number) => {
+  const box = video.getBoundingClientRect();
+  const scale = Math.max(box.width / video.videoWidth, box.height / video.videoHeight);
+  return {
+    x: (clientX - box.left - (box.width - video.videoWidth * scale) / 2) / scale,
+    y: (clientY - box.top - (box.height - video.videoHeight * scale) / 2) / scale,
+  };
+};
+
+// The part of the frame under an on-screen element, clamped to the frame, in video pixels
+const videoRegionUnder = (video: HTMLVideoElement, element: HTMLElement) => {
+  const rect = element.getBoundingClientRect();
+  const topLeft = screenToVideo(video, rect.left, rect.top);
+  const bottomRight = screenToVideo(video, rect.right, rect.bottom);
+  const x = Math.max(0, Math.round(topLeft.x));
+  const y = Math.max(0, Math.round(topLeft.y));
+  return {
+    x,
+    y,
+    width: Math.min(video.videoWidth, Math.round(bottomRight.x)) - x,
+    height: Math.min(video.videoHeight, Math.round(bottomRight.y)) - y,
+  };
+};
+
+const touchDistance = (touches: React.TouchList) =>
+  Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+const Scanner: React.FC<ScannerProps> = ({ onScan, onScanMany, onSessionEnd, isActive }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null); // Visible overlay canvas
   const streamRef = useRef<MediaStream | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const markerRef = useRef<HTMLDivElement>(null); // Scan box; its area is what gets decoded when a region is set
   
   // Offscreen processing
   const scanCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const lastScanTimeRef = useRef<number>(0);
+  const lastZxingScanTimeRef = useRef<number>(0);
+  const zxingBusyRef = useRef(false);
   
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [permissionError, setPermissionError] = useState<string>('');
@@ -29,10 +94,60 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
   const [hasTorch, setHasTorch] = useState(false);
   const [isTorchOn, setIsTorchOn] = useState(false);
   
+  // Zoom, focus and capture settings
+  const [scannerSettings, setScannerSettings] = useState<ScannerSettings>(loadScannerSettings);
+  const [showCameraSettings, setShowCameraSettings] = useState(false);
+  const [zoomRange, setZoomRange] = useState<{ min: number; max: number; step: number } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [canFocus, setCanFocus] = useState(false);
+  const [focusPoint, setFocusPoint] = useState<{ x: number; y: number } | null>(null); // Screen position of the last tap
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+
   // Front camera & Screen flash state
   const [isFrontCamera, setIsFrontCamera] = useState(false);
   const [isScreenFlashOn, setIsScreenFlashOn] = useState(false);
+
+  // Session mode: keep scanning and collect every distinct code
+  const [isSessionMode, setIsSessionMode] = useState(false);
+  const [sessionCodes, setSessionCodes] = useState<SessionCode[]>([]);
+  const sessionSeenRef = useRef<Set<string>>(new Set());
+  const [lastSessionHit, setLastSessionHit] = useState<string | null>(null);
+
+  // Structured Append parts collected so far; the ref is what the scan loop reads
+  const [sequence, setSequence] = useState<PartialSequence | null>(null);
+  const sequenceRef = useRef<PartialSequence | null>(null);
+
+  // Uploaded image with every code found in it outlined
+  const [isProcessingUpload, setIsProcessingUpload] = useState(false);
+  const [uploadPreview, setUploadPreview] = useState<{ src: string; width: number; height: number; codes: DecodedBarcode[] } | null>(null);
+
+  // Adds a code to the running session; returns false for repeats
+  const addSessionCode = useCallback((data: string, symbology?: Symbology, image?: string) => {
+    if (sessionSeenRef.current.has(data)) return false;
+    sessionSeenRef.current.add(data);
+    setSessionCodes(prev => [{ data, timestamp: Date.now(), symbology, image }, ...prev]);
+    setLastSessionHit(data);
+    if (navigator.vibrate) navigator.vibrate(50);
+    return true;
+  }, []);
   
+  // Adds one part of a linked set; returns the whole payload once the last part is in
+  const collectPart = useCallback((part: SequencePart, data: string) => {
+    const previous = sequenceRef.current;
+    if (previous && previous.total === part.total && previous.parity === part.parity && part.index in previous.parts) return null;
+    const next = addSequencePart(previous, part, data);
+    const assembled = assembleSequence(next);
+    sequenceRef.current = assembled === null ? next : null;
+    setSequence(sequenceRef.current);
+    if (assembled === null && navigator.vibrate) navigator.vibrate(30);
+    return assembled;
+  }, []);
+
+  const discardSequence = () => {
+    sequenceRef.current = null;
+    setSequence(null);
+  };
+
   // Clean up stream tracks
   const stopStream = useCallback(() => {
     if (streamRef.current) {
@@ -55,6 +170,8 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
     setHasTorch(false);
     setIsTorchOn(false);
     setIsScreenFlashOn(false);
+    setZoomRange(null);
+    setCanFocus(false);
     stopStream();
 
     try {
@@ -66,8 +183,8 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
         video: {
           deviceId: deviceId ? { exact: deviceId } : undefined,
           facingMode: deviceId ? undefined : 'environment',
-          width: { ideal: 1280 },
-          height: { ideal: 720 },
+          width: { ideal: RESOLUTIONS[scannerSettings.resolution].width },
+          height: { ideal: RESOLUTIONS[scannerSettings.resolution].height },
         },
       };
 
@@ -82,6 +199,14 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
           setHasTorch(true);
         }
 
+        // Zoom and focus are only exposed by some browsers (mostly Chrome on Android)
+        const { zoom: zoomCaps, focusMode } = capabilities as { zoom?: { min: number; max: number; step?: number }; focusMode?: string[] };
+        if (zoomCaps && zoomCaps.max > zoomCaps.min) {
+          setZoomRange({ min: zoomCaps.min, max: zoomCaps.max, step: zoomCaps.step || 0.1 });
+          setZoom((track.getSettings() as { zoom?: number }).zoom ?? zoomCaps.min);
+        }
+        setCanFocus(!!focusMode?.includes('single-shot') || !!focusMode?.includes('manual'));
+
         // Detect Front Camera
         const settings = track.getSettings();
         const isFront = settings.facingMode === 'user' || track.label.toLowerCase().includes('front');
@@ -116,7 +241,53 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
         setPermissionError(err.message || "Failed to access camera.");
       }
     }
-  }, [stopStream]);
+  }, [stopStream, scannerSettings.resolution]);
+
+  const updateScannerSettings = (changes: Partial<ScannerSettings>) => {
+    const next = { ...scannerSettings, ...changes };
+    setScannerSettings(next);
+    localStorage.setItem(SCANNER_SETTINGS_KEY, JSON.stringify(next));
+  };
+
+  const applyZoom = (value: number) => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track || !zoomRange) return;
+    const clamped = Math.min(zoomRange.max, Math.max(zoomRange.min, value));
+    setZoom(clamped);
+    track.applyConstraints({ advanced: [{ zoom: clamped } as any] }).catch(err => console.warn("Zoom not applied", err));
+  };
+
+  // Focuses once on the tapped spot; browsers without points of interest focus on the centre
+  const handleTapToFocus = async (e: React.MouseEvent) => {
+    const video = videoRef.current;
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!canFocus || !video || !track || e.target !== video) return;
+    const point = screenToVideo(video, e.clientX, e.clientY);
+    const pointOfInterest = {
+      x: Math.min(1, Math.max(0, point.x / video.videoWidth)),
+      y: Math.min(1, Math.max(0, point.y / video.videoHeight)),
+    };
+    const box = video.getBoundingClientRect();
+    setFocusPoint({ x: e.clientX - box.left, y: e.clientY - box.top });
+    try {
+      await track.applyConstraints({ advanced: [{ pointsOfInterest: [pointOfInterest], focusMode: 'single-shot' } as any] });
+    } catch {
+      track.applyConstraints({ advanced: [{ focusMode: 'single-shot' } as any] }).catch(err => console.warn("Focus not applied", err));
+    }
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    if (zoomRange && e.touches.length === 2) pinchRef.current = { distance: touchDistance(e.touches), zoom };
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    if (!pinchRef.current || e.touches.length !== 2) return;
+    applyZoom(pinchRef.current.zoom * (touchDistance(e.touches) / pinchRef.current.distance));
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (e.touches.length < 2) pinchRef.current = null;
+  };
 
   const toggleTorch = async () => {
     if (hasTorch && streamRef.current) {
@@ -150,6 +321,26 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
     }
   };
 
+  // Cuts a code's region (plus a margin) out of the full-resolution upload
+  const cropCode = (img: HTMLImageElement, code: DecodedBarcode, scale: number) => {
+    const corners = detectionOutline(code.corners);
+    const xs = corners.map(p => p.x / scale);
+    const ys = corners.map(p => p.y / scale);
+    const pad = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) * 0.15;
+    const x = Math.max(0, Math.min(...xs) - pad);
+    const y = Math.max(0, Math.min(...ys) - pad);
+    const w = Math.min(img.width, Math.max(...xs) + pad) - x;
+    const h = Math.min(img.height, Math.max(...ys) + pad) - y;
+
+    const maxCropSize = 800;
+    const ratio = Math.min(1, maxCropSize / Math.max(w, h));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(w * ratio));
+    canvas.height = Math.max(1, Math.round(h * ratio));
+    canvas.getContext('2d')?.drawImage(img, x, y, w, h, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -158,15 +349,15 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
     reader.onload = (event) => {
       const resultDataUrl = event.target?.result as string;
       const img = new Image();
-      img.onload = () => {
+      img.onload = async () => {
         const canvas = document.createElement('canvas');
         const ctx = canvas.getContext('2d');
         if (!ctx) return;
 
-        // Downsample for performance if needed
+        // Downsample for performance if needed. Sheets of small codes need more pixels than a single code.
         let width = img.width;
         let height = img.height;
-        const maxDimension = 1200;
+        const maxDimension = 2000;
         
         if (width > maxDimension || height > maxDimension) {
             const ratio = Math.min(maxDimension / width, maxDimension / height);
@@ -178,24 +369,57 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
         canvas.height = height;
         ctx.drawImage(img, 0, 0, width, height);
         
+        setIsProcessingUpload(true);
         try {
           const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const code = jsQR(imageData.data, imageData.width, imageData.height, {
-             inversionAttempts: "attemptBoth",
-          });
+          const codes = await decodeAll(imageData);
+          const scale = canvas.width / img.width;
+          const found: SessionCode[] = codes.filter(code => !code.sequence).map(code => ({
+            data: code.data,
+            timestamp: Date.now(),
+            symbology: code.symbology,
+            image: cropCode(img, code, scale),
+          }));
+
+          // Parts of a linked set join any parts already scanned; the set counts as one code once complete
+          const parts = codes.filter(code => code.sequence);
+          for (const code of parts) {
+            const assembled = collectPart(code.sequence!, code.data);
+            if (assembled !== null) found.push({ data: assembled, timestamp: Date.now(), symbology: 'QR Code' });
+          }
 
-          if (code) {
+          if (found.length === 0 && parts.length) {
+            // The set panel shows what's still missing
+            setScanFeedback(null);
+          } else if (found.length === 0) {
+            setScanFeedback("No QR code or barcode found in image");
+            setTimeout(() => setScanFeedback(null), 3000);
+          } else if (isSessionMode) {
+            const added = found.filter(code => addSessionCode(code.data, code.symbology, code.image));
+            if (added.length === 0) {
+              setScanFeedback("Already scanned in this session");
+              setTimeout(() => setScanFeedback(null), 3000);
+            }
+          } else if (found.length === 1) {
             setIsScanning(false);
-            onScan(code.data, resultDataUrl);
+            onScan(found[0].data, found[0].image, found[0].symbology);
             setScanFeedback(null);
           } else {
-            setScanFeedback("No QR code found in image");
-            setTimeout(() => setScanFeedback(null), 3000);
+            setIsScanning(false);
+            onScanMany(found);
+            setScanFeedback(null);
+          }
+
+          // Outline what was detected, even a single code
+          if (found.length >= 1) {
+            setUploadPreview({ src: resultDataUrl, width: canvas.width, height: canvas.height, codes });
           }
         } catch (e) {
           console.error(e);
           setScanFeedback("Could not process image");
           setTimeout(() => setScanFeedback(null), 3000);
+        } finally {
+          setIsProcessingUpload(false);
         }
       };
       img.src = resultDataUrl;
@@ -205,6 +429,11 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const closeUploadPreview = () => {
+    setUploadPreview(null);
+    setIsScanning(true);
+  };
+
   const triggerFileUpload = () => {
     fileInputRef.current?.click();
   };
@@ -247,6 +476,53 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
   // Scanning Loop
   useEffect(() => {
     let animationFrameId: number;
+    let cancelled = false;
+
+    // `scale` and `offset` map decoder coordinates back to video pixels
+    const handleDetection = (code: DecodedBarcode, scale: number, offset = { x: 0, y: 0 }) => {
+      const overlayCtx = canvasRef.current?.getContext('2d');
+      if (overlayCtx) {
+        // Draw box (Need to scale coordinates back up if we downsampled)
+        const invScale = 1 / scale;
+        const corners = detectionOutline(code.corners);
+
+        // Brand Gradient for Detection Box
+        const gradient = overlayCtx.createLinearGradient(0, 0, overlayCtx.canvas.width, overlayCtx.canvas.height);
+        gradient.addColorStop(0, "#22d3ee");
+        gradient.addColorStop(0.5, "#a3e635");
+        gradient.addColorStop(1, "#f97316");
+
+        overlayCtx.lineWidth = 5;
+        overlayCtx.strokeStyle = gradient;
+        overlayCtx.lineJoin = 'round';
+
+        overlayCtx.beginPath();
+        corners.forEach((p, i) => {
+          if (i === 0) overlayCtx.moveTo(p.x * invScale + offset.x, p.y * invScale + offset.y);
+          else overlayCtx.lineTo(p.x * invScale + offset.x, p.y * invScale + offset.y);
+        });
+        overlayCtx.closePath();
+        overlayCtx.stroke();
+      }
+
+      // A linked set keeps the camera scanning until its last part is in
+      let data = code.data;
+      if (code.sequence) {
+        const assembled = collectPart(code.sequence, code.data);
+        if (assembled === null) return;
+        data = assembled;
+      }
+
+      if (isSessionMode) {
+        // Keep the loop running; repeats are ignored
+        addSessionCode(data, code.symbology);
+      } else {
+        if (navigator.vibrate) navigator.vibrate(50);
+
+        setIsScanning(false);
+        onScan(data, undefined, code.symbology);
+      }
+    };
 
     const tick = () => {
       if (!isActive || !isScanning) return;
@@ -269,12 +545,18 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
         if (shouldScan) {
            lastScanTimeRef.current = now;
 
-           // Optimize: Downsample for scanning. 
-           // 720p or 1080p is too big for jsQR to crunch 60fps on mobile.
-           // Scale down to max 800px width while maintaining aspect ratio.
-           const scale = Math.min(1, 800 / video.videoWidth);
-           const scanW = video.videoWidth * scale;
-           const scanH = video.videoHeight * scale;
+           // With a scan region set, decode just that part of the frame at full resolution.
+           // Otherwise downsample the whole frame: 720p or 1080p is too big for jsQR to crunch
+           // every frame on mobile, so scale down to max 800px width keeping the aspect ratio.
+           const region = scannerSettings.roiSize && markerRef.current
+             ? videoRegionUnder(video, markerRef.current)
+             : null;
+           const useRegion = !!region && region.width > 0 && region.height > 0;
+           const source = useRegion ? region! : { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight };
+           const scale = useRegion ? 1 : Math.min(1, 800 / video.videoWidth);
+           const offset = { x: source.x, y: source.y };
+           const scanW = Math.round(source.width * scale);
+           const scanH = Math.round(source.height * scale);
            
            if (scanCanvas.width !== scanW || scanCanvas.height !== scanH) {
              scanCanvas.width = scanW;
@@ -290,13 +572,10 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
              // 2. Contrast: Enhances the difference between light and dark modules.
              scanCtx.filter = 'grayscale(100%) contrast(125%)';
 
-             scanCtx.drawImage(video, 0, 0, scanW, scanH);
+             scanCtx.drawImage(video, source.x, source.y, source.width, source.height, 0, 0, scanW, scanH);
              const imageData = scanCtx.getImageData(0, 0, scanW, scanH);
              
-             // Inversion attempts help with white-on-black QR codes
-             const code = jsQR(imageData.data, imageData.width, imageData.height, {
-               inversionAttempts: "attemptBoth",
-             });
+             const code = decodeQR(imageData);
 
              // 2. Update Overlay Canvas (Synchronize with video size)
              if (overlayCanvas.width !== video.videoWidth || overlayCanvas.height !== video.videoHeight) {
@@ -308,34 +587,19 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
              if (overlayCtx) {
                // Clear previous drawings
                overlayCtx.clearRect(0, 0, overlayCanvas.width, overlayCanvas.height);
+             }
 
-               if (code && code.data) {
-                 // Draw box (Need to scale coordinates back up if we downsampled)
-                 const invScale = 1 / scale;
-                 
-                 // Brand Gradient for QR Detection Box
-                 const gradient = overlayCtx.createLinearGradient(0, 0, overlayCanvas.width, overlayCanvas.height);
-                 gradient.addColorStop(0, "#22d3ee");
-                 gradient.addColorStop(0.5, "#a3e635");
-                 gradient.addColorStop(1, "#f97316");
-
-                 overlayCtx.lineWidth = 5;
-                 overlayCtx.strokeStyle = gradient;
-                 overlayCtx.lineJoin = 'round';
-                 
-                 overlayCtx.beginPath();
-                 overlayCtx.moveTo(code.location.topLeftCorner.x * invScale, code.location.topLeftCorner.y * invScale);
-                 overlayCtx.lineTo(code.location.topRightCorner.x * invScale, code.location.topRightCorner.y * invScale);
-                 overlayCtx.lineTo(code.location.bottomRightCorner.x * invScale, code.location.bottomRightCorner.y * invScale);
-                 overlayCtx.lineTo(code.location.bottomLeftCorner.x * invScale, code.location.bottomLeftCorner.y * invScale);
-                 overlayCtx.lineTo(code.location.topLeftCorner.x * invScale, code.location.topLeftCorner.y * invScale);
-                 overlayCtx.stroke();
-
-                 if (navigator.vibrate) navigator.vibrate(50);
-                 
-                 setIsScanning(false);
-                 onScan(code.data);
-               }
+             if (code) {
+               handleDetection(code, scale, offset);
+             } else if (!zxingBusyRef.current && now - lastZxingScanTimeRef.current > 250) {
+               // 3. Nothing for jsQR: try zxing, which also reads 1D barcodes, Micro QR, rMQR and linked-set parts
+               // (async, one frame at a time)
+               zxingBusyRef.current = true;
+               lastZxingScanTimeRef.current = now;
+               decodeZxing(imageData).then(barcode => {
+                 zxingBusyRef.current = false;
+                 if (barcode && !cancelled) handleDetection(barcode, scale, offset);
+               });
              }
            }
         }
@@ -348,8 +612,25 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
       animationFrameId = requestAnimationFrame(tick);
     }
 
-    return () => cancelAnimationFrame(animationFrameId);
-  }, [isActive, isScanning, onScan]);
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(animationFrameId);
+    };
+  }, [isActive, isScanning, isSessionMode, onScan, addSessionCode, collectPart, scannerSettings.roiSize]);
+
+  // Hide the focus ring shortly after a tap
+  useEffect(() => {
+    if (!focusPoint) return;
+    const timer = setTimeout(() => setFocusPoint(null), 900);
+    return () => clearTimeout(timer);
+  }, [focusPoint]);
+
+  // Clear the "new code" highlight shortly after each hit
+  useEffect(() => {
+    if (!lastSessionHit) return;
+    const timer = setTimeout(() => setLastSessionHit(null), 1200);
+    return () => clearTimeout(timer);
+  }, [lastSessionHit]);
 
   const switchCamera = () => {
     if (cameras.length > 1) {
@@ -364,6 +645,26 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
     setScanFeedback(null);
   };
 
+  const startSession = () => {
+    sessionSeenRef.current = new Set();
+    setSessionCodes([]);
+    setLastSessionHit(null);
+    setIsSessionMode(true);
+    setIsScanning(true);
+    setScanFeedback(null);
+  };
+
+  const endSession = (save: boolean) => {
+    if (save && sessionCodes.length > 0) {
+      // Oldest first, in the order they were captured
+      onSessionEnd([...sessionCodes].reverse());
+    }
+    sessionSeenRef.current = new Set();
+    setSessionCodes([]);
+    setLastSessionHit(null);
+    setIsSessionMode(false);
+  };
+
   // If tab not active, don't render video processing to save battery
   if (!isActive) return null;
 
@@ -396,7 +697,13 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
         </div>
       )}
       
-      <div className="flex-1 relative overflow-hidden flex items-center justify-center bg-black">
+      <div
+        className="flex-1 relative overflow-hidden flex items-center justify-center bg-black"
+        onClick={handleTapToFocus}
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+      >
         {/* The video element provides the smooth 60fps preview */}
         <video 
           ref={videoRef} 
@@ -410,7 +717,10 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
         />
         
         {/* UI Overlay */}
-        <div className="absolute inset-0 pointer-events-none z-10 flex flex-col items-center justify-center overflow-hidden">
+        <div
+          className="absolute inset-0 pointer-events-none z-10 flex flex-col items-center justify-center overflow-hidden"
+          style={{ containerType: 'size' }}
+        >
              
              {/* Dark/Light Mask */}
              <div 
@@ -422,8 +732,15 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
                }}
              ></div>
 
-             {/* Scan Marker */}
-             <div className="relative w-64 h-64 z-20">
+             {/* Scan Marker: a fixed guide, or the decoded region sized against the view */}
+             <div
+               ref={markerRef}
+               className={`relative z-20 ${scannerSettings.roiSize ? '' : 'w-64 h-64'}`}
+               style={scannerSettings.roiSize ? {
+                 width: `min(${scannerSettings.roiSize}cqw, ${scannerSettings.roiSize}cqh)`,
+                 height: `min(${scannerSettings.roiSize}cqw, ${scannerSettings.roiSize}cqh)`,
+               } : undefined}
+             >
                 {/* Border Frame */}
                 <div className={`absolute inset-0 border-2 rounded-lg transition-colors duration-300 ${isScreenFlashOn ? 'border-black/10' : 'border-white/20 shadow-[0_0_20px_rgba(255,255,255,0.1)]'}`}></div>
                 
@@ -436,6 +753,48 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
                 <div className={`absolute -bottom-1 -right-1 w-6 h-6 border-r-4 border-b-4 transition-colors ${isScreenFlashOn ? 'border-mask-orange' : 'border-mask-orange'}`}></div>
              </div>
              
+             {/* Session Counter & List */}
+             {isSessionMode && (
+               <div className="absolute top-6 left-6 right-24 z-30 pointer-events-auto animate-fade-in">
+                 <div className="bg-black/60 backdrop-blur-md rounded-2xl border border-white/10 p-3 max-w-xs">
+                   <div className="flex items-center justify-between gap-3 mb-2">
+                     <div className="flex items-center gap-2">
+                       <Layers size={16} className="text-mask-cyan" />
+                       <span className="text-xs font-bold uppercase tracking-wider text-white">Session</span>
+                     </div>
+                     <span className="text-lg font-bold font-mono text-transparent bg-clip-text bg-mask-gradient-text">{sessionCodes.length}</span>
+                   </div>
+                   <div className="space-y-1 max-h-32 overflow-y-auto">
+                     {sessionCodes.length === 0 && (
+                       <p className="text-[11px] text-gray-400">Point the camera at codes. Repeats are ignored.</p>
+                     )}
+                     {sessionCodes.map(code => (
+                       <p
+                         key={code.data}
+                         className={`text-[11px] font-mono truncate px-2 py-1 rounded transition-colors ${code.data === lastSessionHit ? 'bg-mask-lime/20 text-mask-lime' : 'text-gray-300'}`}
+                       >
+                         {code.data}
+                       </p>
+                     ))}
+                   </div>
+                   <div className="flex gap-2 mt-3">
+                     <button
+                       onClick={() => endSession(true)}
+                       className="flex-1 bg-mask-gradient hover:opacity-90 text-white text-xs font-medium py-2 rounded-lg flex items-center justify-center gap-1"
+                     >
+                       <Check size={14} /> End & Save
+                     </button>
+                     <button
+                       onClick={() => endSession(false)}
+                       className="bg-dark-800 hover:bg-dark-700 text-gray-300 text-xs px-3 rounded-lg border border-gray-700"
+                     >
+                       <X size={14} />
+                     </button>
+                   </div>
+                 </div>
+               </div>
+             )}
+
              {/* Feedback Toast */}
              {scanFeedback && (
                 <div className="absolute top-32 z-30 bg-red-500/90 text-white px-4 py-2 rounded-full text-sm font-medium shadow-lg animate-fade-in flex items-center gap-2">
@@ -443,7 +802,35 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
                 </div>
              )}
              
-             {!isScanning && hasPermission && !scanFeedback && (
+             {/* Linked set progress */}
+             {sequence && (
+               <div className="mt-6 pointer-events-auto animate-fade-in z-20 bg-black/60 backdrop-blur-md rounded-2xl border border-white/10 p-3 max-w-xs">
+                 <div className="flex items-center justify-between gap-3 mb-2">
+                   <div className="flex items-center gap-2">
+                     <Layers size={16} className="text-mask-lime" />
+                     <span className="text-xs font-bold uppercase tracking-wider text-white">Linked codes</span>
+                   </div>
+                   <button onClick={discardSequence} className="text-gray-400 hover:text-white" title="Discard parts">
+                     <X size={14} />
+                   </button>
+                 </div>
+                 <div className="flex flex-wrap gap-1">
+                   {Array.from({ length: sequence.total }, (_, i) => (
+                     <span
+                       key={i}
+                       className={`w-6 h-6 rounded text-[10px] font-bold font-mono flex items-center justify-center ${i in sequence.parts ? 'bg-mask-lime/20 text-mask-lime' : 'bg-dark-800 text-gray-500 border border-gray-700'}`}
+                     >
+                       {i + 1}
+                     </span>
+                   ))}
+                 </div>
+                 <p className="text-[11px] text-gray-400 mt-2">
+                   {Object.keys(sequence.parts).length} of {sequence.total} scanned. Still missing: {missingParts(sequence).map(i => i + 1).join(', ')}
+                 </p>
+               </div>
+             )}
+
+             {!isScanning && hasPermission && !scanFeedback && !isSessionMode && (
                <div className="mt-8 pointer-events-auto animate-fade-in z-20">
                  <button 
                   onClick={resumeScanning}
@@ -455,6 +842,23 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
                </div>
              )}
 
+             {/* Zoom */}
+             {hasPermission && zoomRange && (
+               <div className="absolute bottom-16 z-30 pointer-events-auto flex items-center gap-3 bg-black/50 backdrop-blur-md rounded-full border border-white/10 px-4 py-2 w-64">
+                 <ZoomIn size={16} className="text-gray-300 shrink-0" />
+                 <input
+                   type="range"
+                   min={zoomRange.min}
+                   max={zoomRange.max}
+                   step={zoomRange.step}
+                   value={zoom}
+                   onChange={(e) => applyZoom(Number(e.target.value))}
+                   className="flex-1 accent-mask-cyan"
+                 />
+                 <span className="text-xs font-mono text-white w-10 text-right">{zoom.toFixed(1)}×</span>
+               </div>
+             )}
+
              {/* Branding Footer */}
              <div className="absolute bottom-8 z-20 opacity-70">
                 <p className="text-[10px] font-bold tracking-[0.2em] text-transparent bg-clip-text bg-mask-gradient-text uppercase">
@@ -463,6 +867,52 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
              </div>
         </div>
 
+        {/* Tap-to-focus ring */}
+        {focusPoint && (
+          <div
+            className="absolute z-20 w-16 h-16 -ml-8 -mt-8 rounded-full border-2 border-mask-lime pointer-events-none animate-fade-in"
+            style={{ left: focusPoint.x, top: focusPoint.y }}
+          />
+        )}
+
+        {/* Camera Settings */}
+        {showCameraSettings && hasPermission && (
+          <div className="absolute top-6 right-24 z-30 pointer-events-auto bg-black/70 backdrop-blur-md rounded-2xl border border-white/10 p-4 w-60 space-y-4 animate-fade-in">
+            <div>
+              <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400 block mb-2">Capture Resolution</span>
+              <div className="flex bg-dark-950 rounded-lg p-1 border border-gray-700">
+                {(Object.keys(RESOLUTIONS) as CaptureResolution[]).map(res => (
+                  <button
+                    key={res}
+                    onClick={() => updateScannerSettings({ resolution: res })}
+                    className={`flex-1 py-1.5 rounded-md text-xs font-bold transition-all ${scannerSettings.resolution === res ? 'bg-gray-700 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
+                  >
+                    {res.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-gray-500 mt-1">Cameras fall back to the closest size they support.</p>
+            </div>
+            <div>
+              <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400 block mb-2">Scan Area</span>
+              <div className="flex bg-dark-950 rounded-lg p-1 border border-gray-700">
+                {ROI_SIZES.map(size => (
+                  <button
+                    key={size}
+                    onClick={() => updateScannerSettings({ roiSize: size })}
+                    className={`flex-1 py-1.5 rounded-md text-[11px] font-bold transition-all ${scannerSettings.roiSize === size ? 'bg-gray-700 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
+                  >
+                    {size ? `${size}%` : 'Full'}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-gray-500 mt-1">
+                {scannerSettings.roiSize ? 'Only the box is decoded, at full resolution. Best for small or distant codes.' : 'The whole frame is decoded at reduced resolution.'}
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Camera Controls */}
         <div className="absolute top-6 right-6 z-20 pointer-events-auto flex flex-col gap-4">
           
@@ -474,6 +924,27 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
             <ImageIcon size={24} />
           </button>
 
+          {hasPermission && (
+            <button
+              onClick={() => setShowCameraSettings(!showCameraSettings)}
+              className={`p-3 backdrop-blur-md rounded-full transition-colors border border-white/10 ${showCameraSettings ? 'bg-white text-black' : 'bg-black/40 text-white hover:bg-black/60'}`}
+              title="Camera settings"
+            >
+              <SlidersHorizontal size={24} />
+            </button>
+          )}
+
+          {/* Session Mode Toggle */}
+          {hasPermission && !isSessionMode && (
+            <button
+              onClick={startSession}
+              className="p-3 bg-black/40 backdrop-blur-md rounded-full text-white hover:bg-black/60 transition-colors border border-white/10"
+              title="Start scanning session"
+            >
+              <Layers size={24} />
+            </button>
+          )}
+
           {hasPermission && (hasTorch || isFrontCamera) && (
              <button
                onClick={toggleTorch}
@@ -496,6 +967,97 @@ const Scanner: React.FC<ScannerProps> = ({ onScan, isActive }) => {
             </button>
           )}
         </div>
+
+        {isProcessingUpload && (
+          <div className="absolute top-32 z-30 bg-black/70 backdrop-blur-md text-white px-4 py-2 rounded-full text-sm font-medium shadow-lg animate-fade-in flex items-center gap-2">
+            <div className="w-4 h-4 border-2 border-mask-lime border-t-transparent rounded-full animate-spin"></div>
+            Looking for codes...
+          </div>
+        )}
+
+        {/* Upload Preview */}
+        {uploadPreview && (
+          <div className="absolute inset-0 z-40 bg-dark-950/95 backdrop-blur-sm flex flex-col animate-fade-in">
+            <div className="flex items-center justify-between p-4 border-b border-gray-800 shrink-0">
+              <div>
+                <h3 className="font-semibold text-lg text-transparent bg-clip-text bg-mask-gradient-text">{uploadPreview.codes.length} {uploadPreview.codes.length === 1 ? 'Code' : 'Codes'} Found</h3>
+                <p className="text-[11px] text-gray-400">{isSessionMode ? 'Added to the current session' : 'Saved to history'}</p>
+              </div>
+              <button
+                onClick={closeUploadPreview}
+                className="p-2 hover:bg-dark-800 rounded-full text-gray-400 hover:text-white transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+              <div className="relative w-full max-w-lg mx-auto rounded-xl overflow-hidden border border-gray-800">
+                <img src={uploadPreview.src} alt="Uploaded" className="w-full h-auto block" />
+                <svg
+                  viewBox={`0 0 ${uploadPreview.width} ${uploadPreview.height}`}
+                  className="absolute inset-0 w-full h-full pointer-events-none"
+                >
+                  <defs>
+                    <linearGradient id="upload-outline" x1="0" y1="0" x2="1" y2="1">
+                      <stop offset="0" stopColor="#22d3ee" />
+                      <stop offset="0.5" stopColor="#a3e635" />
+                      <stop offset="1" stopColor="#f97316" />
+                    </linearGradient>
+                  </defs>
+                  {uploadPreview.codes.map((code, i) => {
+                    const corners = detectionOutline(code.corners);
+                    const stroke = Math.max(3, uploadPreview.width / 250);
+                    return (
+                      <g key={i}>
+                        <polygon
+                          points={corners.map(p => `${p.x},${p.y}`).join(' ')}
+                          fill="rgba(163, 230, 53, 0.15)"
+                          stroke="url(#upload-outline)"
+                          strokeWidth={stroke}
+                          strokeLinejoin="round"
+                        />
+                        <circle cx={corners[0].x} cy={corners[0].y} r={stroke * 4} fill="#0a0a0a" stroke="#a3e635" strokeWidth={stroke / 2} />
+                        <text
+                          x={corners[0].x}
+                          y={corners[0].y}
+                          fill="#ffffff"
+                          fontSize={stroke * 4.5}
+                          fontWeight="bold"
+                          textAnchor="middle"
+                          dominantBaseline="central"
+                        >
+                          {i + 1}
+                        </text>
+                      </g>
+                    );
+                  })}
+                </svg>
+              </div>
+
+              <div className="max-w-lg mx-auto space-y-2">
+                {uploadPreview.codes.map((code, i) => (
+                  <div key={i} className="flex items-center gap-3 bg-dark-900 border border-gray-800 rounded-lg px-3 py-2">
+                    <span className="w-6 h-6 rounded-full bg-dark-800 text-mask-lime text-xs font-bold flex items-center justify-center shrink-0">{i + 1}</span>
+                    <p className="flex-1 text-xs font-mono text-gray-200 truncate">{code.data}</p>
+                    {code.symbology !== 'QR Code' && (
+                      <span className="text-[10px] uppercase font-bold text-mask-orange shrink-0">{code.symbology}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="p-4 border-t border-gray-800 shrink-0">
+              <button
+                onClick={closeUploadPreview}
+                className="w-full max-w-lg mx-auto bg-mask-gradient hover:opacity-90 text-white py-3 rounded-xl font-medium flex items-center justify-center gap-2 transition-colors"
+              >
+                <Check size={18} /> Done
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
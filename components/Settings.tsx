@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Sparkles, Check, AlertTriangle, Loader2, Eye, EyeOff, Save } from 'lucide-react';
+import { AiProviderId, AiSettings } from '../types';
+import { AI_PROVIDERS, getProvider, defaultSettingsFor, loadAiSettings, saveAiSettings, runAnalysis } from '../services/aiService';
+
+const TEST_CONTENT = 'https://example.com';
+
+const Settings: React.FC = () => {
+  const [settings, setSettings] = useState<AiSettings>(loadAiSettings);
+  const [showKey, setShowKey] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const provider = getProvider(settings.provider);
+
+  const update = (changes: Partial<AiSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    setMessage(null);
+  };
+
+  // Switching provider resets model and endpoint to that provider's defaults
+  const selectProvider = (id: AiProviderId) => {
+    if (id === settings.provider) return;
+    setSettings(defaultSettingsFor(id));
+    setMessage(null);
+  };
+
+  const handleSave = () => {
+    saveAiSettings(settings);
+    setMessage({ text: "Settings saved", isError: false });
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setMessage(null);
+    try {
+      const analysis = await runAnalysis(TEST_CONTENT, settings);
+      setMessage({ text: `Connected: "${analysis.summary}"`, isError: false });
+    } catch (e: any) {
+      setMessage({ text: e?.message || "Request failed", isError: true });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const inputClass = "w-full bg-dark-950 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-mask-cyan outline-none text-sm";
+
+  return (
+    <div className="h-full w-full overflow-y-auto p-4 pb-24 max-w-2xl mx-auto">
+      <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-mask-gradient-text mb-6 font-mono">Settings</h2>
+
+      <div className="bg-dark-800 rounded-xl p-5 border border-gray-700 space-y-5">
+        <div>
+          <h3 className="text-mask-lime font-medium flex items-center gap-2">
+            <Sparkles size={16} /> AI Analysis Provider
+          </h3>
+          <p className="text-xs text-gray-400 mt-1">Used by "Run AI Analysis" on scan results. Everything here is stored on this device only.</p>
+        </div>
+
+        <div className="flex bg-dark-950 rounded-lg p-1 border border-gray-700">
+          {AI_PROVIDERS.map(p => (
+            <button
+              key={p.id}
+              onClick={() => selectProvider(p.id)}
+              className={`flex-1 py-1.5 rounded-md text-xs font-bold transition-all ${settings.provider === p.id ? 'bg-gray-700 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+
+        {provider.defaultBaseUrl && (
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Endpoint</label>
+            <input
+              type="url"
+              value={settings.baseUrl}
+              onChange={(e) => update({ baseUrl: e.target.value })}
+              className={`${inputClass} font-mono`}
+              placeholder={provider.defaultBaseUrl}
+              spellCheck={false}
+            />
+            <p className="text-[10px] text-gray-500 mt-1">
+              {settings.provider === 'openai' ? 'Base URL; requests go to /chat/completions.' : 'Server root; requests go to /api/chat.'}
+            </p>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">Model</label>
+          <input
+            type="text"
+            value={settings.model}
+            onChange={(e) => update({ model: e.target.value })}
+            className={`${inputClass} font-mono`}
+            placeholder={provider.defaultModel}
+            spellCheck={false}
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-2 uppercase">
+            API Key{!provider.requiresKey(settings.baseUrl) && ' (optional)'}
+          </label>
+          <div className="relative">
+            <input
+              type={showKey ? 'text' : 'password'}
+              value={settings.apiKey}
+              onChange={(e) => update({ apiKey: e.target.value })}
+              className={`${inputClass} font-mono pr-10`}
+              autoComplete="off"
+              spellCheck={false}
+            />
+            <button
+              onClick={() => setShowKey(!showKey)}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-300"
+              title={showKey ? "Hide key" : "Show key"}
+            >
+              {showKey ? <EyeOff size={16} /> : <Eye size={16} />}
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <div className={`flex items-start gap-2 text-xs rounded-lg p-3 border break-words ${message.isError ? 'bg-red-500/10 border-red-500/30 text-red-300' : 'bg-mask-lime/10 border-mask-lime/30 text-mask-lime'}`}>
+            {message.isError ? <AlertTriangle size={14} className="shrink-0" /> : <Check size={14} className="shrink-0" />}
+            <span className="min-w-0">{message.text}</span>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={handleTest}
+            disabled={isTesting}
+            className="flex-1 bg-dark-950 hover:bg-dark-700 text-gray-200 py-3 rounded-xl text-sm font-medium border border-gray-700 flex items-center justify-center gap-2 disabled:opacity-50 transition-colors"
+          >
+            {isTesting ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />} Test Connection
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 bg-mask-gradient hover:opacity-90 text-white py-3 rounded-xl text-sm font-medium flex items-center justify-center gap-2 transition-colors"
+          >
+            <Save size={16} /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
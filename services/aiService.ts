@@ -0,0 +1,201 @@
+import { AiProviderId, AiSettings, GeminiAnalysis } from '../types';
+import { AnalysisProvider, ANALYSIS_SCHEMA, SCHEMA_INSTRUCTIONS, analysisPrompt, parseAnalysis } from './analysisProvider';
+import { geminiProvider } from './geminiService';
+import { getCachedAnalysis, cacheAnalysis } from './analysisCache';
+
+// Content analysis through whichever provider is picked on the Settings tab. The settings
+// (key included) stay in this browser's localStorage.
+
+const AI_SETTINGS_KEY = 'qr-ai-settings';
+
+const postJson = async (url: string, body: unknown, apiKey = '') => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+  return response.json();
+};
+
+const endpoint = (baseUrl: string, path: string) => `${baseUrl.trim().replace(/\/+$/, '')}${path}`;
+
+// Any /chat/completions endpoint: OpenAI, Azure-style gateways, vLLM, LM Studio, LiteLLM…
+const openAiProvider: AnalysisProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModel: 'gpt-4o-mini',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  // OpenAI itself always wants one; self-hosted gateways often run without
+  requiresKey: baseUrl => /^https?:\/\/api\.openai\.com(\/|$)/i.test(baseUrl.trim()),
+  analyze: async (content, { apiKey, model, baseUrl }) => {
+    const reply = await postJson(endpoint(baseUrl, '/chat/completions'), {
+      model,
+      messages: [
+        { role: 'system', content: SCHEMA_INSTRUCTIONS },
+        { role: 'user', content: analysisPrompt(content) },
+      ],
+      response_format: { type: 'json_object' },
+    }, apiKey);
+    const text = reply?.choices?.[0]?.message?.content;
+    if (!text) throw new Error("Empty response");
+    return parseAnalysis(text);
+  },
+};
+
+// Ollama's native chat API, which takes the schema itself as `format`
+const ollamaProvider: AnalysisProvider = {
+  id: 'ollama',
+  label: 'Ollama (local)',
+  defaultModel: 'llama3.2',
+  defaultBaseUrl: 'http://localhost:11434',
+  requiresKey: () => false,
+  analyze: async (content, { apiKey, model, baseUrl }) => {
+    const reply = await postJson(endpoint(baseUrl, '/api/chat'), {
+      model,
+      messages: [{ role: 'user', content: analysisPrompt(content) }],
+      format: ANALYSIS_SCHEMA,
+      stream: false,
+    }, apiKey);
+    const text = reply?.message?.content;
+    if (!text) throw new Error("Empty response");
+    return parseAnalysis(text);
+  },
+};
+
+export const AI_PROVIDERS: AnalysisProvider[] = [geminiProvider, openAiProvider, ollamaProvider];
+
+export const getProvider = (id: AiProviderId) => AI_PROVIDERS.find(p => p.id === id) || geminiProvider;
+
+export const defaultSettingsFor = (id: AiProviderId): AiSettings => {
+  const provider = getProvider(id);
+  return { provider: provider.id, model: provider.defaultModel, apiKey: '', baseUrl: provider.defaultBaseUrl };
+};
+
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(AI_SETTINGS_KEY) || 'null');
+    if (saved && AI_PROVIDERS.some(p => p.id === saved.provider)) {
+      return { ...defaultSettingsFor(saved.provider), ...saved };
+    }
+  } catch (e) {
+    console.warn("Ignoring unreadable AI settings", e);
+  }
+  return defaultSettingsFor('gemini');
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const isConfigured = (settings: AiSettings) => {
+  const provider = getProvider(settings.provider);
+  if (!settings.model.trim()) return false;
+  if (provider.requiresKey(settings.baseUrl) && !settings.apiKey.trim()) return false;
+  return !provider.defaultBaseUrl || !!settings.baseUrl.trim();
+};
+
+export const isAiAvailable = () => isConfigured(loadAiSettings());
+
+// Throws with the provider's error, for the Settings tab's connection test
+export const runAnalysis = (content: string, settings: AiSettings): Promise<GeminiAnalysis> => {
+  if (!isConfigured(settings)) return Promise.reject(new Error("Provider isn't fully configured"));
+  return getProvider(settings.provider).analyze(content, settings);
+};
+
+// The cached analysis if this model analysed the content before, otherwise the provider's answer.
+// Throws with the provider's error.
+const analyzeCached = async (content: string, settings: AiSettings) => {
+  const cached = await getCachedAnalysis(content, settings).catch(() => null);
+  if (cached) return cached;
+  const analysis = await runAnalysis(content, settings);
+  cacheAnalysis(content, settings, analysis).catch(e => console.warn("Could not cache analysis", e));
+  return analysis;
+};
+
+export const analyzeContent = async (content: string): Promise<GeminiAnalysis | null> => {
+  const settings = loadAiSettings();
+  try {
+    return await analyzeCached(content, settings);
+  } catch (error) {
+    console.error(`${getProvider(settings.provider).label} analysis failed:`, error);
+    return null;
+  }
+};
+
+/* ----------------------------- Batches ----------------------------- */
+
+export interface BatchProgress {
+  done: number;
+  failed: number; // Gave up after the last retry
+  total: number;
+}
+
+interface BatchOptions {
+  signal?: AbortSignal;
+  onResult: (content: string, analysis: GeminiAnalysis) => void;
+  onProgress: (progress: BatchProgress) => void;
+}
+
+// Requests in flight at once; hosted providers rate-limit bursts
+const BATCH_CONCURRENCY = 3;
+const BATCH_RETRIES = 3;
+const BACKOFF_BASE_MS = 1000;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Analyses each distinct content once, a few at a time, retrying failures with exponential
+// backoff (1s, 2s, 4s plus jitter). Stops picking up new work when the signal aborts.
+export const analyzeBatch = async (contents: string[], { signal, onResult, onProgress }: BatchOptions) => {
+  const settings = loadAiSettings();
+  const queue = Array.from(new Set(contents));
+  const progress: BatchProgress = { done: 0, failed: 0, total: queue.length };
+  onProgress({ ...progress });
+
+  const worker = async () => {
+    while (queue.length && !signal?.aborted) {
+      const content = queue.shift()!;
+      for (let attempt = 0; ; attempt++) {
+        try {
+          onResult(content, await analyzeCached(content, settings));
+          progress.done++;
+          break;
+        } catch (error) {
+          if (signal?.aborted) return;
+          if (attempt >= BATCH_RETRIES) {
+            console.error(`${getProvider(settings.provider).label} analysis failed:`, error);
+            progress.failed++;
+            break;
+          }
+          try {
+            await wait(BACKOFF_BASE_MS * 2 ** attempt + Math.random() * 250, signal);
+          } catch {
+            return;
+          }
+        }
+      }
+      onProgress({ ...progress });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, queue.length) }, worker));
+  return progress;
+};
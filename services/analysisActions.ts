@@ -0,0 +1,84 @@
+import { AnalysisAction } from '../types';
+import { buildEmailPayload, buildEventPayload, payloadToVcard, toIcsFile } from './contentTemplates';
+
+// Turns the AI's suggested actions into something the browser can do: a link to follow,
+// or a file to save. Copy actions are handled by the caller, which owns the clipboard feedback.
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// ISO 8601 -> the template's "YYYY-MM-DD" / "YYYY-MM-DDTHH:mm" local form. Times with a zone
+// are converted to the device's local time; times without one are kept as written.
+const toLocalInput = (value: string) => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  if (!/(Z|[+-]\d{2}:?\d{2})$/i.test(value)) return value.slice(0, 16);
+  const d = new Date(value);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+// Only web links; a model could be talked into suggesting javascript: or data: URLs
+const safeWebUrl = (url: string) => {
+  const candidate = /^www\./i.test(url) ? `https://${url}` : url;
+  try {
+    const parsed = new URL(candidate);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : null;
+  } catch {
+    return null;
+  }
+};
+
+// Where the action navigates, or null for actions that don't (or can't safely)
+export const actionHref = (action: AnalysisAction): string | null => {
+  switch (action.type) {
+    case 'open_url':
+      return safeWebUrl(action.url);
+    case 'web_search':
+      return `https://www.google.com/search?q=${encodeURIComponent(action.query)}`;
+    case 'compose_email':
+      return buildEmailPayload({ email: action.to, subject: action.subject || '', body: action.body || '' });
+    default:
+      return null;
+  }
+};
+
+// The file the action saves, for contact and calendar actions
+export const actionFile = (action: AnalysisAction): { blob: Blob; fileName: string } | null => {
+  if (action.type === 'add_contact') {
+    const parts = action.name.split(/\s+/);
+    const vcard = payloadToVcard({
+      type: 'contact',
+      format: 'vcard',
+      name: action.name,
+      firstName: parts.length > 1 ? parts.slice(0, -1).join(' ') : action.name,
+      lastName: parts.length > 1 ? parts[parts.length - 1] : '',
+      org: '',
+      title: '',
+      phones: action.phone ? [{ value: action.phone, label: '' }] : [],
+      emails: action.email ? [{ value: action.email, label: '' }] : [],
+      urls: [],
+      address: '',
+      postal: null,
+      note: '',
+      birthday: '',
+    });
+    return {
+      blob: new Blob([vcard], { type: 'text/vcard' }),
+      fileName: `${action.name.replace(/[^\w-]+/g, '_') || 'contact'}.vcf`,
+    };
+  }
+  if (action.type === 'create_event') {
+    const start = toLocalInput(action.start);
+    const event = buildEventPayload({
+      summary: action.title,
+      start,
+      end: action.end && !isNaN(Date.parse(action.end)) ? toLocalInput(action.end) : '',
+      allDay: !start.includes('T'),
+      location: action.location || '',
+      description: '',
+    });
+    return {
+      blob: new Blob([toIcsFile(event)], { type: 'text/calendar' }),
+      fileName: `${action.title.replace(/[^\w-]+/g, '_') || 'event'}.ics`,
+    };
+  }
+  return null;
+};
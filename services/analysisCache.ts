@@ -0,0 +1,28 @@
+import { AiSettings, GeminiAnalysis } from '../types';
+import { STORES, openDb, request, transactionDone } from './db';
+
+// AI analyses keyed by a SHA-256 of the provider, model and scanned content, so the same
+// payload is only sent to a model once, whichever scan it came from, and switching models
+// in Settings gets a fresh answer.
+
+export const contentHash = async (content: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const cacheKey = (content: string, { provider, model }: AiSettings) => contentHash(`${provider}\n${model}\n${content}`);
+
+export const getCachedAnalysis = async (content: string, settings: AiSettings): Promise<GeminiAnalysis | null> => {
+  const [db, hash] = await Promise.all([openDb(), cacheKey(content, settings)]);
+  const cached = await request(db.transaction(STORES.analyses, 'readonly').objectStore(STORES.analyses).get(hash));
+  // Analyses cached before actions were typed are asked for again
+  if (!cached || (cached as GeminiAnalysis).actions.some(a => typeof a === 'string')) return null;
+  return cached as GeminiAnalysis;
+};
+
+export const cacheAnalysis = async (content: string, settings: AiSettings, analysis: GeminiAnalysis) => {
+  const [db, hash] = await Promise.all([openDb(), cacheKey(content, settings)]);
+  const tx = db.transaction(STORES.analyses, 'readwrite');
+  tx.objectStore(STORES.analyses).put(analysis, hash);
+  await transactionDone(tx);
+};
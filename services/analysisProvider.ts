@@ -0,0 +1,107 @@
+import { AiSettings, AnalysisAction, GeminiAnalysis } from '../types';
+
+// What every AI backend implements. Providers throw on failure; aiService turns that into null.
+export interface AnalysisProvider {
+  id: AiSettings['provider'];
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl: string; // '' when the endpoint is fixed
+  requiresKey: (baseUrl: string) => boolean; // Whether requests to this endpoint need a key
+  analyze: (content: string, settings: AiSettings) => Promise<GeminiAnalysis>;
+}
+
+// Plain JSON Schema, so Gemini, OpenAI-style and Ollama endpoints can share it
+export const ANALYSIS_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: "A brief, 1-sentence summary of what this content is." },
+    safetyRating: { type: 'string', enum: ['safe', 'caution', 'unknown'], description: "Based on heuristics (e.g., suspicious URLs)." },
+    category: { type: 'string', description: "Category like 'Website', 'WiFi Config', 'Product ID', 'Plain Text', etc." },
+    actions: {
+      type: 'array',
+      description: "1-3 things the user can do with this content, each with the parameters its type needs.",
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['open_url', 'copy', 'add_contact', 'create_event', 'compose_email', 'web_search'] },
+          label: { type: 'string', description: "Short button text, e.g. 'Open Website', 'Copy Password'." },
+          url: { type: 'string', description: "open_url: the http(s) URL to open." },
+          value: { type: 'string', description: "copy: the exact text to copy, e.g. the WiFi password." },
+          name: { type: 'string', description: "add_contact: full name." },
+          phone: { type: 'string', description: "add_contact: phone number." },
+          email: { type: 'string', description: "add_contact: email address." },
+          title: { type: 'string', description: "create_event: event title." },
+          start: { type: 'string', description: "create_event: ISO 8601 date or date-time." },
+          end: { type: 'string', description: "create_event: ISO 8601 date or date-time." },
+          location: { type: 'string', description: "create_event: where it takes place." },
+          to: { type: 'string', description: "compose_email: recipient address." },
+          subject: { type: 'string', description: "compose_email: subject line." },
+          body: { type: 'string', description: "compose_email: message text." },
+          query: { type: 'string', description: "web_search: what to search for, e.g. a product name." },
+        },
+        required: ['type', 'label']
+      }
+    }
+  },
+  required: ['summary', 'safetyRating', 'category', 'actions']
+};
+
+export const analysisPrompt = (content: string) =>
+  `Analyze this QR code content: "${content}". Provide a safety assessment, a category, a very brief summary, and suggested user actions.`;
+
+// For endpoints that can't be held to a schema, the schema goes into the instructions instead
+export const SCHEMA_INSTRUCTIONS =
+  `Reply with a single JSON object and nothing else, matching this JSON Schema: ${JSON.stringify(ANALYSIS_SCHEMA)}`;
+
+const str = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+// Null for unknown types or when the parameter the action can't work without is missing
+const toAction = (value: unknown): AnalysisAction | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const raw = value as Record<string, unknown>;
+  const label = str(raw.label);
+  if (!label) return null;
+  switch (raw.type) {
+    case 'open_url': {
+      const url = str(raw.url);
+      return url ? { type: 'open_url', label, url } : null;
+    }
+    case 'copy': {
+      const value = str(raw.value);
+      return value ? { type: 'copy', label, value } : null;
+    }
+    case 'add_contact': {
+      const name = str(raw.name);
+      return name ? { type: 'add_contact', label, name, phone: str(raw.phone), email: str(raw.email) } : null;
+    }
+    case 'create_event': {
+      const title = str(raw.title);
+      const start = str(raw.start);
+      return title && start && !isNaN(Date.parse(start))
+        ? { type: 'create_event', label, title, start, end: str(raw.end), location: str(raw.location) }
+        : null;
+    }
+    case 'compose_email': {
+      const to = str(raw.to);
+      return to ? { type: 'compose_email', label, to, subject: str(raw.subject), body: str(raw.body) } : null;
+    }
+    case 'web_search': {
+      const query = str(raw.query);
+      return query ? { type: 'web_search', label, query } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Accepts the reply text of any provider; tolerates Markdown code fences around the JSON
+export const parseAnalysis = (text: string): GeminiAnalysis => {
+  const json = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  if (typeof json?.summary !== 'string') throw new Error("Reply has no summary");
+  return {
+    summary: json.summary,
+    safetyRating: ['safe', 'caution'].includes(json.safetyRating) ? json.safetyRating : 'unknown',
+    category: typeof json.category === 'string' ? json.category : 'General',
+    actions: Array.isArray(json.actions) ? json.actions.map(toAction).filter((a): a is AnalysisAction => a !== null) : [],
+  };
+};
@@ -0,0 +1,56 @@
+import { beforeAll, describe, it, expect } from 'vitest';
+import { decodeQR, decodeZxing } from './barcodeDecoder';
+import { encodeSymbol, pushBits } from './qrEncoder';
+import { PartialSequence, addSequencePart, assembleSequence, encodeStructuredAppend } from './structuredAppend';
+import { loadReaderWasm, renderSymbol as render } from './testImages';
+
+const invert = (image: ImageData): ImageData => ({
+  ...image,
+  data: image.data.map((value, i) => (i % 4 === 3 ? value : 255 - value)),
+});
+
+const byteSymbol = (text: string, mask?: number) =>
+  encodeSymbol(version => {
+    const bits: number[] = [];
+    const bytes = new TextEncoder().encode(text);
+    pushBits(bits, 0b0100, 4);
+    pushBits(bits, bytes.length, version <= 9 ? 8 : 16);
+    bytes.forEach(byte => pushBits(bits, byte, 8));
+    return bits;
+  }, 'M', { mask })!;
+
+const TEXT = 'The quick brown fox jumps over the lazy dog. '.repeat(4);
+
+beforeAll(loadReaderWasm);
+
+describe('decodeQR', () => {
+  it.each([0, 3, 6])('reads a plain QR code with mask %i', mask => {
+    expect(decodeQR(render(byteSymbol('hello', mask)))?.data).toBe('hello');
+  });
+
+  it('reads an inverted QR code', () => {
+    expect(decodeQR(invert(render(byteSymbol(TEXT))))?.data).toBe(TEXT);
+  });
+
+  it.each([2, 3, 4, 5])('leaves every part of a %i-part Structured Append set to zxing', count => {
+    const parts = encodeStructuredAppend(TEXT, count, 'M')!;
+    parts.forEach(part => {
+      expect(decodeQR(render(part))).toBeNull();
+      expect(decodeQR(invert(render(part)))).toBeNull();
+    });
+  });
+});
+
+describe('decodeZxing', () => {
+  it('reassembles a rendered Structured Append set', async () => {
+    const parts = encodeStructuredAppend(TEXT, 3, 'M')!;
+    let sequence: PartialSequence | null = null;
+    for (const part of parts) {
+      const image = render(part);
+      const code = decodeQR(image) ?? (await decodeZxing(image, true));
+      expect(code?.sequence).toBeDefined();
+      sequence = addSequencePart(sequence, code!.sequence!, code!.data);
+    }
+    expect(assembleSequence(sequence!)).toBe(TEXT);
+  });
+});
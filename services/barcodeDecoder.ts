@@ -0,0 +1,253 @@
+import jsQR, { type QRCode } from 'jsqr';
+import { prepareZXingModule, readBarcodes, type ReadResult } from 'zxing-wasm/reader';
+import readerWasmUrl from 'zxing-wasm/reader/zxing_reader.wasm?url';
+import { ErrorLevel, Symbology } from '../types';
+import { MASKS, formatBits } from './qrEncoder';
+import { SequencePart } from './structuredAppend';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface DecodedBarcode {
+  data: string;
+  symbology: Symbology;
+  corners: [Point, Point, Point, Point]; // TL, TR, BR, BL
+  sequence?: SequencePart; // Set when the code is one part of a Structured Append set
+}
+
+// zxing format names for the linear symbologies we read
+const LINEAR_FORMATS: Record<string, Symbology> = {
+  EAN13: 'EAN-13',
+  UPCA: 'UPC-A',
+  Code128: 'Code 128',
+  Code39: 'Code 39',
+};
+
+// zxing's QRCode format also finds the Micro QR and rMQR variants, reported under their own names
+const ZXING_FORMATS: Record<string, Symbology> = {
+  QRCode: 'QR Code',
+  MicroQRCode: 'Micro QR',
+  RMQRCode: 'rMQR',
+  ...LINEAR_FORMATS,
+};
+
+// Upper bound for codes pulled out of a single uploaded image
+const MAX_CODES_PER_IMAGE = 32;
+
+const fromZxing = (hit: ReadResult): DecodedBarcode => {
+  const { topLeft, topRight, bottomRight, bottomLeft } = hit.position;
+  return {
+    data: hit.text,
+    symbology: ZXING_FORMATS[hit.format],
+    corners: [topLeft, topRight, bottomRight, bottomLeft],
+    // For QR codes zxing reports the set's parity byte as the sequence id
+    ...(hit.format === 'QRCode' && hit.sequenceSize > 0
+      ? { sequence: { index: hit.sequenceIndex, total: hit.sequenceSize, parity: Number(hit.sequenceId) } }
+      : {}),
+  };
+};
+
+// Maps a point of the unit square onto the quadrilateral TL, TR, BR, BL
+const perspective = (p0: Point, p1: Point, p2: Point, p3: Point) => {
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+  let a13 = 0;
+  let a23 = 0;
+  if (dx3 || dy3) {
+    const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dy1 = p1.y - p2.y, dy2 = p3.y - p2.y;
+    const den = dx1 * dy2 - dx2 * dy1;
+    a13 = (dx3 * dy2 - dx2 * dy3) / den;
+    a23 = (dx1 * dy3 - dx3 * dy1) / den;
+  }
+  const a11 = p1.x - p0.x + a13 * p1.x, a21 = p3.x - p0.x + a23 * p3.x;
+  const a12 = p1.y - p0.y + a13 * p1.y, a22 = p3.y - p0.y + a23 * p3.y;
+  return (u: number, v: number): Point => {
+    const w = a13 * u + a23 * v + 1;
+    return { x: (a11 * u + a21 * v + p0.x) / w, y: (a12 * u + a22 * v + p0.y) / w };
+  };
+};
+
+// Both copies of the format information, bit 0 first, as [row, col] (size is the symbol width)
+const formatCells = (size: number): [number, number][][] => [
+  [[0, 8], [1, 8], [2, 8], [3, 8], [4, 8], [5, 8], [7, 8], [8, 8], [8, 7], [8, 5], [8, 4], [8, 3], [8, 2], [8, 1], [8, 0]],
+  Array.from({ length: 15 }, (_, i): [number, number] => (i < 8 ? [8, size - 1 - i] : [size - 15 + i, 8])),
+];
+
+const LEVELS: ErrorLevel[] = ['L', 'M', 'Q', 'H'];
+
+// jsQR skips mode indicators it doesn't know, so it reads a Structured Append part's header as
+// data and returns garbage. The first four data bits sit in the symbol's bottom-right corner:
+// sample them along jsQR's corners and unmask them to see whether the stream starts with 0011.
+const isStructuredAppend = (imageData: ImageData, code: QRCode) => {
+  const size = code.version * 4 + 17;
+  const { topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner } = code.location;
+  const project = perspective(topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner);
+  const luminance = (row: number, col: number) => {
+    const { x, y } = project((col + 0.5) / size, (row + 0.5) / size);
+    const px = Math.min(imageData.width - 1, Math.max(0, Math.floor(x)));
+    const py = Math.min(imageData.height - 1, Math.max(0, Math.floor(y)));
+    const i = (py * imageData.width + px) * 4;
+    return imageData.data[i] + imageData.data[i + 1] + imageData.data[i + 2];
+  };
+  // The top-left finder's centre is dark and the ring inside it light, which also holds for
+  // inverted codes
+  const dark = luminance(3, 3);
+  const light = luminance(1, 1);
+  const isDark = (row: number, col: number) => {
+    const value = luminance(row, col);
+    return Math.abs(value - dark) < Math.abs(value - light);
+  };
+
+  const read = formatCells(size).map(cells =>
+    cells.reduce((bits, [row, col], i) => bits | (isDark(row, col) ? 1 << i : 0), 0)
+  );
+  let mask = 0;
+  let best = Infinity;
+  LEVELS.forEach(level => {
+    for (let m = 0; m < 8; m++) {
+      const bits = formatBits(level, m);
+      read.forEach(copy => {
+        let distance = 0;
+        for (let diff = copy ^ bits; diff; diff &= diff - 1) distance++;
+        if (distance < best) {
+          best = distance;
+          mask = m;
+        }
+      });
+    }
+  });
+
+  const corner: [number, number][] = [[size - 1, size - 1], [size - 1, size - 2], [size - 2, size - 1], [size - 2, size - 2]];
+  const mode = corner.reduce((bits, [row, col]) => (bits << 1) | (isDark(row, col) !== MASKS[mask](row, col) ? 1 : 0), 0);
+  return mode === 0b0011;
+};
+
+export const decodeQR = (imageData: ImageData): DecodedBarcode | null => {
+  // Inversion attempts help with white-on-black QR codes
+  const code = jsQR(imageData.data, imageData.width, imageData.height, {
+    inversionAttempts: "attemptBoth",
+  });
+  // Structured Append parts are left to zxing, which reads their header
+  if (!code || !code.data || isStructuredAppend(imageData, code)) return null;
+
+  const { topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner } = code.location;
+  return {
+    data: code.data,
+    symbology: 'QR Code',
+    corners: [topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner],
+  };
+};
+
+// Serve the reader's WebAssembly from our own build rather than zxing-wasm's default CDN
+prepareZXingModule({
+  overrides: {
+    locateFile: (path, prefix) => (path.endsWith('.wasm') ? readerWasmUrl : prefix + path),
+  },
+});
+
+// 1D decoding runs in zxing-cpp (WebAssembly). The module is fetched lazily on first use,
+// so a failure to load only disables barcodes and never blocks QR scanning.
+// QR codes jsQR missed are picked up here too, along with what jsQR can't read at all:
+// Structured Append parts, Micro QR and rMQR.
+export const decodeZxing = async (imageData: ImageData, tryHarder = false): Promise<DecodedBarcode | null> => {
+  try {
+    const results = await readBarcodes(imageData, {
+      formats: ['QRCode', 'EAN13', 'UPCA', 'Code128', 'Code39'],
+      tryHarder,
+      tryRotate: tryHarder,
+      maxNumberOfSymbols: 1,
+    });
+
+    const hit = results.find(r => r.isValid && r.text && ZXING_FORMATS[r.format]);
+    return hit ? fromZxing(hit) : null;
+  } catch (e) {
+    console.warn("Barcode decoder unavailable", e);
+    return null;
+  }
+};
+
+// jsQR first (synchronous and cheap), then zxing
+export const decodeImage = async (imageData: ImageData): Promise<DecodedBarcode | null> =>
+  decodeQR(imageData) ?? decodeZxing(imageData, true);
+
+// A 1D hit is often reported as a single scan line; give it some height so the overlay is visible
+export const detectionOutline = (corners: DecodedBarcode['corners']): DecodedBarcode['corners'] => {
+  const [tl, tr, br, bl] = corners;
+  const height = Math.max(Math.hypot(bl.x - tl.x, bl.y - tl.y), Math.hypot(br.x - tr.x, br.y - tr.y));
+  const width = Math.hypot(tr.x - tl.x, tr.y - tl.y);
+  const minHeight = width * 0.25;
+  if (height >= minHeight || width === 0) return corners;
+
+  // Unit normal to the scan line
+  const nx = -(tr.y - tl.y) / width;
+  const ny = (tr.x - tl.x) / width;
+  const pad = (minHeight - height) / 2;
+  return [
+    { x: tl.x - nx * pad, y: tl.y - ny * pad },
+    { x: tr.x - nx * pad, y: tr.y - ny * pad },
+    { x: br.x + nx * pad, y: br.y + ny * pad },
+    { x: bl.x + nx * pad, y: bl.y + ny * pad },
+  ];
+};
+
+const centerOf = (corners: DecodedBarcode['corners']) => ({
+  x: corners.reduce((sum, p) => sum + p.x, 0) / 4,
+  y: corners.reduce((sum, p) => sum + p.y, 0) / 4,
+});
+
+const overlaps = (a: DecodedBarcode['corners'], b: DecodedBarcode['corners']) => {
+  const ca = centerOf(a);
+  const cb = centerOf(b);
+  return Math.hypot(ca.x - cb.x, ca.y - cb.y) < Math.hypot(a[2].x - a[0].x, a[2].y - a[0].y) / 2;
+};
+
+// Paints over a decoded code (grown a little to cover its quiet zone) so the next pass can't find it again
+const maskRegion = (ctx: CanvasRenderingContext2D, corners: DecodedBarcode['corners']) => {
+  const outline = detectionOutline(corners);
+  const { x: cx, y: cy } = centerOf(outline);
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  outline.forEach(p => ctx.lineTo(cx + (p.x - cx) * 1.2, cy + (p.y - cy) * 1.2));
+  ctx.closePath();
+  ctx.fill();
+};
+
+// Finds every code in a still image: one multi-symbol zxing pass, then jsQR repeatedly
+// with each hit masked out, which catches QR codes zxing skipped.
+export const decodeAll = async (imageData: ImageData): Promise<DecodedBarcode[]> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return [];
+  ctx.putImageData(imageData, 0, 0);
+
+  const found: DecodedBarcode[] = [];
+
+  try {
+    const results = await readBarcodes(imageData, {
+      formats: ['QRCode', 'EAN13', 'UPCA', 'Code128', 'Code39'],
+      tryHarder: true,
+      tryRotate: true,
+      maxNumberOfSymbols: MAX_CODES_PER_IMAGE,
+    });
+    results
+      .filter(r => r.isValid && r.text && ZXING_FORMATS[r.format])
+      .forEach(r => found.push(fromZxing(r)));
+  } catch (e) {
+    console.warn("Barcode decoder unavailable", e);
+  }
+  found.forEach(code => maskRegion(ctx, code.corners));
+
+  while (found.length < MAX_CODES_PER_IMAGE) {
+    const code = decodeQR(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    // Seeing the same code at the same spot again means the mask didn't take; stop rather than loop
+    if (!code || found.some(f => f.data === code.data && overlaps(f.corners, code.corners))) break;
+    found.push(code);
+    maskRegion(ctx, code.corners);
+  }
+
+  return found;
+};
@@ -0,0 +1,65 @@
+import { prepareZXingModule, writeBarcode } from 'zxing-wasm/writer';
+import writerWasmUrl from 'zxing-wasm/writer/zxing_writer.wasm?url';
+import { CodeFormat, ErrorLevel } from '../types';
+import { QRSymbol } from './qrEncoder';
+
+// Micro QR (ISO/IEC 18004) and rectangular Micro QR (rMQR, ISO/IEC 23941) for labels with no
+// room for a full QR code. The `qrcode` package can't make them, so zxing-cpp's writer
+// (WebAssembly, fetched on first use) encodes them.
+
+// Serve the writer's WebAssembly from our own build rather than zxing-wasm's default CDN
+prepareZXingModule({
+  overrides: {
+    locateFile: (path, prefix) => (path.endsWith('.wasm') ? writerWasmUrl : prefix + path),
+  },
+});
+
+export type CompactFormat = Exclude<CodeFormat, 'qr'>;
+
+export const CODE_FORMAT_LABELS: Record<CodeFormat, string> = {
+  qr: 'QR Code',
+  microqr: 'Micro QR',
+  rmqr: 'rMQR',
+};
+
+const WRITER_FORMATS = { microqr: 'MicroQRCode', rmqr: 'RMQRCode' } as const;
+
+const LEVELS: ErrorLevel[] = ['L', 'M', 'Q', 'H'];
+
+// Correction levels each format offers. Micro QR has no H; rMQR only M and H.
+export const FORMAT_LEVELS: Record<CodeFormat, ErrorLevel[]> = {
+  qr: LEVELS,
+  microqr: ['L', 'M', 'Q'],
+  rmqr: ['M', 'H'],
+};
+
+// The level the format uses for `level`: the next one up it offers, or its highest
+export const levelFor = (format: CodeFormat, level: ErrorLevel) => {
+  const offered = FORMAT_LEVELS[format];
+  return offered.find(l => LEVELS.indexOf(l) >= LEVELS.indexOf(level)) ?? offered[offered.length - 1];
+};
+
+// zxing reports e.g. "Error 562: Input length 40 too long (maximum 35) (retval: 5)"
+const cleanError = (error: string) =>
+  error.replace(/^Error \d+:\s*/, '').replace(/\s*\(retval: \d+\)$/, '') || 'Could not encode the content';
+
+// Encodes in the smallest symbol that holds `text`. Throws with zxing's reason when none does.
+export const encodeCompact = async (text: string, format: CompactFormat, level: ErrorLevel): Promise<QRSymbol> => {
+  const { symbol, error } = await writeBarcode(text, {
+    format: WRITER_FORMATS[format],
+    options: `ecLevel=${levelFor(format, level)}`,
+    scale: 1,
+    addQuietZones: false,
+  });
+  if (error || !symbol.width) throw new Error(cleanError(error));
+
+  // One byte per module, 0 for dark. Both formats have a single full finder pattern, top left;
+  // rMQR's smaller bottom-right one is drawn with the data modules.
+  const { width, height, data } = symbol;
+  return {
+    version: 0,
+    modules: { size: width, get: (row, col) => data[row * width + col] === 0 },
+    rows: height,
+    finders: [[0, 0]],
+  };
+};
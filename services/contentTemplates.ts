@@ -0,0 +1,619 @@
+// Payload builders for the Generator's content templates.
+// Shared by the single-code form and CSV batch generation.
+
+import {
+  QRContentType, WifiFields, EmailFields, VcardFields, GeneratorContent, ContactPayload, ContactEntry,
+  PostalAddress, MecardFields, PhoneFields, SmsFields, GeoFields, EventFields, CryptoFields, CryptoCurrency
+} from '../types';
+import { shiftDecimal } from './decimal';
+import { buildPaymentPayload, paymentFieldErrors } from './paymentCodes';
+
+// WIFI: values escape \ ; , : and " with a backslash
+const escapeWifi = (v: string) => v.replace(/([\\;,:"])/g, '\\$1');
+
+export const WIFI_EAP_METHODS = ['PEAP', 'TTLS', 'TLS', 'PWD', 'SIM', 'AKA', "AKA'"];
+export const WIFI_PHASE2_METHODS = ['MSCHAPV2', 'GTC', 'PAP', 'MSCHAP', 'NONE'];
+
+// Field order and names follow the ZXing WIFI: format, which WPA3's QR spec extends
+export const buildWifiPayload = ({ ssid, password, encryption, hidden, eapMethod, identity, anonymousIdentity, phase2 }: WifiFields) => {
+  if (!ssid) return '';
+  // An SSID of hex digits only would be read as raw bytes; quotes mark it as text
+  const ssidValue = /^([0-9a-f]{2})+$/i.test(ssid) ? `"${ssid}"` : escapeWifi(ssid);
+  const isEap = encryption === 'WPA2-EAP';
+  const fields = [
+    `T:${encryption}`,
+    `S:${ssidValue}`,
+    encryption !== 'nopass' && password && `P:${escapeWifi(password)}`,
+    isEap && eapMethod && `E:${escapeWifi(eapMethod)}`,
+    isEap && anonymousIdentity && `A:${escapeWifi(anonymousIdentity)}`,
+    isEap && identity && `I:${escapeWifi(identity)}`,
+    isEap && phase2 && `PH2:${escapeWifi(phase2)}`,
+    hidden && 'H:true',
+  ];
+  return `WIFI:${fields.filter(Boolean).join(';')};;`;
+};
+
+export const buildEmailPayload = ({ email, subject, body }: EmailFields) => {
+  if (!email) return '';
+  return `mailto:${email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+};
+
+// vCard and iCalendar TEXT values share the same escapes (RFC 6350 3.4, RFC 5545 3.3.11)
+const escapeText = (v: string) => v.replace(/\\/g, '\\\\').replace(/([;,])/g, '\\$1').replace(/\r?\n/g, '\\n');
+
+const utf8Length = (ch: string) => {
+  const code = ch.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 6350 3.2).
+// Breaks fall between characters, never inside a multi-byte one.
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const ch of line) {
+    const bytes = utf8Length(ch);
+    if (size + bytes > 75) {
+      parts.push(current);
+      current = ' ';
+      size = 1;
+    }
+    current += ch;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+};
+
+const vcardLines = (lines: (string | false)[]) => lines.filter(Boolean).map(foldLine).join('\r\n');
+
+const typeParam = (label: string) => {
+  const type = label.toLowerCase().replace(/[^\w,-]/g, '');
+  return type ? `;TYPE=${type}` : '';
+};
+
+const adrValue = ({ street, city, region, postalCode, country }: PostalAddress) =>
+  `ADR:;;${[street, city, region, postalCode, country].map(v => escapeText(v.trim())).join(';')}`;
+
+const hasAddress = (address: PostalAddress) => Object.values(address).some(v => v.trim());
+
+export const formatAddress = ({ street, city, region, postalCode, country }: PostalAddress) =>
+  [street, [postalCode, city].filter(Boolean).join(' '), region, country].map(v => v.trim()).filter(Boolean).join(', ');
+
+export const VCARD_PHONE_TYPES = ['cell', 'work', 'home', 'fax'];
+export const VCARD_EMAIL_TYPES = ['work', 'home'];
+
+const filled = (entries: ContactEntry[]) => entries.filter(e => e.value.trim());
+
+export const buildVcardPayload = (fields: VcardFields) => {
+  const { version, firstName, lastName, org, title, url, address, note, birthday } = fields;
+  const phones = filled(fields.phones);
+  const emails = filled(fields.emails);
+  if (!firstName.trim() && !lastName.trim() && !phones.length && !emails.length) return '';
+  const isV4 = version === '4.0';
+  // FN is required; a card with no name is filed under its organisation or first contact detail
+  const formattedName = [firstName, lastName].map(v => v.trim()).filter(Boolean).join(' ')
+    || org.trim() || emails[0]?.value.trim() || phones[0].value.trim();
+  return vcardLines([
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    `N:${escapeText(lastName.trim())};${escapeText(firstName.trim())};;;`,
+    `FN:${escapeText(formattedName)}`,
+    org.trim() && `ORG:${escapeText(org.trim())}`,
+    title.trim() && `TITLE:${escapeText(title.trim())}`,
+    // 4.0 prefers phone numbers as tel: URIs
+    ...phones.map(p => (isV4
+      ? `TEL;VALUE=uri${typeParam(p.label)}:tel:${cleanPhone(p.value)}`
+      : `TEL${typeParam(p.label)}:${p.value.trim()}`)),
+    ...emails.map(e => `EMAIL${typeParam(e.label)}:${e.value.trim()}`),
+    url.trim() && `URL:${url.trim()}`,
+    hasAddress(address) && adrValue(address),
+    note.trim() && `NOTE:${escapeText(note.trim())}`,
+    // 3.0 examples use the extended date form, 4.0 the basic one
+    birthday && `BDAY:${isV4 ? birthday.replace(/-/g, '') : birthday}`,
+    'END:VCARD',
+  ]);
+};
+
+// The MECARD template's fields for a vCard: MECARD has no organisation, title or address parts,
+// and only the first phone and email are kept, which is what makes it compact
+export const vcardToMecard = ({ firstName, lastName, phones, emails, url, address, note }: VcardFields): MecardFields => ({
+  firstName,
+  lastName,
+  phone: filled(phones)[0]?.value || '',
+  email: filled(emails)[0]?.value || '',
+  url,
+  address: formatAddress(address),
+  note,
+});
+
+// "cell, work" -> "cell", for the form's type pickers
+const pickType = (label: string, types: string[]) => label.split(/,\s*/).find(t => types.includes(t)) || '';
+
+// A scanned or imported contact as the vCard template's fields
+export const vcardFromContact = (contact: ContactPayload, version: VcardFields['version']): VcardFields => {
+  const birthday = contact.birthday.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  return {
+    version,
+    firstName: contact.firstName || (!contact.lastName ? contact.name : ''),
+    lastName: contact.lastName,
+    org: contact.org,
+    title: contact.title,
+    phones: contact.phones.map(p => ({ value: p.value, label: pickType(p.label, VCARD_PHONE_TYPES) })),
+    emails: contact.emails.map(e => ({ value: e.value, label: pickType(e.label, VCARD_EMAIL_TYPES) })),
+    url: contact.urls[0] || '',
+    address: contact.postal || { ...EMPTY_CONTENT.vcard.address, street: contact.address },
+    note: contact.note,
+    birthday: birthday ? `${birthday[1]}-${birthday[2]}-${birthday[3]}` : '',
+  };
+};
+
+// Contact from any scanned format as a vCard, for saving to the address book
+export const payloadToVcard = (contact: ContactPayload) =>
+  vcardLines([
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `N:${escapeText(contact.lastName)};${escapeText(contact.firstName)};;;`,
+    `FN:${escapeText(contact.name || [contact.firstName, contact.lastName].filter(Boolean).join(' '))}`,
+    contact.org && `ORG:${escapeText(contact.org)}`,
+    contact.title && `TITLE:${escapeText(contact.title)}`,
+    ...contact.phones.map(p => `TEL${typeParam(p.label)}:${p.value}`),
+    ...contact.emails.map(e => `EMAIL${typeParam(e.label)}:${e.value}`),
+    ...contact.urls.map(u => `URL:${u}`),
+    contact.postal ? adrValue(contact.postal) : contact.address && `ADR:;;${escapeText(contact.address)};;;;`,
+    contact.note && `NOTE:${escapeText(contact.note)}`,
+    contact.birthday && `BDAY:${contact.birthday}`,
+    'END:VCARD',
+  ]);
+
+// MECARD values escape the field separators with a backslash
+const escapeMecard = (v: string) => v.replace(/([\\;,])/g, '\\$1');
+
+export const buildMecardPayload = ({ firstName, lastName, phone, email, url, address, note }: MecardFields) => {
+  if (!firstName && !lastName && !email && !phone) return '';
+  // N is "last,first"; the comma between them is a separator, so it stays unescaped
+  const name = firstName || lastName ? `N:${escapeMecard(lastName)}${firstName ? `,${escapeMecard(firstName)}` : ''}` : '';
+  const fields = Object.entries({ TEL: phone, EMAIL: email, URL: url, ADR: address, NOTE: note })
+    .filter(([, v]) => v)
+    .map(([k, v]) => `${k}:${escapeMecard(v)}`);
+  return `MECARD:${[name, ...fields].filter(Boolean).join(';')};;`;
+};
+
+// Dialable form: separators dropped, a leading '+' kept
+const cleanPhone = (phone: string) => phone.trim().replace(/[\s().-]/g, '');
+
+export const buildPhonePayload = ({ phone }: PhoneFields) => (phone.trim() ? `tel:${cleanPhone(phone)}` : '');
+
+export const buildSmsPayload = ({ phone, message }: SmsFields) => (phone.trim() ? `SMSTO:${cleanPhone(phone)}:${message}` : '');
+
+export const buildGeoPayload = ({ latitude, longitude }: GeoFields) =>
+  latitude.trim() && longitude.trim() ? `geo:${Number(latitude)},${Number(longitude)}` : '';
+
+// "2026-03-01T09:30" -> "20260301T093000" (floating local time); "2026-03-01" -> "20260301"
+const toICalDate = (value: string, allDay: boolean) => {
+  const [date, time = '00:00'] = value.split('T');
+  const day = date.replace(/-/g, '');
+  return allDay ? day : `${day}T${time.replace(/:/g, '').padEnd(6, '0').slice(0, 6)}`;
+};
+
+// DTEND of an all-day event is exclusive, so the inclusive last day moves on by one
+const nextDay = (date: string) => {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  const next = new Date(y, m - 1, d + 1);
+  return `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}-${String(next.getDate()).padStart(2, '0')}`;
+};
+
+export const buildEventPayload = ({ summary, start, end, allDay, location, description }: EventFields) => {
+  if (!summary.trim() || !start) return '';
+  const dateLine = (name: string, value: string) =>
+    allDay ? `${name};VALUE=DATE:${toICalDate(value, true)}` : `${name}:${toICalDate(value, false)}`;
+  const lines = [
+    'BEGIN:VEVENT',
+    `SUMMARY:${escapeText(summary)}`,
+    dateLine('DTSTART', start),
+    end && dateLine('DTEND', allDay ? nextDay(end) : end),
+    location && `LOCATION:${escapeText(location)}`,
+    description && `DESCRIPTION:${escapeText(description)}`,
+    'END:VEVENT',
+  ];
+  return lines.filter(Boolean).join('\n');
+};
+
+// Scanned events are often a bare VEVENT; calendar apps want the VCALENDAR wrapper and CRLF lines
+export const toIcsFile = (data: string) => {
+  const body = data.trim().replace(/\r?\n/g, '\r\n');
+  return /^BEGIN:VCALENDAR/i.test(body)
+    ? body
+    : `BEGIN:VCALENDAR\r\nVERSION:2.0\r\nPRODID:-//Mask Intelligence//QR Scanner//EN\r\n${body}\r\nEND:VCALENDAR\r\n`;
+};
+
+// Decimal places each currency's URI amount may carry
+const CRYPTO_DECIMALS: Record<CryptoCurrency, number> = { bitcoin: 8, ethereum: 18 };
+
+// bitcoin: amounts are in BTC (BIP 21); ethereum: values are in wei (EIP 681)
+export const buildCryptoPayload = ({ currency, address, amount, label, message }: CryptoFields) => {
+  if (!address.trim()) return '';
+  const params: string[] = [];
+  if (amount.trim()) {
+    params.push(currency === 'bitcoin' ? `amount=${shiftDecimal(amount, 0)}` : `value=${shiftDecimal(amount, 18)}`);
+  }
+  if (label) params.push(`label=${encodeURIComponent(label)}`);
+  if (message) params.push(`message=${encodeURIComponent(message)}`);
+  return `${currency}:${address.trim()}${params.length ? `?${params.join('&')}` : ''}`;
+};
+
+// --- Validation ---
+
+// Field key -> message for the fields that would produce a broken payload
+export type FieldErrors = Record<string, string>;
+
+const PHONE_RE = /^\+?\d{3,15}$/;
+const BITCOIN_RE = /^(?:[13][a-km-zA-HJ-NP-Z1-9]{25,34}|bc1[ac-hj-np-z02-9]{11,71})$/i;
+const ETHEREUM_RE = /^0x[0-9a-f]{40}$/i;
+
+const checkPhone = (phone: string, errors: FieldErrors, key = 'phone') => {
+  if (phone.trim() && !PHONE_RE.test(cleanPhone(phone))) errors[key] = 'Enter digits with an optional leading +';
+};
+
+const checkCoordinate = (value: string, limit: number, key: string, errors: FieldErrors) => {
+  if (!value.trim()) return;
+  const n = Number(value);
+  if (!Number.isFinite(n) || Math.abs(n) > limit) errors[key] = `Enter a number between -${limit} and ${limit}`;
+};
+
+export const validateContent = (content: GeneratorContent): FieldErrors => {
+  const errors: FieldErrors = {};
+  switch (content.contentType) {
+    case 'wifi': {
+      const { encryption, password, identity } = content.wifi;
+      if (encryption === 'WPA2-EAP' && !identity.trim()) errors.identity = 'Enterprise networks need an identity';
+      if ((encryption === 'WPA' || encryption === 'SAE') && password && password.length < 8) {
+        errors.password = 'WPA passwords are at least 8 characters';
+      }
+      break;
+    }
+    case 'phone':
+    case 'sms':
+      checkPhone(content[content.contentType].phone, errors);
+      break;
+    case 'vcard':
+      // Keyed by row, e.g. "phone-1"
+      content.vcard.phones.forEach((p, i) => checkPhone(p.value, errors, `phone-${i}`));
+      break;
+    case 'mecard':
+      checkPhone(content.mecard.phone, errors);
+      break;
+    case 'geo':
+      checkCoordinate(content.geo.latitude, 90, 'latitude', errors);
+      checkCoordinate(content.geo.longitude, 180, 'longitude', errors);
+      if (!errors.latitude && !errors.longitude && !content.geo.latitude.trim() !== !content.geo.longitude.trim()) {
+        errors[content.geo.latitude.trim() ? 'longitude' : 'latitude'] = 'Both coordinates are needed';
+      }
+      break;
+    case 'event': {
+      const { summary, start, end, allDay } = content.event;
+      if ((start || end) && !summary.trim()) errors.summary = 'Give the event a title';
+      if (!start && (summary.trim() || end)) errors.start = 'Choose a start';
+      // Same-format ISO values compare correctly as strings
+      const length = allDay ? 10 : 16;
+      if (start && end && end.slice(0, length) < start.slice(0, length)) errors.end = 'Ends before it starts';
+      break;
+    }
+    case 'crypto': {
+      const { currency, address, amount } = content.crypto;
+      const valid = currency === 'bitcoin' ? BITCOIN_RE : ETHEREUM_RE;
+      if (address.trim() && !valid.test(address.trim())) {
+        errors.address = currency === 'bitcoin' ? 'Not a Bitcoin address' : 'Expected 0x followed by 40 hex digits';
+      }
+      if (amount.trim()) {
+        const decimals = CRYPTO_DECIMALS[currency];
+        if (!/^\d+(\.\d+)?$/.test(amount.trim()) || !/[1-9]/.test(amount)) errors.amount = 'Enter a positive amount';
+        else if ((amount.trim().split('.')[1] || '').length > decimals) errors.amount = `At most ${decimals} decimal places`;
+      }
+      break;
+    }
+    case 'payment':
+      Object.assign(errors, paymentFieldErrors(content.payment));
+      break;
+  }
+  return errors;
+};
+
+// Flat field list per template, used to map CSV columns onto a template
+export const TEMPLATE_FIELDS: Record<QRContentType, { key: string; label: string }[]> = {
+  text: [{ key: 'text', label: 'Text' }],
+  url: [{ key: 'url', label: 'URL' }],
+  wifi: [
+    { key: 'ssid', label: 'SSID' },
+    { key: 'password', label: 'Password' },
+    { key: 'encryption', label: 'Encryption' },
+    { key: 'hidden', label: 'Hidden' },
+    { key: 'eapMethod', label: 'EAP Method' },
+    { key: 'identity', label: 'Identity' },
+    { key: 'anonymousIdentity', label: 'Anonymous Identity' },
+    { key: 'phase2', label: 'Phase 2' },
+  ],
+  email: [
+    { key: 'email', label: 'Email' },
+    { key: 'subject', label: 'Subject' },
+    { key: 'body', label: 'Body' },
+  ],
+  vcard: [
+    { key: 'firstName', label: 'First Name' },
+    { key: 'lastName', label: 'Last Name' },
+    { key: 'phone', label: 'Mobile' },
+    { key: 'workPhone', label: 'Work Phone' },
+    { key: 'email', label: 'Email' },
+    { key: 'workEmail', label: 'Work Email' },
+    { key: 'org', label: 'Organization' },
+    { key: 'title', label: 'Title' },
+    { key: 'url', label: 'URL' },
+    { key: 'street', label: 'Street' },
+    { key: 'city', label: 'City' },
+    { key: 'region', label: 'Region' },
+    { key: 'postalCode', label: 'Postal Code' },
+    { key: 'country', label: 'Country' },
+    { key: 'note', label: 'Note' },
+    { key: 'birthday', label: 'Birthday' },
+  ],
+  mecard: [
+    { key: 'firstName', label: 'First Name' },
+    { key: 'lastName', label: 'Last Name' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'email', label: 'Email' },
+    { key: 'url', label: 'URL' },
+    { key: 'address', label: 'Address' },
+    { key: 'note', label: 'Note' },
+  ],
+  phone: [{ key: 'phone', label: 'Phone' }],
+  sms: [
+    { key: 'phone', label: 'Phone' },
+    { key: 'message', label: 'Message' },
+  ],
+  geo: [
+    { key: 'latitude', label: 'Latitude' },
+    { key: 'longitude', label: 'Longitude' },
+  ],
+  event: [
+    { key: 'summary', label: 'Title' },
+    { key: 'start', label: 'Start' },
+    { key: 'end', label: 'End' },
+    { key: 'allDay', label: 'All Day' },
+    { key: 'location', label: 'Location' },
+    { key: 'description', label: 'Description' },
+  ],
+  crypto: [
+    { key: 'currency', label: 'Currency' },
+    { key: 'address', label: 'Address' },
+    { key: 'amount', label: 'Amount' },
+    { key: 'label', label: 'Label' },
+    { key: 'message', label: 'Message' },
+  ],
+  payment: [
+    { key: 'scheme', label: 'Scheme' },
+    { key: 'payee', label: 'Payee' },
+    { key: 'amount', label: 'Amount' },
+    { key: 'reference', label: 'Reference' },
+    { key: 'iban', label: 'IBAN' },
+    { key: 'bic', label: 'BIC' },
+    { key: 'merchantAccountId', label: 'Network ID' },
+    { key: 'merchantAccount', label: 'Merchant Account' },
+    { key: 'merchantCity', label: 'City' },
+    { key: 'countryCode', label: 'Country' },
+    { key: 'currency', label: 'Currency' },
+    { key: 'category', label: 'Category Code' },
+  ],
+};
+
+const parseEncryption = (value: string): WifiFields['encryption'] => {
+  const v = value.trim().toUpperCase();
+  if (v === 'WEP') return 'WEP';
+  if (v === 'NOPASS' || v === 'NONE' || v === 'OPEN') return 'nopass';
+  if (v === 'SAE' || v === 'WPA3') return 'SAE';
+  if (v === 'WPA2-EAP' || v === 'EAP' || v === 'ENTERPRISE') return 'WPA2-EAP';
+  return 'WPA';
+};
+
+const parseBoolean = (value: string) => ['true', 'yes', '1', 'y'].includes(value.trim().toLowerCase());
+
+const parseCurrency = (value: string): CryptoCurrency => (/^(eth|ethereum)$/i.test(value.trim()) ? 'ethereum' : 'bitcoin');
+
+// Spreadsheet dates ("2026-03-01 09:30") into the form's ISO-like value
+const parseDateValue = (value: string) => value.trim().replace(' ', 'T').slice(0, 16);
+
+export const EMPTY_CONTENT: GeneratorContent = {
+  contentType: 'text',
+  text: '',
+  url: '',
+  wifi: {
+    ssid: '', password: '', encryption: 'WPA', hidden: false,
+    eapMethod: 'PEAP', identity: '', anonymousIdentity: '', phase2: 'MSCHAPV2',
+  },
+  email: { email: '', subject: '', body: '' },
+  vcard: {
+    version: '3.0', firstName: '', lastName: '', org: '', title: '',
+    phones: [{ value: '', label: 'cell' }], emails: [{ value: '', label: '' }], url: '',
+    address: { street: '', city: '', region: '', postalCode: '', country: '' }, note: '', birthday: '',
+  },
+  mecard: { firstName: '', lastName: '', phone: '', email: '', url: '', address: '', note: '' },
+  phone: { phone: '' },
+  sms: { phone: '', message: '' },
+  geo: { latitude: '', longitude: '' },
+  event: { summary: '', start: '', end: '', allDay: false, location: '', description: '' },
+  crypto: { currency: 'bitcoin', address: '', amount: '', label: '', message: '' },
+  payment: {
+    scheme: 'epc', payee: '', amount: '', reference: '', iban: '', bic: '',
+    merchantAccountId: '', merchantAccount: '', merchantCity: '', countryCode: '', currency: 'EUR', category: '0000',
+  },
+};
+
+// Content saved by an older version in the current shape: each template gains the fields added
+// since, and vCards saved with one phone and one email get them as lists
+export const restoreContent = (saved: Partial<GeneratorContent>): GeneratorContent => {
+  const content = { ...EMPTY_CONTENT, ...saved };
+  (Object.keys(EMPTY_CONTENT) as (keyof GeneratorContent)[]).forEach(key => {
+    const empty = EMPTY_CONTENT[key];
+    if (typeof empty === 'object') content[key] = { ...empty, ...(saved[key] as object) } as never;
+  });
+  const legacyVcard = saved.vcard as (Partial<VcardFields> & { phone?: string; email?: string }) | undefined;
+  if (legacyVcard && !legacyVcard.phones) {
+    content.vcard.phones = [{ value: legacyVcard.phone || '', label: 'cell' }];
+    content.vcard.emails = [{ value: legacyVcard.email || '', label: '' }];
+  }
+  return content;
+};
+
+// The payload for the active template, or '' while a field is invalid
+export const buildContentPayload = (content: GeneratorContent) => {
+  if (Object.keys(validateContent(content)).length) return '';
+  switch (content.contentType) {
+    case 'text':
+      return content.text;
+    case 'url':
+      return content.url;
+    case 'wifi':
+      return buildWifiPayload(content.wifi);
+    case 'email':
+      return buildEmailPayload(content.email);
+    case 'vcard':
+      return buildVcardPayload(content.vcard);
+    case 'mecard':
+      return buildMecardPayload(content.mecard);
+    case 'phone':
+      return buildPhonePayload(content.phone);
+    case 'sms':
+      return buildSmsPayload(content.sms);
+    case 'geo':
+      return buildGeoPayload(content.geo);
+    case 'event':
+      return buildEventPayload(content.event);
+    case 'crypto':
+      return buildCryptoPayload(content.crypto);
+    case 'payment':
+      return buildPaymentPayload(content.payment);
+  }
+};
+
+// Fills a template from loosely-typed values (e.g. one CSV row)
+export const contentFromValues = (type: QRContentType, values: Record<string, string>): GeneratorContent => {
+  const get = (key: string) => values[key] ?? '';
+
+  switch (type) {
+    case 'text':
+      return { ...EMPTY_CONTENT, contentType: type, text: get('text') };
+    case 'url':
+      return { ...EMPTY_CONTENT, contentType: type, url: get('url').trim() };
+    case 'wifi':
+      return {
+        ...EMPTY_CONTENT,
+        contentType: type,
+        wifi: {
+          ssid: get('ssid'),
+          password: get('password'),
+          encryption: parseEncryption(get('encryption')),
+          hidden: parseBoolean(get('hidden')),
+          eapMethod: get('eapMethod').trim().toUpperCase() || EMPTY_CONTENT.wifi.eapMethod,
+          identity: get('identity'),
+          anonymousIdentity: get('anonymousIdentity'),
+          phase2: get('phase2').trim().toUpperCase() || EMPTY_CONTENT.wifi.phase2,
+        },
+      };
+    case 'email':
+      return { ...EMPTY_CONTENT, contentType: type, email: { email: get('email').trim(), subject: get('subject'), body: get('body') } };
+    case 'vcard':
+      return {
+        ...EMPTY_CONTENT,
+        contentType: type,
+        vcard: {
+          version: '3.0',
+          firstName: get('firstName'),
+          lastName: get('lastName'),
+          org: get('org'),
+          title: get('title'),
+          phones: [{ value: get('phone'), label: 'cell' }, { value: get('workPhone'), label: 'work' }].filter(p => p.value.trim()),
+          emails: [{ value: get('email').trim(), label: '' }, { value: get('workEmail').trim(), label: 'work' }].filter(e => e.value),
+          url: get('url').trim(),
+          address: {
+            street: get('street'),
+            city: get('city'),
+            region: get('region'),
+            postalCode: get('postalCode'),
+            country: get('country'),
+          },
+          note: get('note'),
+          birthday: parseDateValue(get('birthday')).slice(0, 10),
+        },
+      };
+    case 'mecard':
+      return {
+        ...EMPTY_CONTENT,
+        contentType: type,
+        mecard: {
+          firstName: get('firstName'),
+          lastName: get('lastName'),
+          phone: get('phone'),
+          email: get('email').trim(),
+          url: get('url').trim(),
+          address: get('address'),
+          note: get('note'),
+        },
+      };
+    case 'phone':
+      return { ...EMPTY_CONTENT, contentType: type, phone: { phone: get('phone') } };
+    case 'sms':
+      return { ...EMPTY_CONTENT, contentType: type, sms: { phone: get('phone'), message: get('message') } };
+    case 'geo':
+      return { ...EMPTY_CONTENT, contentType: type, geo: { latitude: get('latitude').trim(), longitude: get('longitude').trim() } };
+    case 'event': {
+      const allDay = parseBoolean(get('allDay'));
+      const date = (value: string) => (allDay ? parseDateValue(value).slice(0, 10) : parseDateValue(value));
+      return {
+        ...EMPTY_CONTENT,
+        contentType: type,
+        event: {
+          summary: get('summary'),
+          start: date(get('start')),
+          end: date(get('end')),
+          allDay,
+          location: get('location'),
+          description: get('description'),
+        },
+      };
+    }
+    case 'crypto':
+      return {
+        ...EMPTY_CONTENT,
+        contentType: type,
+        crypto: {
+          currency: parseCurrency(get('currency')),
+          address: get('address').trim(),
+          amount: get('amount').trim(),
+          label: get('label'),
+          message: get('message'),
+        },
+      };
+    case 'payment':
+      return {
+        ...EMPTY_CONTENT,
+        contentType: type,
+        payment: {
+          scheme: /^emv/i.test(get('scheme').trim()) ? 'emv' : 'epc',
+          payee: get('payee').trim(),
+          amount: get('amount').trim(),
+          reference: get('reference').trim(),
+          iban: get('iban').trim(),
+          bic: get('bic').trim(),
+          merchantAccountId: get('merchantAccountId').trim(),
+          merchantAccount: get('merchantAccount').trim(),
+          merchantCity: get('merchantCity').trim(),
+          countryCode: get('countryCode').trim(),
+          currency: get('currency').trim().toUpperCase() || EMPTY_CONTENT.payment.currency,
+          category: get('category').trim() || EMPTY_CONTENT.payment.category,
+        },
+      };
+  }
+};
+
+export const buildPayload = (type: QRContentType, values: Record<string, string>) =>
+  buildContentPayload(contentFromValues(type, values));
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('quotes cells with delimiters, quotes and line breaks', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'two\nlines', null, 3]])).toBe('"a,b","say ""hi""","two\nlines",,3');
+  });
+
+  it.each([
+    ['=HYPERLINK("http://evil.example","click")', `"'=HYPERLINK(""http://evil.example"",""click"")"`],
+    ['+1+1', "'+1+1"],
+    ['-2+3', "'-2+3"],
+    ['@SUM(A1:A2)', "'@SUM(A1:A2)"],
+    ['\t=1+1', "'\t=1+1"],
+    ['\r=1+1', `"'\r=1+1"`],
+  ])('guards formula text %j', (cell, expected) => {
+    expect(toCsv([[cell]])).toBe(expected);
+  });
+
+  it('leaves numbers and ordinary text alone', () => {
+    expect(toCsv([[-5, 'a=b', 'user@example.com']])).toBe('-5,a=b,user@example.com');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['data', 'note'], ['=1+1', 'a, "b"']];
+    expect(parseCsv(toCsv(rows))).toEqual([['data', 'note'], ["'=1+1", 'a, "b"']]);
+  });
+});
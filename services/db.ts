@@ -0,0 +1,45 @@
+// The app's IndexedDB database and small promise wrappers around its request API.
+// Object stores are created here so every version bump lives in one place.
+
+const DB_NAME = 'qr-history';
+const DB_VERSION = 3;
+
+export const STORES = {
+  scans: 'scans',
+  generated: 'generated',
+  images: 'images',
+  presets: 'presets', // Added in version 2
+  analyses: 'analyses', // Added in version 3, keyed by content hash
+} as const;
+
+export const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = () => {
+  dbPromise ||= (() => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      [STORES.scans, STORES.generated, STORES.presets].forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+      });
+      [STORES.images, STORES.analyses].forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+      });
+    };
+    return request(req);
+  })();
+  return dbPromise;
+};
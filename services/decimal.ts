@@ -0,0 +1,33 @@
+// Exact decimal scaling on strings, for amounts that must not pass through floating point
+// (e.g. ether <-> wei, 18 places).
+
+const DECIMAL_RE = /^(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+// Moves the decimal point `places` to the right (left when negative). Accepts plain and
+// exponent notation ("1.5", "2.014e18") and returns a plain decimal, or null if not a number.
+export const shiftDecimal = (value: string, places: number): string | null => {
+  const m = value.trim().match(DECIMAL_RE);
+  if (!m || (!m[1] && !m[2])) return null;
+
+  const [, whole = '', fraction = '', exponent = '0'] = m;
+  const all = whole + fraction;
+  if (!/[1-9]/.test(all)) return '0';
+  const point = whole.length + Number(exponent) + places; // Index of the point within `all`
+
+  let intPart: string;
+  let fracPart: string;
+  if (point <= 0) {
+    intPart = '0';
+    fracPart = '0'.repeat(-point) + all;
+  } else if (point >= all.length) {
+    intPart = all + '0'.repeat(point - all.length);
+    fracPart = '';
+  } else {
+    intPart = all.slice(0, point);
+    fracPart = all.slice(point);
+  }
+
+  intPart = intPart.replace(/^0+/, '') || '0';
+  fracPart = fracPart.replace(/0+$/, '');
+  return fracPart ? `${intPart}.${fracPart}` : intPart;
+};
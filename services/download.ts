@@ -0,0 +1,24 @@
+// Triggers a browser download for a data URL, object URL or Blob
+export const downloadUrl = (href: string, filename: string) => {
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = href;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  // Give the browser time to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Raw bytes of a base64 data URL, e.g. a canvas PNG for a ZIP entry
+export const dataUrlToBytes = (dataUrl: string) => {
+  const binary = atob(dataUrl.split(',')[1] || '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
@@ -0,0 +1,123 @@
+import { ScanResult, GeneratedQR } from '../types';
+import { toCsv } from './csv';
+import { loadImage } from './historyStore';
+import { parsePayload } from './payloadParser';
+
+// JSON backups carry a format marker and version. Items are written and read back as
+// whole objects, so fields added to ScanResult/GeneratedQR later survive a round trip
+// through an older build.
+
+const BACKUP_FORMAT = 'qr-history-backup';
+export const BACKUP_VERSION = 1;
+
+export interface HistoryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  scans: ScanResult[];
+  generated: GeneratedQR[];
+}
+
+// Images are lazily loaded, so pull any that aren't in memory from the store
+export const createBackup = async (scans: ScanResult[], generated: GeneratedQR[]): Promise<HistoryBackup> => {
+  const withScanImages = await Promise.all(scans.map(async ({ aiLoading, ...item }) => {
+    const originalImage = item.originalImage || (await loadImage('scans', item.id)) || undefined;
+    return { ...item, originalImage };
+  }));
+  const withGeneratedImages = await Promise.all(generated.map(async item => {
+    const base64 = item.base64 || (await loadImage('generated', item.id)) || undefined;
+    return { ...item, base64 };
+  }));
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    scans: withScanImages,
+    generated: withGeneratedImages,
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Entries need the fields every history item has; the rest is taken as it was exported
+const isHistoryItem = (value: unknown): value is Pick<ScanResult, 'id' | 'data' | 'timestamp'> =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.data === 'string' && typeof value.timestamp === 'number';
+
+const historyItems = (value: unknown) => (Array.isArray(value) ? value.filter(isHistoryItem) : []);
+
+export const parseBackup = (text: string): { scans: ScanResult[]; generated: GeneratedQR[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT || typeof parsed.version !== 'number') {
+    throw new Error("Not a QR history backup");
+  }
+
+  const scans: ScanResult[] = historyItems(parsed.scans).map(entry => {
+    const { aiLoading, ...item } = entry as ScanResult;
+    return { ...item, type: item.type || parsePayload(item.data).type };
+  });
+  const generated = historyItems(parsed.generated) as GeneratedQR[];
+
+  return { scans, generated };
+};
+
+// Adds incoming items whose id isn't present yet. For ids on both sides the local item
+// wins, but it picks up fields it lacks and the union of both tag lists.
+export const mergeById = <T extends { id: string; timestamp: number; tags?: string[] }>(existing: T[], incoming: T[]) => {
+  const byId = new Map(existing.map(item => [item.id, item]));
+  let added = 0;
+
+  incoming.forEach(item => {
+    const local = byId.get(item.id);
+    if (!local) {
+      byId.set(item.id, item);
+      added++;
+      return;
+    }
+    const tags = [...new Set([...(local.tags || []), ...(item.tags || [])])];
+    const hasNewFields = Object.keys(item).some(key => !(key in local));
+    const hasNewTags = tags.length !== (local.tags?.length || 0);
+    // Keep the same object when nothing changes so it isn't written back to the store
+    if (hasNewFields || hasNewTags) byId.set(item.id, { ...item, ...local, ...(hasNewTags ? { tags } : {}) });
+  });
+
+  return {
+    items: [...byId.values()].sort((a, b) => b.timestamp - a.timestamp),
+    added,
+  };
+};
+
+export const scansToCsv = (scans: ScanResult[]) => toCsv([
+  ['id', 'timestamp', 'type', 'symbology', 'data', 'ai_summary', 'ai_category', 'ai_safety', 'tags', 'notes', 'session_id'],
+  ...scans.map(s => [
+    s.id,
+    new Date(s.timestamp).toISOString(),
+    s.type,
+    s.symbology || 'QR Code',
+    s.data,
+    s.aiSummary,
+    s.aiAnalysis?.category,
+    s.aiAnalysis?.safetyRating,
+    s.tags?.join(' '),
+    s.notes,
+    s.sessionId,
+  ]),
+]);
+
+export const generatedToCsv = (generated: GeneratedQR[]) => toCsv([
+  ['id', 'timestamp', 'type', 'data', 'tags', 'notes'],
+  ...generated.map(g => [
+    g.id,
+    new Date(g.timestamp).toISOString(),
+    parsePayload(g.data).type,
+    g.data,
+    g.tags?.join(' '),
+    g.notes,
+  ]),
+]);
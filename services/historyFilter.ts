@@ -0,0 +1,61 @@
+import { ScanResult, GeneratedQR, PayloadType } from '../types';
+
+export interface HistoryFilter {
+  query: string;
+  type: PayloadType | 'all';
+  from: string; // yyyy-mm-dd from a date input, inclusive; '' leaves the range open
+  to: string;
+  tag: string;
+}
+
+export const EMPTY_FILTER: HistoryFilter = { query: '', type: 'all', from: '', to: '', tag: '' };
+
+export const TYPE_LABELS: Record<PayloadType, string> = {
+  url: 'URL',
+  text: 'Text',
+  wifi: 'WiFi',
+  email: 'Email',
+  contact: 'Contact',
+  phone: 'Phone',
+  sms: 'SMS',
+  geo: 'Location',
+  event: 'Event',
+  crypto: 'Crypto',
+  payment: 'Payment',
+};
+
+export const isFilterActive = (filter: HistoryFilter) =>
+  filter.query.trim() !== '' || filter.type !== 'all' || filter.from !== '' || filter.to !== '' || filter.tag !== '';
+
+// Tags are compared case-insensitively and shown without a leading '#'
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase();
+
+export const collectTags = (items: (ScanResult | GeneratedQR)[]) => {
+  const tags = new Set<string>();
+  items.forEach(item => item.tags?.forEach(tag => tags.add(tag)));
+  return [...tags].sort();
+};
+
+// `type` is passed in because generated items don't store one; callers parse and cache it
+export const matchesFilter = (
+  item: ScanResult | GeneratedQR,
+  type: ScanResult['type'],
+  filter: HistoryFilter
+) => {
+  if (filter.type !== 'all' && type !== filter.type) return false;
+  if (filter.tag && !item.tags?.includes(filter.tag)) return false;
+  if (filter.from && item.timestamp < new Date(`${filter.from}T00:00:00`).getTime()) return false;
+  if (filter.to && item.timestamp > new Date(`${filter.to}T23:59:59.999`).getTime()) return false;
+
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return true;
+
+  // Every term has to appear somewhere in the searchable text
+  const haystack = [
+    item.data,
+    'aiSummary' in item ? item.aiSummary : '',
+    item.notes,
+    item.tags?.join(' '),
+  ].filter(Boolean).join('\n').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
@@ -0,0 +1,110 @@
+import { ScanResult, GeneratedQR } from '../types';
+import { STORES, openDb as openDatabase, request, transactionDone } from './db';
+
+// IndexedDB persistence for both histories. Items and their images live in separate
+// object stores so the lists load quickly and an image is only read when it is shown.
+
+export type HistoryKind = 'scans' | 'generated';
+
+interface HistoryItems {
+  scans: ScanResult;
+  generated: GeneratedQR;
+}
+
+const IMAGE_STORE = STORES.images;
+
+const IMAGE_FIELD: Record<HistoryKind, string> = {
+  scans: 'originalImage',
+  generated: 'base64',
+};
+
+// Where history lived before IndexedDB
+const LEGACY_KEYS: Record<HistoryKind, string> = {
+  scans: 'qr-scans',
+  generated: 'qr-gen',
+};
+
+const imageKey = (kind: HistoryKind, id: string) => `${kind}:${id}`;
+
+// Separates the heavy data URL from the rest of the item
+const splitImage = (kind: HistoryKind, item: ScanResult | GeneratedQR) => {
+  const record: Record<string, unknown> = { ...item };
+  const image = record[IMAGE_FIELD[kind]] as string | undefined;
+  delete record[IMAGE_FIELD[kind]];
+  return { record, image };
+};
+
+const writeItems = (kind: HistoryKind, tx: IDBTransaction, items: (ScanResult | GeneratedQR)[]) => {
+  const records = tx.objectStore(kind);
+  const images = tx.objectStore(IMAGE_STORE);
+  items.forEach(item => {
+    const { record, image } = splitImage(kind, item);
+    records.put(record);
+    if (image) images.put(image, imageKey(kind, item.id));
+  });
+};
+
+// Moves localStorage history into the database, then drops the old keys
+const migrateLegacy = async (db: IDBDatabase) => {
+  for (const kind of Object.keys(LEGACY_KEYS) as HistoryKind[]) {
+    const raw = localStorage.getItem(LEGACY_KEYS[kind]);
+    if (raw === null) continue;
+
+    let items: (ScanResult | GeneratedQR)[] = [];
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) items = parsed.filter(i => i && typeof i.id === 'string');
+    } catch (e) {
+      console.warn(`Discarding unreadable ${LEGACY_KEYS[kind]}`, e);
+    }
+
+    const tx = db.transaction([kind, IMAGE_STORE], 'readwrite');
+    writeItems(kind, tx, items);
+    await transactionDone(tx);
+    localStorage.removeItem(LEGACY_KEYS[kind]);
+  }
+};
+
+let migration: Promise<IDBDatabase> | null = null;
+
+// Opens the database, importing any localStorage history first
+const openDb = () => {
+  migration ||= openDatabase().then(async db => {
+    await migrateLegacy(db);
+    return db;
+  });
+  return migration;
+};
+
+// Items come back newest first and without their images
+export const loadHistory = async <K extends HistoryKind>(kind: K): Promise<HistoryItems[K][]> => {
+  const db = await openDb();
+  const items = await request(db.transaction(kind, 'readonly').objectStore(kind).getAll());
+  return (items as HistoryItems[K][]).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const loadImage = async (kind: HistoryKind, id: string): Promise<string | null> => {
+  const db = await openDb();
+  const image = await request(db.transaction(IMAGE_STORE, 'readonly').objectStore(IMAGE_STORE).get(imageKey(kind, id)));
+  return typeof image === 'string' ? image : null;
+};
+
+// Writes the difference between two snapshots of a history list. Items are compared by
+// reference, so only new or replaced items are written. An item without its image in
+// memory (loaded lazily) keeps the stored one.
+export const persistChanges = async <K extends HistoryKind>(kind: K, before: HistoryItems[K][], after: HistoryItems[K][]) => {
+  const previous = new Map(before.map(item => [item.id, item]));
+  const current = new Set(after.map(item => item.id));
+  const changed = after.filter(item => previous.get(item.id) !== item);
+  const removed = before.filter(item => !current.has(item.id));
+  if (!changed.length && !removed.length) return;
+
+  const db = await openDb();
+  const tx = db.transaction([kind, IMAGE_STORE], 'readwrite');
+  writeItems(kind, tx, changed);
+  removed.forEach(item => {
+    tx.objectStore(kind).delete(item.id);
+    tx.objectStore(IMAGE_STORE).delete(imageKey(kind, item.id));
+  });
+  await transactionDone(tx);
+};
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { parsePayload } from './payloadParser';
+
+const cases: [string, string, object][] = [
+  // WIFI
+  ['wifi with escapes', 'WIFI:T:WPA;S:Cafe\\;Bar\\:2;P:pa\\;ss\\:word;;', { type: 'wifi', ssid: 'Cafe;Bar:2', password: 'pa;ss:word', encryption: 'WPA' }],
+  ['wifi hidden network', 'WIFI:T:WPA;S:Office;P:secret;H:true;;', { type: 'wifi', ssid: 'Office', hidden: true }],
+  ['wifi visible network', 'WIFI:T:WPA;S:Office;P:secret;H:false;;', { type: 'wifi', hidden: false }],
+  ['wifi quoted hex ssid', 'WIFI:T:WPA;S:"414243";P:"secret";;', { type: 'wifi', ssid: '414243', password: 'secret' }],
+  ['wifi open network', 'WIFI:T:nopass;S:Guest;;', { type: 'wifi', ssid: 'Guest', encryption: '' }],
+
+  // Email
+  ['matmsg', 'MATMSG:TO:ann@example.com;SUB:Hello;BODY:See you\\; soon;;', { type: 'email', format: 'matmsg', to: 'ann@example.com', subject: 'Hello', body: 'See you; soon' }],
+  ['mailto with subject and body', 'mailto:ann@example.com?subject=Quarterly%20report&body=Hi+Ann', { type: 'email', format: 'mailto', to: 'ann@example.com', subject: 'Quarterly report', body: 'Hi Ann' }],
+  ['bare address', 'ann@example.com', { type: 'email', format: 'address', to: 'ann@example.com' }],
+
+  // Contacts
+  ['mecard', 'MECARD:N:Doe,John;TEL:+15551234;EMAIL:john@example.com;ADR:1 Main St\\, Springfield;;', {
+    type: 'contact', format: 'mecard', name: 'John Doe', firstName: 'John', lastName: 'Doe',
+    phones: [{ value: '+15551234', label: '' }], emails: [{ value: 'john@example.com', label: '' }], address: '1 Main St, Springfield',
+  }],
+  ['vcard with folding and escapes', [
+    'BEGIN:VCARD', 'VERSION:3.0', 'N:Doe;Jane;;;', 'FN:Jane Doe',
+    'ORG:Acme\\, Inc.', 'TEL;TYPE=CELL:+15550001', 'NOTE:First line\\nsecond line that is folded',
+    '  across two lines', 'ADR;TYPE=work:;;1 Main St;Springfield;IL;62701;USA', 'END:VCARD',
+  ].join('\r\n'), {
+    type: 'contact', format: 'vcard', name: 'Jane Doe', firstName: 'Jane', lastName: 'Doe', org: 'Acme, Inc.',
+    phones: [{ value: '+15550001', label: 'cell' }],
+    note: 'First line\nsecond line that is folded across two lines',
+    postal: { street: '1 Main St', city: 'Springfield', region: 'IL', postalCode: '62701', country: 'USA' },
+  }],
+
+  // Events
+  ['vevent', [
+    'BEGIN:VCALENDAR', 'BEGIN:VEVENT', 'SUMMARY:Team sync\\, weekly', 'DTSTART:20250131T093000Z',
+    'DTEND:20250131T100000Z', 'LOCATION:Room 4', 'END:VEVENT', 'END:VCALENDAR',
+  ].join('\n'), {
+    type: 'event', summary: 'Team sync, weekly', start: Date.UTC(2025, 0, 31, 9, 30), end: Date.UTC(2025, 0, 31, 10), allDay: false, location: 'Room 4',
+  }],
+  ['all-day vevent', 'BEGIN:VEVENT\nSUMMARY:Holiday\nDTSTART:20250704\nEND:VEVENT', { type: 'event', summary: 'Holiday', allDay: true }],
+
+  // Phone, SMS, geo
+  ['tel', 'tel:+1-555-0100', { type: 'phone', number: '+1-555-0100' }],
+  ['smsto', 'SMSTO:+15550100:Running late', { type: 'sms', number: '+15550100', message: 'Running late' }],
+  ['sms with body', 'sms:+15550100?body=Running%20late', { type: 'sms', number: '+15550100', message: 'Running late' }],
+  ['geo', 'geo:48.8584,2.2945,35?q=Eiffel+Tower', { type: 'geo', latitude: 48.8584, longitude: 2.2945, altitude: 35, query: 'Eiffel Tower' }],
+
+  // Plain text
+  ['text with @ is not email', 'Meet @ the cafe at 5, ask for ann@example.com', { type: 'text' }],
+  ['handle is not email', '@someone', { type: 'text' }],
+];
+
+describe('parsePayload', () => {
+  it.each(cases)('%s', (_, raw, expected) => {
+    expect(parsePayload(raw)).toMatchObject(expected);
+  });
+
+  it('rejects geo coordinates out of range', () => {
+    expect(parsePayload('geo:91,0').type).toBe('text');
+  });
+});
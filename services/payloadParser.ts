@@ -0,0 +1,395 @@
+import {
+  ParsedPayload, WifiPayload, EmailPayload, ContactPayload, SmsPayload, GeoPayload, EventPayload, CryptoPayload, CryptoCurrency
+} from '../types';
+import { shiftDecimal } from './decimal';
+import { parsePaymentCode } from './paymentCodes';
+
+// Turns raw scanned text into a typed payload. Recognised formats:
+// URL, WIFI:, mailto:, MATMSG:, BEGIN:VCARD, MECARD:, tel:, sms:/SMSTO:, geo:, BEGIN:VEVENT,
+// bitcoin:, ethereum:, EPC069-12 SEPA transfers and EMVCo merchant codes. Anything else is plain text.
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const startsWithCI = (s: string, prefix: string) => s.slice(0, prefix.length).toUpperCase() === prefix.toUpperCase();
+
+const decode = (s: string) => {
+  try {
+    return decodeURIComponent(s);
+  } catch {
+    return s;
+  }
+};
+
+// Query values may use '+' for spaces; addresses and phone numbers must keep theirs
+const decodeQuery = (s: string) => decode(s.replace(/\+/g, '%20'));
+
+// --- "KEY:value;KEY:value;;" formats (WIFI, MECARD, MATMSG) ---
+
+// Splits on unescaped ';' and removes the backslash escapes (\; \, \: \\ \"), or keeps
+// them for values that are split further
+const parseFieldList = (body: string, keepEscapes = false): [string, string][] => {
+  const fields: [string, string][] = [];
+  let key = '';
+  let value = '';
+  let inValue = false;
+
+  const flush = () => {
+    if (inValue || key) fields.push([key.trim().toUpperCase(), value]);
+    key = '';
+    value = '';
+    inValue = false;
+  };
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === '\\' && i + 1 < body.length) {
+      const next = body[++i];
+      if (inValue) value += keepEscapes ? ch + next : next;
+      else key += next;
+    } else if (ch === ';') {
+      flush();
+    } else if (ch === ':' && !inValue) {
+      inValue = true;
+    } else if (inValue) {
+      value += ch;
+    } else {
+      key += ch;
+    }
+  }
+  flush();
+  return fields;
+};
+
+const fieldMap = (fields: [string, string][]) => {
+  const map: Record<string, string[]> = {};
+  fields.forEach(([k, v]) => (map[k] ||= []).push(v));
+  return map;
+};
+
+// Some generators wrap the SSID or password in double quotes
+const unquote = (s: string) => (s.length >= 2 && s.startsWith('"') && s.endsWith('"') ? s.slice(1, -1) : s);
+
+const parseWifi = (data: string): WifiPayload => {
+  const f = fieldMap(parseFieldList(data.slice(5)));
+  const encryption = (f.T?.[0] || '').trim();
+  return {
+    type: 'wifi',
+    ssid: unquote(f.S?.[0] || ''),
+    password: unquote(f.P?.[0] || ''),
+    encryption: encryption.toLowerCase() === 'nopass' ? '' : encryption,
+    hidden: (f.H?.[0] || '').trim().toLowerCase() === 'true',
+    eapMethod: (f.E?.[0] || '').trim(),
+    identity: f.I?.[0] || '',
+    anonymousIdentity: f.A?.[0] || '',
+    phase2: (f.PH2?.[0] || '').trim(),
+  };
+};
+
+const emptyEmail = (format: EmailPayload['format']): EmailPayload => ({
+  type: 'email', format, to: '', cc: '', bcc: '', subject: '', body: '',
+});
+
+const parseMatmsg = (data: string): EmailPayload => {
+  const f = fieldMap(parseFieldList(data.slice(7)));
+  return {
+    ...emptyEmail('matmsg'),
+    to: f.TO?.[0] || '',
+    subject: f.SUB?.[0] || '',
+    body: f.BODY?.[0] || '',
+  };
+};
+
+const parseMailto = (data: string): EmailPayload => {
+  const [address, query = ''] = data.slice(7).split('?', 2);
+  const result = { ...emptyEmail('mailto'), to: decode(address) };
+  query.split('&').forEach(pair => {
+    const [k, v = ''] = pair.split('=', 2);
+    const key = k.toLowerCase();
+    if (key === 'subject' || key === 'body' || key === 'cc' || key === 'bcc') result[key] = decodeQuery(v);
+    else if (key === 'to' && v) result.to = [result.to, decodeQuery(v)].filter(Boolean).join(',');
+  });
+  return result;
+};
+
+const emptyContact = (format: ContactPayload['format']): ContactPayload => ({
+  type: 'contact', format, name: '', firstName: '', lastName: '', org: '', title: '',
+  phones: [], emails: [], urls: [], address: '', postal: null, note: '', birthday: '',
+});
+
+const unescapeField = (s: string) => s.replace(/\\(.)/g, '$1');
+
+const parseMecard = (data: string): ContactPayload => {
+  const fields = parseFieldList(data.slice(7), true);
+  // N is "last,first", so only an unescaped comma separates the two
+  const rawName = fields.find(([k]) => k === 'N')?.[1] || '';
+  const [lastName = '', firstName = ''] = rawName.split(/(?<!\\),/).map(s => unescapeField(s).trim());
+  const f = fieldMap(fields.map(([k, v]): [string, string] => [k, unescapeField(v)]));
+  return {
+    ...emptyContact('mecard'),
+    name: [firstName, lastName].filter(Boolean).join(' '),
+    firstName,
+    lastName,
+    org: f.ORG?.[0] || '',
+    title: f.TITLE?.[0] || '',
+    phones: (f.TEL || []).filter(Boolean).map(value => ({ value, label: '' })),
+    emails: (f.EMAIL || []).filter(Boolean).map(value => ({ value, label: '' })),
+    urls: (f.URL || []).filter(Boolean),
+    address: f.ADR?.[0] || '',
+    note: f.NOTE?.[0] || '',
+    birthday: f.BDAY?.[0] || '',
+  };
+};
+
+// --- Line based formats (vCard, iCalendar) ---
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// RFC 6350 / 5545 content lines: unfolds continuation lines and splits "GROUP.NAME;PARAM=x:value"
+const parseContentLines = (data: string): ContentLine[] =>
+  data
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.includes(':'))
+    .map(line => {
+      const colon = line.indexOf(':');
+      const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+      const params: Record<string, string> = {};
+      rawParams.forEach(p => {
+        const [k, v = ''] = p.split('=', 2);
+        // vCard 2.1 allows bare types, e.g. "TEL;CELL:"
+        if (v) params[k.toUpperCase()] = v.replace(/"/g, '');
+        else params.TYPE = params.TYPE ? `${params.TYPE},${k}` : k;
+      });
+      return {
+        name: rawName.replace(/^.*\./, '').toUpperCase(),
+        params,
+        value: line.slice(colon + 1),
+      };
+    });
+
+const unescapeText = (s: string) => s.replace(/\\([nN,;:\\])/g, (_, c) => (c === 'n' || c === 'N' ? '\n' : c));
+
+// Splits a structured value on unescaped ';' before unescaping each component
+const splitComponents = (s: string) => s.split(/(?<!\\);/).map(unescapeText);
+
+const typeLabel = (params: Record<string, string>) =>
+  (params.TYPE || '')
+    .split(',')
+    .map(t => t.trim().toLowerCase())
+    .filter(t => t && t !== 'pref' && t !== 'internet' && t !== 'voice')
+    .join(', ');
+
+const parseVcard = (data: string): ContactPayload => {
+  const result = emptyContact('vcard');
+  let formattedName = '';
+
+  parseContentLines(data).forEach(({ name, params, value }) => {
+    switch (name) {
+      case 'FN':
+        formattedName = unescapeText(value);
+        break;
+      case 'N': {
+        const [last = '', first = ''] = splitComponents(value);
+        result.lastName = last;
+        result.firstName = first;
+        break;
+      }
+      case 'ORG':
+        result.org = splitComponents(value).filter(Boolean).join(', ');
+        break;
+      case 'TITLE':
+        result.title = unescapeText(value);
+        break;
+      case 'TEL':
+        result.phones.push({ value: value.replace(/^tel:/i, ''), label: typeLabel(params) });
+        break;
+      case 'EMAIL':
+        result.emails.push({ value: unescapeText(value), label: typeLabel(params) });
+        break;
+      case 'URL':
+        result.urls.push(value);
+        break;
+      case 'ADR':
+        if (!result.address) {
+          const parts = splitComponents(value).map(s => s.trim());
+          const [, extended = '', street = '', city = '', region = '', postalCode = '', country = ''] = parts;
+          result.address = parts.filter(Boolean).join(', ');
+          result.postal = { street: [extended, street].filter(Boolean).join(', '), city, region, postalCode, country };
+        }
+        break;
+      case 'NOTE':
+        result.note = unescapeText(value);
+        break;
+      case 'BDAY':
+        result.birthday = value;
+        break;
+    }
+  });
+
+  result.name = formattedName || [result.firstName, result.lastName].filter(Boolean).join(' ');
+  return result;
+};
+
+// The first card of a .vcf file, which may hold several
+export const parseVcfFile = (text: string): ContactPayload | null => {
+  const card = text.match(/BEGIN:VCARD[\s\S]*?END:VCARD/i);
+  return card ? parseVcard(card[0]) : null;
+};
+
+// iCalendar DATE or DATE-TIME ("20250131", "20250131T093000", "20250131T093000Z")
+const parseICalDate = (value: string): { time?: number; allDay: boolean } => {
+  const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return { allDay: false };
+  const [, y, mo, d, h, mi, s, z] = m;
+  if (h === undefined) return { time: new Date(+y, +mo - 1, +d).getTime(), allDay: true };
+  const parts: [number, number, number, number, number, number] = [+y, +mo - 1, +d, +h, +mi, +(s || 0)];
+  return { time: z ? Date.UTC(...parts) : new Date(...parts).getTime(), allDay: false };
+};
+
+const parseEvent = (data: string): EventPayload => {
+  const result: EventPayload = { type: 'event', summary: '', allDay: false, location: '', description: '' };
+  let inEvent = false;
+
+  parseContentLines(data).forEach(({ name, value }) => {
+    if (name === 'BEGIN' && value.toUpperCase() === 'VEVENT') inEvent = true;
+    else if (name === 'END' && value.toUpperCase() === 'VEVENT') inEvent = false;
+    if (!inEvent) return;
+
+    switch (name) {
+      case 'SUMMARY':
+        result.summary = unescapeText(value);
+        break;
+      case 'DTSTART': {
+        const { time, allDay } = parseICalDate(value);
+        result.start = time;
+        result.allDay = allDay;
+        break;
+      }
+      case 'DTEND':
+        result.end = parseICalDate(value).time;
+        break;
+      case 'LOCATION':
+        result.location = unescapeText(value);
+        break;
+      case 'DESCRIPTION':
+        result.description = unescapeText(value);
+        break;
+    }
+  });
+  return result;
+};
+
+// --- URI schemes ---
+
+const parseSms = (data: string): SmsPayload => {
+  // SMSTO:number:message
+  if (startsWithCI(data, 'SMSTO:')) {
+    const rest = data.slice(6);
+    const sep = rest.indexOf(':');
+    return sep === -1
+      ? { type: 'sms', number: rest.trim(), message: '' }
+      : { type: 'sms', number: rest.slice(0, sep).trim(), message: rest.slice(sep + 1) };
+  }
+
+  // sms:number?body=message (RFC 5724), also the older "sms:number:message"
+  const rest = data.slice(4);
+  const [target, query = ''] = rest.split('?', 2);
+  const bodyParam = query.split('&').find(p => p.toLowerCase().startsWith('body='));
+  if (bodyParam) return { type: 'sms', number: decode(target), message: decodeQuery(bodyParam.slice(5)) };
+
+  const sep = target.indexOf(':');
+  return sep === -1
+    ? { type: 'sms', number: decode(target), message: '' }
+    : { type: 'sms', number: target.slice(0, sep), message: target.slice(sep + 1) };
+};
+
+// geo:lat,lon[,alt][;crs=...][?q=query] (RFC 5870)
+const parseGeo = (data: string): GeoPayload | null => {
+  const [path, query = ''] = data.slice(4).split('?', 2);
+  const coords = path.split(';')[0].split(',').map(s => parseFloat(s));
+  const [latitude, longitude, altitude] = coords;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+
+  const q = query.split('&').find(p => p.toLowerCase().startsWith('q='));
+  return {
+    type: 'geo',
+    latitude,
+    longitude,
+    ...(Number.isFinite(altitude) ? { altitude } : {}),
+    query: q ? decodeQuery(q.slice(2)) : '',
+  };
+};
+
+const queryParams = (query: string) => {
+  const params: Record<string, string> = {};
+  query.split('&').filter(Boolean).forEach(pair => {
+    const [k, v = ''] = pair.split('=', 2);
+    params[k.toLowerCase()] = decodeQuery(v);
+  });
+  return params;
+};
+
+// bitcoin:<address>?amount=<BTC>&label=&message= (BIP 21)
+// ethereum:[pay-]<address>[@chainId][/function]?value=<wei> (EIP 681)
+const parseCrypto = (data: string): CryptoPayload => {
+  const colon = data.indexOf(':');
+  const currency: CryptoCurrency = data.slice(0, colon).toLowerCase() === 'ethereum' ? 'ethereum' : 'bitcoin';
+  const [target, query = ''] = data.slice(colon + 1).split('?', 2);
+  const params = queryParams(query);
+  const base = { type: 'crypto' as const, currency, label: params.label || '', message: params.message || '' };
+
+  if (currency === 'bitcoin') {
+    return { ...base, address: decode(target), amount: params.amount || '' };
+  }
+
+  const [, address = target, chain, fn] = target.match(/^(?:pay-)?([^@/]*)(?:@(\d+))?(\/.*)?$/) || [];
+  // A function call (e.g. a token transfer) moves tokens, not ether, so there's no ether amount
+  const amount = !fn && params.value ? shiftDecimal(params.value, -18) || '' : '';
+  return { ...base, address, amount, ...(chain ? { chainId: Number(chain) } : {}) };
+};
+
+const parseUrl = (data: string): ParsedPayload | null => {
+  const candidate = /^www\./i.test(data) ? `https://${data}` : data;
+  if (!/^https?:\/\/\S+$/i.test(candidate)) return null;
+  try {
+    const url = new URL(candidate);
+    return { type: 'url', url: url.href, hostname: url.hostname };
+  } catch {
+    return null;
+  }
+};
+
+export const parsePayload = (raw: string): ParsedPayload => {
+  const data = raw.trim();
+
+  if (startsWithCI(data, 'WIFI:')) return parseWifi(data);
+  if (startsWithCI(data, 'MATMSG:')) return parseMatmsg(data);
+  if (startsWithCI(data, 'mailto:')) return parseMailto(data);
+  if (startsWithCI(data, 'MECARD:')) return parseMecard(data);
+  if (startsWithCI(data, 'BEGIN:VCARD')) return parseVcard(data);
+  if (/^BEGIN:(VCALENDAR|VEVENT)/i.test(data) && /BEGIN:VEVENT/i.test(data)) return parseEvent(data);
+  if (startsWithCI(data, 'tel:')) return { type: 'phone', number: decode(data.slice(4)).trim() };
+  if (startsWithCI(data, 'SMSTO:') || startsWithCI(data, 'sms:')) return parseSms(data);
+  if (startsWithCI(data, 'geo:')) {
+    const geo = parseGeo(data);
+    if (geo) return geo;
+  }
+  if (startsWithCI(data, 'bitcoin:') || startsWithCI(data, 'ethereum:')) return parseCrypto(data);
+
+  const payment = parsePaymentCode(data);
+  if (payment) return payment;
+
+  const url = parseUrl(data);
+  if (url) return url;
+
+  // A bare address is treated as an email; any other text containing '@' is just text
+  if (EMAIL_RE.test(data)) return { ...emptyEmail('address'), to: data };
+
+  return { type: 'text', text: raw };
+};
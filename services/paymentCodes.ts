@@ -0,0 +1,288 @@
+import { PaymentFields, PaymentPayload } from '../types';
+import { shiftDecimal } from './decimal';
+
+// Payment QR formats:
+// - EPC069-12 ("GiroCode"): SEPA credit transfer, newline separated fields after a "BCD" header
+// - EMVCo merchant-presented mode: ID/length/value records closed by a CRC16 record (ID 63)
+
+/* ----------------------------- Checksums ----------------------------- */
+
+// ISO 7064 mod 97-10, as used by IBANs (ISO 13616) and RF creditor references (ISO 11649).
+// The first four characters move to the end, letters become 10-35, and the result must be 1.
+const mod97Valid = (value: string) => {
+  const rearranged = value.slice(4) + value.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const digits = /[A-Z]/.test(ch) ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const d of digits) remainder = (remainder * 10 + Number(d)) % 97;
+  }
+  return remainder === 1;
+};
+
+export const normalizeIban = (iban: string) => iban.replace(/\s+/g, '').toUpperCase();
+
+export const isValidIban = (iban: string) => {
+  const value = normalizeIban(iban);
+  return /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(value) && mod97Valid(value);
+};
+
+export const isValidBic = (bic: string) => /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic.trim().toUpperCase());
+
+const RF_RE = /^RF\d{2}[A-Z0-9]{1,21}$/;
+
+const isRfReference = (reference: string) => /^RF\d{2}/i.test(reference.replace(/\s+/g, ''));
+
+const isValidRfReference = (reference: string) => {
+  const value = reference.replace(/\s+/g, '').toUpperCase();
+  return RF_RE.test(value) && mod97Valid(value);
+};
+
+// CRC-16/CCITT-FALSE (poly 0x1021, initial 0xFFFF), as EMVCo requires for ID 63
+export const crc16 = (data: string) => {
+  let crc = 0xffff;
+  for (const byte of new TextEncoder().encode(data)) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+/* ----------------------------- Currencies ----------------------------- */
+
+// ISO 4217 numeric codes for the currencies EMVCo schemes are commonly issued in
+export const EMV_CURRENCIES: Record<string, string> = {
+  EUR: '978', USD: '840', GBP: '826', CHF: '756', INR: '356', BRL: '986', MXN: '484', SGD: '702',
+  MYR: '458', THB: '764', IDR: '360', PHP: '608', VND: '704', CNY: '156', HKD: '344', JPY: '392',
+  KRW: '410', AUD: '036', CAD: '124', ZAR: '710', NGN: '566', KES: '404', SAR: '682', AED: '784',
+};
+
+const currencyFromNumeric = (code: string) =>
+  Object.keys(EMV_CURRENCIES).find(alpha => EMV_CURRENCIES[alpha] === code) || code;
+
+/* ----------------------------- EPC069-12 ----------------------------- */
+
+const EPC_MAX_BYTES = 331;
+const EPC_MAX_AMOUNT = 999999999.99;
+
+// Amounts with at most two decimals, no exponent
+const AMOUNT_RE = /^\d+(\.\d{1,2})?$/;
+
+export const buildEpcPayload = ({ payee, iban, bic, amount, reference }: PaymentFields) => {
+  if (!payee.trim() || !iban.trim()) return '';
+  const ref = reference.trim();
+  const structured = isRfReference(ref);
+  const lines = [
+    'BCD',
+    '002', // Version 2: BIC optional inside the EEA
+    '1', // UTF-8
+    'SCT',
+    bic.trim().toUpperCase(),
+    payee.trim(),
+    normalizeIban(iban),
+    amount.trim() ? `EUR${shiftDecimal(amount, 0)}` : '',
+    '', // Purpose code
+    structured ? ref.replace(/\s+/g, '').toUpperCase() : '',
+    structured ? '' : ref,
+  ];
+  // Trailing empty fields may be left out
+  while (lines[lines.length - 1] === '') lines.pop();
+  return lines.join('\n');
+};
+
+const isEpc = (data: string) => {
+  const lines = data.split(/\r?\n/);
+  return lines[0] === 'BCD' && /^00[12]$/.test(lines[1] || '') && lines[3] === 'SCT';
+};
+
+const parseEpc = (data: string): PaymentPayload => {
+  const [, version, , , bic = '', payee = '', iban = '', amountField = '', , structured = '', text = ''] =
+    data.split(/\r?\n/).map(line => line.trim());
+  const issues: string[] = [];
+
+  const account = normalizeIban(iban);
+  if (!account) issues.push('No IBAN');
+  else if (!isValidIban(account)) issues.push("IBAN check digits don't match");
+  if (bic && !isValidBic(bic)) issues.push('BIC is malformed');
+  if (!bic && version === '001') issues.push('Version 001 codes must include a BIC');
+
+  let amount = '';
+  if (amountField) {
+    const m = amountField.match(/^EUR(\d+(?:\.\d{1,2})?)$/);
+    if (m) amount = shiftDecimal(m[1], 0) || '';
+    else issues.push('Amount is malformed');
+  }
+  if (structured && !isValidRfReference(structured)) issues.push("RF reference check digits don't match");
+  if (new TextEncoder().encode(data).length > EPC_MAX_BYTES) issues.push(`Longer than ${EPC_MAX_BYTES} bytes`);
+
+  return {
+    type: 'payment',
+    scheme: 'epc',
+    payee,
+    account,
+    accountNetwork: '',
+    bic,
+    amount,
+    currency: 'EUR',
+    reference: structured || text,
+    city: '',
+    country: account.slice(0, 2),
+    issues,
+  };
+};
+
+/* ----------------------------- EMVCo MPM ----------------------------- */
+
+interface TlvRecord {
+  id: string;
+  value: string;
+}
+
+const tlv = (id: string, value: string) => `${id}${String(value.length).padStart(2, '0')}${value}`;
+
+// Null when the data isn't a clean sequence of records
+const parseTlv = (data: string): TlvRecord[] | null => {
+  const records: TlvRecord[] = [];
+  let i = 0;
+  while (i < data.length) {
+    const header = data.slice(i, i + 4);
+    if (!/^\d{4}$/.test(header)) return null;
+    const length = Number(header.slice(2));
+    const value = data.slice(i + 4, i + 4 + length);
+    if (value.length !== length) return null;
+    records.push({ id: header.slice(0, 2), value });
+    i += 4 + length;
+  }
+  return records;
+};
+
+// Merchant account IDs 02-25 are reserved for the card networks
+const EMV_NETWORKS: [number, string][] = [
+  [3, 'Visa'], [5, 'Mastercard'], [8, 'EMVCo'], [10, 'Discover'], [12, 'Amex'], [14, 'JCB'], [16, 'UnionPay'],
+];
+
+const networkName = (id: number) => EMV_NETWORKS.find(([last]) => id <= last)?.[1] || `Network ${id}`;
+
+export const buildEmvPayload = ({
+  payee, amount, reference, merchantAccountId, merchantAccount, merchantCity, countryCode, currency, category,
+}: PaymentFields) => {
+  if (!payee.trim() || !merchantAccountId.trim() || !merchantAccount.trim() || !merchantCity.trim() || !countryCode.trim()) return '';
+  const account = tlv('26', tlv('00', merchantAccountId.trim()) + tlv('01', merchantAccount.trim()));
+  const body = [
+    tlv('00', '01'),
+    tlv('01', amount.trim() ? '12' : '11'), // Dynamic when the amount is fixed, static otherwise
+    account,
+    tlv('52', category.trim() || '0000'),
+    tlv('53', EMV_CURRENCIES[currency] || currency),
+    amount.trim() ? tlv('54', shiftDecimal(amount, 0)) : '',
+    tlv('58', countryCode.trim().toUpperCase()),
+    tlv('59', payee.trim()),
+    tlv('60', merchantCity.trim()),
+    reference.trim() ? tlv('62', tlv('05', reference.trim())) : '',
+  ].join('');
+  // The CRC covers everything up to and including its own ID and length
+  const withCrcHeader = `${body}6304`;
+  return withCrcHeader + crc16(withCrcHeader);
+};
+
+const isEmv = (data: string) => data.startsWith('000201') && parseTlv(data) !== null;
+
+const parseEmv = (data: string): PaymentPayload => {
+  const records = parseTlv(data) || [];
+  const field = (id: string) => records.find(r => r.id === id)?.value || '';
+  const issues: string[] = [];
+
+  // The CRC must be the last record
+  if (data.slice(-8, -4) !== '6304') issues.push('No CRC');
+  else if (crc16(data.slice(0, -4)) !== data.slice(-4).toUpperCase()) issues.push("CRC doesn't match");
+
+  // The first merchant account: a card network (02-25) or a template (26-51) with a GUID in sub-ID 00
+  let account = '';
+  let accountNetwork = '';
+  const accountRecord = records.find(r => Number(r.id) >= 2 && Number(r.id) <= 51);
+  if (accountRecord) {
+    const id = Number(accountRecord.id);
+    if (id <= 25) {
+      account = accountRecord.value;
+      accountNetwork = networkName(id);
+    } else {
+      const sub = parseTlv(accountRecord.value) || [];
+      accountNetwork = sub.find(r => r.id === '00')?.value || '';
+      account = sub.filter(r => r.id !== '00').map(r => r.value).join(' · ');
+    }
+  } else {
+    issues.push('No merchant account');
+  }
+
+  const additional = parseTlv(field('62')) || [];
+  const subField = (id: string) => additional.find(r => r.id === id)?.value || '';
+
+  const amount = field('54');
+  if (amount && !/^\d+(\.\d+)?$/.test(amount)) issues.push('Amount is malformed');
+
+  return {
+    type: 'payment',
+    scheme: 'emv',
+    payee: field('59'),
+    account,
+    accountNetwork,
+    bic: '',
+    amount: amount && (shiftDecimal(amount, 0) || amount),
+    currency: currencyFromNumeric(field('53')),
+    // Reference label, else bill number, else purpose
+    reference: subField('05') || subField('01') || subField('08'),
+    city: field('60'),
+    country: field('58'),
+    issues,
+  };
+};
+
+/* ----------------------------- Shared ----------------------------- */
+
+export const buildPaymentPayload = (fields: PaymentFields) =>
+  fields.scheme === 'epc' ? buildEpcPayload(fields) : buildEmvPayload(fields);
+
+// Null for data that isn't a payment code
+export const parsePaymentCode = (data: string): PaymentPayload | null => {
+  if (isEpc(data)) return parseEpc(data);
+  if (isEmv(data)) return parseEmv(data);
+  return null;
+};
+
+// Field key -> message, in the shape of contentTemplates' validation
+export const paymentFieldErrors = (fields: PaymentFields): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const { scheme, payee, amount, reference } = fields;
+  const maxPayee = scheme === 'epc' ? 70 : 25;
+  if (payee.length > maxPayee) errors.payee = `At most ${maxPayee} characters`;
+
+  if (amount.trim()) {
+    if (!AMOUNT_RE.test(amount.trim()) || !/[1-9]/.test(amount)) errors.amount = 'Enter a positive amount with up to 2 decimals';
+    else if (scheme === 'epc' && Number(amount) > EPC_MAX_AMOUNT) errors.amount = 'SEPA codes allow at most 999,999,999.99';
+    else if (scheme === 'emv' && amount.trim().length > 13) errors.amount = 'At most 13 characters';
+  }
+
+  if (scheme === 'epc') {
+    const { iban, bic } = fields;
+    if (iban.trim() && !isValidIban(iban)) errors.iban = "Not a valid IBAN (check digits don't match)";
+    if (bic.trim() && !isValidBic(bic)) errors.bic = 'BIC is 8 or 11 letters and digits';
+    if (isRfReference(reference)) {
+      if (!isValidRfReference(reference)) errors.reference = "RF reference check digits don't match";
+    } else if (reference.length > 140) {
+      errors.reference = 'At most 140 characters';
+    }
+    if (!errors.payee && !errors.reference && new TextEncoder().encode(buildEpcPayload(fields)).length > EPC_MAX_BYTES) {
+      errors.reference = `The code can hold at most ${EPC_MAX_BYTES} bytes`;
+    }
+  } else {
+    const { merchantAccountId, merchantAccount, merchantCity, countryCode, currency, category } = fields;
+    if (tlv('00', merchantAccountId.trim()).length + tlv('01', merchantAccount.trim()).length > 99) {
+      errors.merchantAccount = 'Network ID and account together are too long';
+    }
+    if (merchantCity.length > 15) errors.merchantCity = 'At most 15 characters';
+    if (countryCode.trim() && !/^[A-Za-z]{2}$/.test(countryCode.trim())) errors.countryCode = 'Two-letter country code';
+    if (!EMV_CURRENCIES[currency] && !/^\d{3}$/.test(currency)) errors.currency = 'Unknown currency';
+    if (category.trim() && !/^\d{4}$/.test(category.trim())) errors.category = 'Four-digit merchant category code';
+    if (reference.length > 25) errors.reference = 'At most 25 characters';
+  }
+  return errors;
+};
@@ -0,0 +1,98 @@
+import { QRStyle, StylePreset } from '../types';
+import { STORES, openDb, request, transactionDone } from './db';
+
+// Style presets and brand kits, stored in IndexedDB (logos make them too big for
+// localStorage). The default preset's id is small enough to live in localStorage.
+
+const DEFAULT_PRESET_KEY = 'qr-default-preset';
+const SHARE_FORMAT = 'qr-style-presets';
+const SHARE_VERSION = 1;
+
+export const BRAND_KIT_FIELDS: (keyof QRStyle)[] = [
+  'logo', 'logoShape', 'logoSize', 'logoPadding', 'logoPlate', 'logoPlateColor',
+  'fgColorMode', 'fgColor1', 'fgColor2', 'fgGradientType',
+  'bgColorMode', 'bgColor1', 'bgColor2', 'bgGradientType',
+  'dotStyle', 'eyeStyle',
+  'labelFont', 'labelColor',
+];
+
+export const createPreset = (name: string, kind: StylePreset['kind'], style: QRStyle): StylePreset => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  kind,
+  style: kind === 'brandKit'
+    ? Object.fromEntries(BRAND_KIT_FIELDS.map(key => [key, style[key]])) as Partial<QRStyle>
+    : { ...style },
+  createdAt: Date.now(),
+});
+
+export const loadPresets = async (): Promise<StylePreset[]> => {
+  const db = await openDb();
+  const presets = await request(db.transaction(STORES.presets, 'readonly').objectStore(STORES.presets).getAll());
+  return (presets as StylePreset[]).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePresets = async (presets: StylePreset[]) => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.presets, 'readwrite');
+  presets.forEach(preset => tx.objectStore(STORES.presets).put(preset));
+  await transactionDone(tx);
+};
+
+export const deletePreset = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.presets, 'readwrite');
+  tx.objectStore(STORES.presets).delete(id);
+  await transactionDone(tx);
+  if (getDefaultPresetId() === id) setDefaultPresetId(null);
+};
+
+export const getDefaultPresetId = () => localStorage.getItem(DEFAULT_PRESET_KEY);
+
+export const setDefaultPresetId = (id: string | null) => {
+  if (id) localStorage.setItem(DEFAULT_PRESET_KEY, id);
+  else localStorage.removeItem(DEFAULT_PRESET_KEY);
+};
+
+export const loadDefaultPreset = async (): Promise<StylePreset | null> => {
+  const id = getDefaultPresetId();
+  if (!id) return null;
+  const db = await openDb();
+  const preset = await request(db.transaction(STORES.presets, 'readonly').objectStore(STORES.presets).get(id));
+  return (preset as StylePreset | undefined) || null;
+};
+
+export const presetsToJson = (presets: StylePreset[]) =>
+  JSON.stringify({ format: SHARE_FORMAT, version: SHARE_VERSION, presets }, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Entries need a name and a style object; the style's fields are taken as they were shared
+const isSharedPreset = (value: unknown): value is Record<string, unknown> & { name: string; style: Record<string, unknown> } =>
+  isRecord(value) && typeof value.name === 'string' && isRecord(value.style);
+
+// Accepts a shared file. Imported presets keep their ids, so importing the same file
+// again updates them instead of adding copies.
+export const parsePresetFile = (text: string): StylePreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+  if (!isRecord(parsed) || parsed.format !== SHARE_FORMAT || !Array.isArray(parsed.presets)) {
+    throw new Error("Not a style preset file");
+  }
+
+  const presets: StylePreset[] = parsed.presets
+    .filter(isSharedPreset)
+    .map(p => ({
+      id: typeof p.id === 'string' ? p.id : crypto.randomUUID(),
+      name: p.name,
+      kind: p.kind === 'brandKit' ? 'brandKit' : 'preset',
+      style: p.style as Partial<QRStyle>,
+      createdAt: typeof p.createdAt === 'number' ? p.createdAt : Date.now(),
+    }));
+  if (!presets.length) throw new Error("File contains no presets");
+  return presets;
+};
@@ -0,0 +1,302 @@
+import { ErrorLevel } from '../types';
+import { errorCorrectionInfo } from './qrSpec';
+
+// A small QR Code encoder (ISO/IEC 18004) for the symbols the `qrcode` package can't make,
+// such as Structured Append parts. It takes a ready-made data bit stream; callers own the modes.
+
+// An encoded code as the renderer lays it out
+export interface QRSymbol {
+  version: number; // 0 for Micro QR and rMQR, which have no room for a logo
+  modules: { size: number; get: (row: number, col: number) => boolean };
+  rows?: number; // Modules down a rectangular (rMQR) symbol, whose `size` is its width
+  finders?: [number, number][]; // Top-left module of each 7x7 finder pattern, when not QR's three corners
+}
+
+export const pushBits = (bits: number[], value: number, length: number) => {
+  for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+};
+
+/* --------------------------- Reed-Solomon --------------------------- */
+
+// GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const rsDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+// Error correction codewords for one block
+export const rsRemainder = (data: number[], degree: number) => {
+  const divisor = rsDivisor(degree);
+  const result = new Array<number>(degree).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coef, i) => (result[i] ^= gfMultiply(coef, factor)));
+  });
+  return result;
+};
+
+/* ----------------------------- Matrix ------------------------------ */
+
+const FORMAT_LEVEL_BITS: Record<ErrorLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+export const MASKS: ((row: number, col: number) => boolean)[] = [
+  (r, c) => (r + c) % 2 === 0,
+  r => r % 2 === 0,
+  (_, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+  (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+  (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+  (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+];
+
+const alignmentPositions = (version: number) => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const size = version * 4 + 17;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = size - 7; positions.length < count; pos -= step) positions.splice(1, 0, pos);
+  return positions;
+};
+
+interface Grid {
+  size: number;
+  dark: boolean[][];
+  reserved: boolean[][]; // Function patterns, which data and masks leave alone
+}
+
+const createGrid = (version: number): Grid => {
+  const size = version * 4 + 17;
+  const grid: Grid = {
+    size,
+    dark: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    reserved: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+  };
+  const set = (r: number, c: number, dark: boolean) => {
+    grid.dark[r][c] = dark;
+    grid.reserved[r][c] = true;
+  };
+
+  // Timing patterns, drawn first so finders and alignments overwrite their ends
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+
+  // Finders with their separators
+  [[3, 3], [3, size - 4], [size - 4, 3]].forEach(([cr, cc]) => {
+    for (let dr = -4; dr <= 4; dr++) {
+      for (let dc = -4; dc <= 4; dc++) {
+        const r = cr + dr;
+        const c = cc + dc;
+        if (r < 0 || r >= size || c < 0 || c >= size) continue;
+        const ring = Math.max(Math.abs(dr), Math.abs(dc));
+        set(r, c, ring !== 2 && ring !== 4);
+      }
+    }
+  });
+
+  // Alignment patterns, skipping the three that would sit on finders
+  const positions = alignmentPositions(version);
+  positions.forEach((r, i) => positions.forEach((c, j) => {
+    const last = positions.length - 1;
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dr = -2; dr <= 2; dr++) {
+      for (let dc = -2; dc <= 2; dc++) set(r + dr, c + dc, Math.max(Math.abs(dr), Math.abs(dc)) !== 1);
+    }
+  }));
+
+  // Format areas (filled in per mask) and the dark module
+  for (let i = 0; i < 9; i++) {
+    grid.reserved[8][i] = grid.reserved[i][8] = true;
+    if (i < 8) grid.reserved[8][size - 1 - i] = grid.reserved[size - 1 - i][8] = true;
+  }
+  set(size - 8, 8, true);
+
+  // Version information, versions 7 and up
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      set(a, b, dark);
+      set(b, a, dark);
+    }
+  }
+  return grid;
+};
+
+// The 15 format information bits: level and mask, BCH protected and masked
+export const formatBits = (level: ErrorLevel, mask: number) => {
+  const data = (FORMAT_LEVEL_BITS[level] << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return ((data << 10) | rem) ^ 0x5412;
+};
+
+const drawFormat = (grid: Grid, level: ErrorLevel, mask: number) => {
+  const bits = formatBits(level, mask);
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+  const { size, dark } = grid;
+
+  for (let i = 0; i <= 5; i++) dark[i][8] = bit(i);
+  dark[7][8] = bit(6);
+  dark[8][8] = bit(7);
+  dark[8][7] = bit(8);
+  for (let i = 9; i < 15; i++) dark[8][14 - i] = bit(i);
+
+  for (let i = 0; i < 8; i++) dark[8][size - 1 - i] = bit(i);
+  for (let i = 8; i < 15; i++) dark[size - 15 + i][8] = bit(i);
+};
+
+// Codewords in the two-column zigzag from the bottom right, skipping the vertical timing column
+const drawCodewords = (grid: Grid, codewords: number[]) => {
+  const { size, dark, reserved } = grid;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let step = 0; step < size; step++) {
+      const r = upward ? size - 1 - step : step;
+      for (let j = 0; j < 2; j++) {
+        const c = right - j;
+        if (reserved[r][c] || i >= codewords.length * 8) continue;
+        dark[r][c] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+        i++;
+      }
+    }
+  }
+};
+
+const applyMask = (grid: Grid, mask: number) => {
+  const test = MASKS[mask];
+  for (let r = 0; r < grid.size; r++) {
+    for (let c = 0; c < grid.size; c++) {
+      if (!grid.reserved[r][c] && test(r, c)) grid.dark[r][c] = !grid.dark[r][c];
+    }
+  }
+};
+
+const FINDER_LIKE = ['10111010000', '00001011101'];
+
+// The four penalty rules of ISO/IEC 18004 7.8.3; the mask with the lowest score is used
+const penalty = ({ size, dark }: Grid) => {
+  let score = 0;
+  const lines: string[] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(dark[i].map(d => (d ? '1' : '0')).join(''));
+    lines.push(dark.map(row => (row[i] ? '1' : '0')).join(''));
+  }
+  lines.forEach(line => {
+    (line.match(/0{5,}|1{5,}/g) || []).forEach(run => (score += run.length - 2));
+    FINDER_LIKE.forEach(pattern => {
+      for (let at = line.indexOf(pattern); at >= 0; at = line.indexOf(pattern, at + 1)) score += 40;
+    });
+  });
+  let darkCount = 0;
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      if (dark[r][c]) darkCount++;
+      if (r && c && dark[r][c] === dark[r - 1][c] && dark[r][c] === dark[r][c - 1] && dark[r][c] === dark[r - 1][c - 1]) score += 3;
+    }
+  }
+  score += Math.floor(Math.abs((darkCount * 100) / (size * size) - 50) / 5) * 10;
+  return score;
+};
+
+/* ----------------------------- Encoding ----------------------------- */
+
+// Data codewords split into blocks (the later blocks one codeword longer), each with its
+// error correction, then interleaved
+const interleave = (data: number[], version: number, level: ErrorLevel) => {
+  const { blocks, dataCodewords, ecPerBlock } = errorCorrectionInfo(version, level);
+  const shortLength = Math.floor(dataCodewords / blocks);
+  const longBlocks = dataCodewords % blocks;
+  const dataBlocks: number[][] = [];
+  let at = 0;
+  for (let b = 0; b < blocks; b++) {
+    const length = shortLength + (b >= blocks - longBlocks ? 1 : 0);
+    dataBlocks.push(data.slice(at, at + length));
+    at += length;
+  }
+  const ecBlocks = dataBlocks.map(block => rsRemainder(block, ecPerBlock));
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortLength; i++) dataBlocks.forEach(block => i < block.length && result.push(block[i]));
+  for (let i = 0; i < ecPerBlock; i++) ecBlocks.forEach(block => result.push(block[i]));
+  return result;
+};
+
+// Data bit capacity of a version, before error correction
+export const dataCapacityBits = (version: number, level: ErrorLevel) =>
+  errorCorrectionInfo(version, level).dataCodewords * 8;
+
+export interface SymbolOptions {
+  version?: number; // Only this version, instead of the smallest that fits
+  mask?: number; // This mask, instead of the one with the lowest penalty
+}
+
+// Encodes the smallest version whose capacity fits the bits `build` makes for it (character
+// count fields widen with the version, so the stream is rebuilt per version). Null if none does.
+export const encodeSymbol = (
+  build: (version: number) => number[],
+  level: ErrorLevel,
+  { version: pinned, mask: forcedMask }: SymbolOptions = {}
+): QRSymbol | null => {
+  for (let version = pinned || 1; version <= (pinned || 40); version++) {
+    const bits = build(version);
+    const capacity = dataCapacityBits(version, level);
+    if (bits.length > capacity) continue;
+
+    // Terminator, byte alignment, then alternating pad codewords
+    const padded = [...bits];
+    pushBits(padded, 0, Math.min(4, capacity - padded.length));
+    pushBits(padded, 0, (8 - (padded.length % 8)) % 8);
+    for (let pad = 0xec; padded.length < capacity; pad ^= 0xec ^ 0x11) pushBits(padded, pad, 8);
+
+    const data: number[] = [];
+    for (let i = 0; i < padded.length; i += 8) data.push(parseInt(padded.slice(i, i + 8).join(''), 2));
+    const codewords = interleave(data, version, level);
+
+    let best: Grid | null = null;
+    let bestScore = Infinity;
+    const masks = forcedMask !== undefined && forcedMask >= 0 ? [forcedMask] : [0, 1, 2, 3, 4, 5, 6, 7];
+    masks.forEach(mask => {
+      const grid = createGrid(version);
+      drawCodewords(grid, codewords);
+      applyMask(grid, mask);
+      drawFormat(grid, level, mask);
+      const score = penalty(grid);
+      if (score < bestScore) {
+        best = grid;
+        bestScore = score;
+      }
+    });
+    const { size, dark } = best!;
+    return { version, modules: { size, get: (row, col) => dark[row][col] } };
+  }
+  return null;
+};
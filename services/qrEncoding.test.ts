@@ -0,0 +1,42 @@
+import { beforeAll, describe, it, expect } from 'vitest';
+import { ErrorLevel, QRStyle } from '../types';
+import { decodeQR, decodeZxing } from './barcodeDecoder';
+import { encodeText, planEncoding } from './qrEncoding';
+import { DEFAULT_STYLE } from './qrRenderer';
+import { loadReaderWasm, renderSymbol } from './testImages';
+
+const MIXED = 'Grüße 日本語 テスト';
+
+const styleWith = (overrides: Partial<QRStyle>): QRStyle => ({ ...DEFAULT_STYLE, ...overrides });
+
+beforeAll(loadReaderWasm);
+
+describe('planEncoding', () => {
+  it('uses kanji segments for Japanese text without an ECI header', () => {
+    const { segments } = planEncoding(MIXED, styleWith({ eciUtf8: false }));
+    expect(segments.some(s => s.mode === 'kanji')).toBe(true);
+  });
+
+  it('keeps kanji segments out from under a UTF-8 ECI header', () => {
+    const { segments, fits } = planEncoding(MIXED, styleWith({ eciUtf8: true }));
+    expect(fits).toBe(true);
+    expect(segments.map(s => s.mode)).not.toContain('kanji');
+  });
+
+  it('rejects forced kanji mode with a UTF-8 ECI header', () => {
+    expect(planEncoding('日本語', styleWith({ segmentMode: 'kanji', eciUtf8: true })).problem).toMatch(/ECI/);
+    expect(planEncoding('日本語', styleWith({ segmentMode: 'kanji', eciUtf8: false })).problem).toBeNull();
+  });
+});
+
+describe('encodeText', () => {
+  const cases: [ErrorLevel, number][] = (['L', 'M', 'Q', 'H'] as ErrorLevel[]).flatMap(level =>
+    [-1, 0, 5].map((mask): [ErrorLevel, number] => [level, mask])
+  );
+
+  it.each(cases)('round-trips mixed Latin and CJK text under a UTF-8 ECI header at level %s, mask %i', async (errorLevel, maskPattern) => {
+    const image = renderSymbol(encodeText(MIXED, styleWith({ eciUtf8: true, errorLevel, maskPattern })));
+    expect(decodeQR(image)?.data).toBe(MIXED);
+    expect((await decodeZxing(image, true))?.data).toBe(MIXED);
+  });
+});
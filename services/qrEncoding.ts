@@ -0,0 +1,230 @@
+import toSJIS from 'qrcode/helper/to-sjis';
+import { QRStyle, SegmentMode } from '../types';
+import { QRSymbol, encodeSymbol, pushBits, dataCapacityBits } from './qrEncoder';
+
+// Segments (ISO/IEC 18004 7.4) and the advanced encoding settings: a pinned version, a forced
+// mask, one forced segment mode and a UTF-8 ECI header.
+
+export type SegmentKind = Exclude<SegmentMode, 'auto'>;
+
+export interface Segment {
+  mode: SegmentKind;
+  text: string;
+}
+
+export const SEGMENT_LABELS: Record<SegmentMode, string> = {
+  auto: 'Optimized (auto)',
+  numeric: 'Numeric',
+  alphanumeric: 'Alphanumeric',
+  byte: 'Byte',
+  kanji: 'Kanji',
+};
+
+const MODES: SegmentKind[] = ['numeric', 'alphanumeric', 'byte', 'kanji'];
+// Kanji segments hold Shift JIS, which a UTF-8 ECI header would have decoders read as UTF-8
+const modesFor = (eciUtf8: boolean) => (eciUtf8 ? MODES.filter(mode => mode !== 'kanji') : MODES);
+const MODE_INDICATORS: Record<SegmentKind, number> = { numeric: 0b0001, alphanumeric: 0b0010, byte: 0b0100, kanji: 0b1000 };
+
+// Character count field widths for versions 1-9, 10-26 and 27-40
+const COUNT_BITS: Record<SegmentKind, number[]> = {
+  numeric: [10, 12, 14],
+  alphanumeric: [9, 11, 13],
+  byte: [8, 16, 16],
+  kanji: [8, 10, 12],
+};
+const widthClass = (version: number) => (version <= 9 ? 0 : version <= 26 ? 1 : 2);
+const countBits = (mode: SegmentKind, version: number) => COUNT_BITS[mode][widthClass(version)];
+
+const ALPHANUMERIC = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+const ECI_BITS = 4 + 8;
+
+const encoder = new TextEncoder();
+
+// Shift JIS code of a character in the range kanji mode can hold
+const kanjiCode = (ch: string): number | undefined => {
+  if (ch.charCodeAt(0) < 0x80) return undefined;
+  const code: number | undefined = toSJIS(ch);
+  return code !== undefined && ((code >= 0x8140 && code <= 0x9ffc) || (code >= 0xe040 && code <= 0xebbf)) ? code : undefined;
+};
+
+const fitsMode = (mode: SegmentKind, ch: string) => {
+  if (mode === 'numeric') return /^[0-9]$/.test(ch);
+  if (mode === 'alphanumeric') return ALPHANUMERIC.includes(ch);
+  if (mode === 'kanji') return kanjiCode(ch) !== undefined;
+  return true;
+};
+
+const dataBits = ({ mode, text }: Segment) => {
+  const length = Array.from(text).length;
+  if (mode === 'numeric') return Math.floor(length / 3) * 10 + [0, 4, 7][length % 3];
+  if (mode === 'alphanumeric') return Math.floor(length / 2) * 11 + (length % 2) * 6;
+  if (mode === 'kanji') return length * 13;
+  return encoder.encode(text).length * 8;
+};
+
+const segmentBits = (segment: Segment, version: number) => 4 + countBits(segment.mode, version) + dataBits(segment);
+
+// Cheapest mix of segments in the given modes for a version's count field widths. Costs are in
+// sixths of a bit so numeric (10/3) and alphanumeric (11/2) characters stay whole numbers.
+const optimalSegments = (chars: string[], version: number, modes: SegmentKind[]): Segment[] => {
+  if (!chars.length) return [];
+  const header = (mode: SegmentKind) => (4 + countBits(mode, version)) * 6;
+  const charCost = (mode: SegmentKind, ch: string) =>
+    mode === 'numeric' ? 20 : mode === 'alphanumeric' ? 33 : mode === 'kanji' ? 78 : encoder.encode(ch).length * 48;
+
+  // cost[mode]: the characters so far, ending in a segment of that mode;
+  // previous[i][mode]: the mode character i - 1 was in on that path
+  let cost = {} as Record<SegmentKind, number>;
+  const previous: Record<SegmentKind, SegmentKind>[] = [];
+  chars.forEach((ch, i) => {
+    const next = {} as Record<SegmentKind, number>;
+    const from = {} as Record<SegmentKind, SegmentKind>;
+    modes.forEach(mode => {
+      from[mode] = mode;
+      if (!fitsMode(mode, ch)) {
+        next[mode] = Infinity;
+        return;
+      }
+      let best = i === 0 ? header(mode) : cost[mode];
+      if (i > 0) {
+        modes.forEach(other => {
+          const switched = Math.ceil(cost[other] / 6) * 6 + header(mode);
+          if (other !== mode && switched < best) {
+            best = switched;
+            from[mode] = other;
+          }
+        });
+      }
+      next[mode] = best + charCost(mode, ch);
+    });
+    cost = next;
+    previous.push(from);
+  });
+
+  let mode = modes.reduce((best, m) => (cost[m] < cost[best] ? m : best));
+  const path: SegmentKind[] = [];
+  for (let i = chars.length - 1; i >= 0; i--) {
+    path[i] = mode;
+    mode = previous[i][mode];
+  }
+  const segments: Segment[] = [];
+  chars.forEach((ch, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.mode === path[i]) last.text += ch;
+    else segments.push({ mode: path[i], text: ch });
+  });
+  return segments;
+};
+
+export interface EncodingPlan {
+  segments: Segment[];
+  version: number | null; // The pinned or smallest fitting version; null if none fits
+  usedBits: number;
+  capacityBits: number;
+  fits: boolean;
+  oversized: boolean; // Too big even for version 40, whatever the pinned version
+  problem: string | null; // A character the forced segment mode can't hold
+}
+
+// Segments, size and version for a payload under the style's encoding settings
+export const planEncoding = (text: string, style: QRStyle): EncodingPlan => {
+  const chars = Array.from(text);
+  const level = style.errorLevel;
+  // The best split only changes with the count field widths, so it's worked out once per width
+  const splits: Segment[][] = [];
+  const segmentsFor = (version: number): Segment[] => {
+    if (style.segmentMode !== 'auto') return text ? [{ mode: style.segmentMode, text }] : [];
+    return (splits[widthClass(version)] ??= optimalSegments(chars, version, modesFor(style.eciUtf8)));
+  };
+  const bitsFor = (segments: Segment[], version: number) =>
+    (style.eciUtf8 ? ECI_BITS : 0) + segments.reduce((sum, segment) => sum + segmentBits(segment, version), 0);
+
+  if (style.segmentMode !== 'auto') {
+    const mode = style.segmentMode;
+    const invalid = chars.find(ch => !fitsMode(mode, ch));
+    const problem = !modesFor(style.eciUtf8).includes(mode)
+      ? `${SEGMENT_LABELS[mode]} mode can't be combined with the UTF-8 ECI header`
+      : invalid !== undefined
+        ? `"${invalid}" can't be stored in ${SEGMENT_LABELS[mode].toLowerCase()} mode`
+        : null;
+    if (problem) {
+      return {
+        segments: [],
+        version: style.qrVersion || null,
+        usedBits: 0,
+        capacityBits: dataCapacityBits(style.qrVersion || 40, level),
+        fits: false,
+        oversized: false,
+        problem,
+      };
+    }
+  }
+
+  const largest = segmentsFor(40);
+  const oversized = bitsFor(largest, 40) > dataCapacityBits(40, level);
+  const versions = style.qrVersion ? [style.qrVersion] : Array.from({ length: 40 }, (_, i) => i + 1);
+  for (const version of versions) {
+    const segments = segmentsFor(version);
+    const usedBits = bitsFor(segments, version);
+    const capacityBits = dataCapacityBits(version, level);
+    if (usedBits <= capacityBits || style.qrVersion) {
+      return { segments, version, usedBits, capacityBits, fits: usedBits <= capacityBits, oversized, problem: null };
+    }
+  }
+  return {
+    segments: largest,
+    version: null,
+    usedBits: bitsFor(largest, 40),
+    capacityBits: dataCapacityBits(40, level),
+    fits: false,
+    oversized,
+    problem: null,
+  };
+};
+
+const writeSegment = (bits: number[], { mode, text }: Segment, version: number) => {
+  pushBits(bits, MODE_INDICATORS[mode], 4);
+  if (mode === 'byte') {
+    const bytes = encoder.encode(text);
+    pushBits(bits, bytes.length, countBits(mode, version));
+    bytes.forEach(byte => pushBits(bits, byte, 8));
+    return;
+  }
+  const chars = Array.from(text);
+  pushBits(bits, chars.length, countBits(mode, version));
+  if (mode === 'numeric') {
+    for (let i = 0; i < text.length; i += 3) {
+      const group = text.slice(i, i + 3);
+      pushBits(bits, parseInt(group, 10), [0, 4, 7, 10][group.length]);
+    }
+  } else if (mode === 'alphanumeric') {
+    for (let i = 0; i < text.length; i += 2) {
+      const first = ALPHANUMERIC.indexOf(text[i]);
+      if (i + 1 < text.length) pushBits(bits, first * 45 + ALPHANUMERIC.indexOf(text[i + 1]), 11);
+      else pushBits(bits, first, 6);
+    }
+  } else {
+    chars.forEach(ch => {
+      const sjis = kanjiCode(ch)!;
+      const code = sjis - (sjis >= 0xe040 ? 0xc140 : 0x8140);
+      pushBits(bits, (code >>> 8) * 0xc0 + (code & 0xff), 13);
+    });
+  }
+};
+
+// Encodes `text` as planned. Throws when the settings can't hold it, like QRCode.create().
+export const encodeText = (text: string, style: QRStyle): QRSymbol => {
+  const plan = planEncoding(text, style);
+  if (plan.problem) throw new Error(plan.problem);
+  if (!plan.fits || !plan.version) throw new Error('The amount of data is too big to be stored in a QR Code');
+  const symbol = encodeSymbol(version => {
+    const bits: number[] = [];
+    if (style.eciUtf8) {
+      pushBits(bits, 0b0111, 4);
+      pushBits(bits, 26, 8);
+    }
+    plan.segments.forEach(segment => writeSegment(bits, segment, version));
+    return bits;
+  }, style.errorLevel, { version: plan.version, mask: style.maskPattern });
+  return symbol!;
+};
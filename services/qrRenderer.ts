@@ -0,0 +1,449 @@
+import { QRStyle, DotStyle, EyeStyle, ColorMode, GradientType, LogoShape, ErrorLevel } from '../types';
+import { errorCorrectionInfo } from './qrSpec';
+import { QRSymbol } from './qrEncoder';
+import { encodeText } from './qrEncoding';
+import { encodeCompact } from './compactCodes';
+
+// Subset of the CanvasPath API used by the shape tracers below.
+// A CanvasRenderingContext2D satisfies it directly, the vector exporters record it.
+export interface PathSink {
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void;
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise?: boolean): void;
+  rect(x: number, y: number, w: number, h: number): void;
+  closePath(): void;
+}
+
+export type Paint =
+  | { kind: 'solid'; color: string }
+  | { kind: 'linear'; x0: number; y0: number; x1: number; y1: number; from: string; to: string }
+  | { kind: 'radial'; cx: number; cy: number; r0: number; r1: number; from: string; to: string };
+
+export interface QRLayout {
+  modules: { get: (row: number, col: number) => number | boolean };
+  moduleCount: number; // Modules across
+  moduleRows: number; // Modules down; moduleCount except for rMQR
+  finders: [number, number][]; // Top-left module of each 7x7 finder pattern
+  size: number; // Width of the code area in px
+  height: number; // Height of the code area in px; size except for rMQR
+  cellSize: number;
+  offset: number; // Quiet zone in px
+  qrOffsetY: number; // Shift caused by a label placed on top
+  totalWidth: number;
+  totalHeight: number;
+  extraHeight: number;
+  labelFontSize: number;
+  logoRect: { x: number; y: number; size: number } | null;
+  plateRect: { x: number; y: number; size: number } | null; // Only for a solid plate
+  logoStart: number; // First module row/col hidden under the logo (-1 when none are hidden)
+  logoEnd: number;
+  logoMaxSize: number; // Largest logoSize that still decodes at this version and level
+}
+
+const MARGIN = 2;
+
+// The Generator's starting style
+export const DEFAULT_STYLE: QRStyle = {
+  codeFormat: 'qr',
+  fgColorMode: 'solid',
+  fgColor1: '#000000',
+  fgColor2: '#a3e635', // Lime
+  fgGradientType: 'vertical',
+  bgColorMode: 'solid',
+  bgColor1: '#ffffff',
+  bgColor2: '#e2e8f0',
+  bgGradientType: 'diagonal',
+  errorLevel: 'M',
+  dotStyle: 'square',
+  eyeStyle: 'square',
+  logo: null,
+  logoSize: 25,
+  logoShape: 'rounded',
+  logoPadding: 1,
+  logoPlate: 'clear',
+  logoPlateColor: '#ffffff',
+  labelText: '',
+  labelPosition: 'bottom',
+  labelColor: '#000000',
+  labelSize: 60,
+  labelFont: 'Inter, sans-serif',
+  qrSize: 1000,
+  qrVersion: 0,
+  maskPattern: -1,
+  segmentMode: 'auto',
+  eciUtf8: false,
+};
+
+export const resolvePaint = (width: number, height: number, mode: ColorMode, type: GradientType, c1: string, c2: string): Paint => {
+  if (mode === 'solid') return { kind: 'solid', color: c1 };
+
+  if (type === 'vertical') return { kind: 'linear', x0: 0, y0: 0, x1: 0, y1: height, from: c1, to: c2 };
+  if (type === 'horizontal') return { kind: 'linear', x0: 0, y0: 0, x1: width, y1: 0, from: c1, to: c2 };
+  if (type === 'diagonal') return { kind: 'linear', x0: 0, y0: 0, x1: width, y1: height, from: c1, to: c2 };
+  return { kind: 'radial', cx: width / 2, cy: height / 2, r0: width / 10, r1: Math.max(width, height) * 0.8, from: c1, to: c2 };
+};
+
+export const backgroundPaint = (layout: QRLayout, style: QRStyle) =>
+  resolvePaint(layout.totalWidth, layout.totalHeight, style.bgColorMode, style.bgGradientType, style.bgColor1, style.bgColor2);
+
+// Note: the foreground gradient spans the code area from the canvas origin, not from qrOffsetY
+export const foregroundPaint = (layout: QRLayout, style: QRStyle) =>
+  resolvePaint(layout.size, layout.height, style.fgColorMode, style.fgGradientType, style.fgColor1, style.fgColor2);
+
+// Share of each block's correctable codewords the logo may take. The rest is kept for
+// print defects, glare and the like.
+const LOGO_EC_BUDGET = 0.6;
+
+// Codewords touched by a centred square of modules. Codewords are mostly 2 modules wide
+// and 4 tall, so the square also cuts into partial ones along its edges.
+const codewordsUnder = (side: number) => Math.ceil((side + 1) / 2) * Math.ceil((side + 3) / 4);
+
+// Side of the largest centred square of modules (always odd, 0 for none) that can be lost
+// while the code still decodes. Codewords are interleaved across blocks, so the damage is
+// shared roughly evenly between them.
+export const maxLogoModules = (version: number, level: ErrorLevel) => {
+  const { blocks, correctablePerBlock } = errorCorrectionInfo(version, level);
+  const budget = Math.floor(correctablePerBlock * LOGO_EC_BUDGET) * blocks;
+  let side = 0;
+  for (let next = 1; codewordsUnder(next) <= budget; next += 2) side = next;
+  return side;
+};
+
+// `symbol` is an already encoded code (e.g. a Structured Append part) to lay out instead of `text`
+export const computeLayout = (text: string, style: QRStyle, symbol?: QRSymbol): QRLayout => {
+  const qrData = symbol ?? encodeText(text, style);
+
+  const size = style.qrSize;
+  const modules = qrData.modules;
+  const moduleCount: number = modules.size;
+  const moduleRows = qrData.rows ?? moduleCount;
+  const cellSize = size / (moduleCount + MARGIN * 2);
+  const height = (moduleRows + MARGIN * 2) * cellSize;
+  const finders: [number, number][] = qrData.finders ?? [[0, 0], [0, moduleCount - 7], [moduleCount - 7, 0]];
+
+  const scaleFactor = style.qrSize / 1000;
+  const labelFontSize = style.labelSize * scaleFactor;
+  const extraHeight = style.labelText ? labelFontSize * 2.5 : 0;
+  const qrOffsetY = style.labelText && style.labelPosition === 'top' ? extraHeight : 0;
+
+  // Logo bounds logic. The hidden square is the logo plus its padding, capped by the
+  // error correction budget; with no plate the modules stay but are still covered.
+  const padding = style.logoPlate === 'none' ? 0 : Math.max(0, Math.round(style.logoPadding));
+  const logoModules = qrData.version ? maxLogoModules(qrData.version, style.errorLevel) : 0;
+  const logoMaxSize = Math.max(0, ((logoModules - 2 * padding) / (moduleCount + MARGIN * 2)) * 100);
+
+  let logoStart = -1;
+  let logoEnd = -1;
+  let logoRect: QRLayout['logoRect'] = null;
+  let plateRect: QRLayout['plateRect'] = null;
+
+  if (style.logo && logoMaxSize > 0) {
+    const logoScale = Math.min(style.logoSize, logoMaxSize) / 100;
+    const center = moduleCount / 2;
+    const logoModuleSize = Math.ceil((size * logoScale) / cellSize);
+    // Ensure odd size for better centering
+    const adjustedSize = (logoModuleSize % 2 === 0 ? logoModuleSize + 1 : logoModuleSize) + 2 * padding;
+
+    const start = Math.floor(center - adjustedSize / 2);
+    const end = Math.ceil(center + adjustedSize / 2);
+    if (style.logoPlate !== 'none') {
+      logoStart = start;
+      logoEnd = end;
+    }
+    if (style.logoPlate === 'solid') {
+      const platePos = MARGIN * cellSize + start * cellSize;
+      plateRect = { x: platePos, y: qrOffsetY + platePos, size: (end - start) * cellSize };
+    }
+
+    const logoSizePx = size * logoScale;
+    logoRect = { x: (size - logoSizePx) / 2, y: qrOffsetY + (size - logoSizePx) / 2, size: logoSizePx };
+  }
+
+  return {
+    modules,
+    moduleCount,
+    moduleRows,
+    finders,
+    size,
+    height,
+    cellSize,
+    offset: MARGIN * cellSize,
+    qrOffsetY,
+    totalWidth: size,
+    totalHeight: height + extraHeight,
+    extraHeight,
+    labelFontSize,
+    logoRect,
+    plateRect,
+    logoStart,
+    logoEnd,
+    logoMaxSize,
+  };
+};
+
+// Lays out `text` in the style's code format. Micro QR and rMQR are encoded asynchronously.
+export const layoutCode = async (text: string, style: QRStyle): Promise<QRLayout> =>
+  computeLayout(text, style, style.codeFormat === 'qr' ? undefined : await encodeCompact(text, style.codeFormat, style.errorLevel));
+
+// Helper for rounded rectangle sub-paths (no beginPath so shapes can be combined)
+export const traceRoundRect = (sink: PathSink, x: number, y: number, w: number, h: number, r: number) => {
+  sink.moveTo(x + r, y);
+  sink.lineTo(x + w - r, y);
+  sink.quadraticCurveTo(x + w, y, x + w, y + r);
+  sink.lineTo(x + w, y + h - r);
+  sink.quadraticCurveTo(x + w, y + h, x + w - r, y + h);
+  sink.lineTo(x + r, y + h);
+  sink.quadraticCurveTo(x, y + h, x, y + h - r);
+  sink.lineTo(x, y + r);
+  sink.quadraticCurveTo(x, y, x + r, y);
+  sink.closePath();
+};
+
+const traceRoundRectAdvanced = (sink: PathSink, x: number, y: number, w: number, h: number, tl: number, tr: number, br: number, bl: number) => {
+  sink.moveTo(x + tl, y);
+  sink.lineTo(x + w - tr, y);
+  sink.quadraticCurveTo(x + w, y, x + w, y + tr);
+  sink.lineTo(x + w, y + h - br);
+  sink.quadraticCurveTo(x + w, y + h, x + w - br, y + h);
+  sink.lineTo(x + bl, y + h);
+  sink.quadraticCurveTo(x, y + h, x, y + h - bl);
+  sink.lineTo(x, y + tl);
+  sink.quadraticCurveTo(x, y, x + tl, y);
+  sink.closePath();
+};
+
+// Helper for Leaf shape path (Top-Left and Bottom-Right rounded)
+const traceLeaf = (sink: PathSink, x: number, y: number, w: number, h: number, r: number) => {
+  sink.moveTo(x + r, y);
+  sink.lineTo(x + w, y); // Sharp Top-Right
+  sink.lineTo(x + w, y + h - r);
+  sink.quadraticCurveTo(x + w, y + h, x + w - r, y + h); // Round Bottom-Right
+  sink.lineTo(x, y + h); // Sharp Bottom-Left
+  sink.lineTo(x, y + r);
+  sink.quadraticCurveTo(x, y, x + r, y); // Round Top-Left
+  sink.closePath();
+};
+
+const traceCircle = (sink: PathSink, cx: number, cy: number, r: number) => {
+  sink.moveTo(cx + r, cy);
+  sink.arc(cx, cy, r, 0, Math.PI * 2);
+  sink.closePath();
+};
+
+// Traces one 7x7 eye. Must be filled with the 'evenodd' rule so the ring gets its hole.
+export const traceFinderPattern = (sink: PathSink, x: number, y: number, cellSize: number, style: EyeStyle) => {
+  const os = cellSize * 7; // Outer Size
+  const is = cellSize * 3; // Inner Size (the filled block)
+  const hw = os - 2 * cellSize; // Hole Size (5 modules)
+
+  // 1. OUTER RING
+  switch (style) {
+    case 'circle':
+      traceCircle(sink, x + os / 2, y + os / 2, os / 2);
+      traceCircle(sink, x + os / 2, y + os / 2, hw / 2);
+      break;
+    case 'rounded':
+      traceRoundRect(sink, x, y, os, os, cellSize * 2);
+      traceRoundRect(sink, x + cellSize, y + cellSize, hw, hw, cellSize * 1.5);
+      break;
+    case 'leaf':
+      traceLeaf(sink, x, y, os, os, cellSize * 2.5);
+      traceLeaf(sink, x + cellSize, y + cellSize, hw, hw, cellSize * 1.5);
+      break;
+    case 'square':
+    default:
+      sink.rect(x, y, os, os);
+      sink.rect(x + cellSize, y + cellSize, hw, hw);
+      break;
+  }
+
+  // 2. INNER BLOCK (3x3 modules)
+  const ix = x + 2 * cellSize;
+  const iy = y + 2 * cellSize;
+
+  switch (style) {
+    case 'circle':
+      traceCircle(sink, ix + is / 2, iy + is / 2, is / 2);
+      break;
+    case 'rounded':
+      traceRoundRect(sink, ix, iy, is, is, cellSize * 1);
+      break;
+    case 'leaf':
+      traceLeaf(sink, ix, iy, is, is, cellSize * 1);
+      break;
+    case 'square':
+    default:
+      sink.rect(ix, iy, is, is);
+      break;
+  }
+};
+
+// Traces one data module. Modules are combined into one path filled with the 'nonzero' rule.
+export const traceModule = (sink: PathSink, x: number, y: number, size: number, style: DotStyle) => {
+  const cx = x + size / 2;
+  const cy = y + size / 2;
+
+  switch (style) {
+    case 'dots':
+      traceCircle(sink, cx, cy, size / 2);
+      break;
+    case 'rounded':
+      traceRoundRect(sink, x, y, size, size, size * 0.25);
+      break;
+    case 'extra-rounded':
+      traceRoundRect(sink, x, y, size, size, size * 0.45);
+      break;
+    case 'classy':
+      // TL, TR, BR, BL
+      traceRoundRectAdvanced(sink, x, y, size, size, size * 0.5, 0, size * 0.5, 0);
+      break;
+    case 'classy-inverted':
+      traceRoundRectAdvanced(sink, x, y, size, size, 0, size * 0.5, 0, size * 0.5);
+      break;
+    case 'diamond':
+      sink.moveTo(cx, y);
+      sink.lineTo(x + size, cy);
+      sink.lineTo(cx, y + size);
+      sink.lineTo(x, cy);
+      sink.closePath();
+      break;
+    case 'cross': {
+      const w = size * 0.35;
+      const inset = (size - w) / 2;
+      sink.rect(x + inset, y, w, size);
+      sink.rect(x, y + inset, size, w);
+      break;
+    }
+    case 'square':
+    default:
+      sink.rect(x, y, size + 0.5, size + 0.5); // +0.5 to prevent sub-pixel rendering gaps
+      break;
+  }
+};
+
+export const isFinderModule = (r: number, c: number, finders: QRLayout['finders']) =>
+  finders.some(([fr, fc]) => r >= fr && r < fr + 7 && c >= fc && c < fc + 7);
+
+export const traceDataModules = (sink: PathSink, layout: QRLayout, style: DotStyle) => {
+  const { modules, moduleCount, moduleRows, finders, cellSize, offset, qrOffsetY, logoStart, logoEnd } = layout;
+
+  for (let r = 0; r < moduleRows; r++) {
+    for (let c = 0; c < moduleCount; c++) {
+      // Skip modules that are under the logo "Quiet Zone"
+      if (logoStart >= 0 && r >= logoStart && r < logoEnd && c >= logoStart && c < logoEnd) continue;
+      // Finder Patterns (7x7 in corners) are drawn separately
+      if (isFinderModule(r, c, finders)) continue;
+
+      if (modules.get(r, c)) {
+        traceModule(sink, offset + c * cellSize, qrOffsetY + offset + r * cellSize, cellSize, style);
+      }
+    }
+  }
+};
+
+export const traceFinderPatterns = (sink: PathSink, layout: QRLayout, style: EyeStyle) => {
+  const { finders, cellSize, offset, qrOffsetY } = layout;
+  finders.forEach(([r, c]) => traceFinderPattern(sink, offset + c * cellSize, qrOffsetY + offset + r * cellSize, cellSize, style));
+};
+
+// Clip region for the logo, or false when the logo keeps its original shape
+export const traceLogoClip = (sink: PathSink, rect: NonNullable<QRLayout['logoRect']>, shape: LogoShape) => {
+  const { x, y, size } = rect;
+  if (shape === 'none') return false;
+
+  if (shape === 'circle') {
+    traceCircle(sink, x + size / 2, y + size / 2, size / 2);
+  } else if (shape === 'rounded') {
+    traceRoundRect(sink, x, y, size, size, size * 0.2);
+  } else {
+    sink.rect(x, y, size, size);
+  }
+  return true;
+};
+
+// Plate behind the logo, following the logo's crop (square for an uncropped logo)
+export const traceLogoPlate = (sink: PathSink, rect: NonNullable<QRLayout['plateRect']>, shape: LogoShape) =>
+  traceLogoClip(sink, rect, shape === 'none' ? 'square' : shape);
+
+// Center point of the label text (drawn with 'middle' baseline and 'center' alignment)
+export const labelAnchor = (layout: QRLayout, style: QRStyle) => ({
+  x: layout.totalWidth / 2,
+  y: style.labelPosition === 'top' ? layout.extraHeight / 2 : layout.height + layout.extraHeight / 2,
+});
+
+export const labelFont = (layout: QRLayout, style: QRStyle) => `bold ${layout.labelFontSize}px ${style.labelFont}`;
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement | null>((resolve) => {
+  const img = new Image();
+  // No crossOrigin to avoid Tainted Canvas errors with Data URLs in some browsers
+  img.onload = () => resolve(img);
+  img.onerror = () => resolve(null);
+  img.src = src;
+  if (img.complete && img.naturalWidth) resolve(img);
+});
+
+const toCanvasFill = (ctx: CanvasRenderingContext2D, paint: Paint): string | CanvasGradient => {
+  if (paint.kind === 'solid') return paint.color;
+
+  const grd = paint.kind === 'linear'
+    ? ctx.createLinearGradient(paint.x0, paint.y0, paint.x1, paint.y1)
+    : ctx.createRadialGradient(paint.cx, paint.cy, paint.r0, paint.cx, paint.cy, paint.r1);
+  grd.addColorStop(0, paint.from);
+  grd.addColorStop(1, paint.to);
+  return grd;
+};
+
+export const renderToCanvas = async (canvas: HTMLCanvasElement, layout: QRLayout, style: QRStyle) => {
+  canvas.width = layout.totalWidth;
+  canvas.height = layout.totalHeight;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  // Fill Background
+  ctx.fillStyle = toCanvasFill(ctx, backgroundPaint(layout, style));
+  ctx.fillRect(0, 0, layout.totalWidth, layout.totalHeight);
+
+  ctx.fillStyle = toCanvasFill(ctx, foregroundPaint(layout, style));
+
+  ctx.beginPath();
+  traceDataModules(ctx, layout, style.dotStyle);
+  ctx.fill('nonzero');
+
+  // Draw Finder Patterns (Eyes) explicitly
+  ctx.beginPath();
+  traceFinderPatterns(ctx, layout, style.eyeStyle);
+  ctx.fill('evenodd');
+
+  if (layout.plateRect) {
+    ctx.fillStyle = style.logoPlateColor;
+    ctx.beginPath();
+    traceLogoPlate(ctx, layout.plateRect, style.logoShape);
+    ctx.fill();
+  }
+
+  // Draw Logo
+  if (style.logo && layout.logoRect) {
+    const logoImg = await loadImage(style.logo);
+    const { x, y, size } = layout.logoRect;
+
+    if (logoImg) {
+      ctx.save();
+      ctx.beginPath();
+      if (traceLogoClip(ctx, layout.logoRect, style.logoShape)) ctx.clip();
+      ctx.drawImage(logoImg, x, y, size, size);
+      ctx.restore();
+    }
+  }
+
+  // Draw Label Text
+  if (style.labelText) {
+    const { x, y } = labelAnchor(layout, style);
+    ctx.fillStyle = style.labelColor;
+    ctx.font = labelFont(layout, style);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(style.labelText, x, y);
+  }
+};
@@ -0,0 +1,109 @@
+import { CodeFormat } from '../types';
+import { decodeQR, decodeZxing } from './barcodeDecoder';
+
+// Decodes a rendered code with the Scanner's own decoders, as rendered and through a set
+// of degraded copies standing in for real-world conditions (small print, focus blur,
+// a tilted phone, a washed-out printer).
+
+export interface ScanCheck {
+  label: string;
+  passed: boolean;
+}
+
+export interface ScannabilityReport {
+  score: number; // 0-100
+  status: 'pass' | 'warn' | 'fail'; // 'fail' when the clean render itself doesn't decode
+  checks: ScanCheck[];
+}
+
+// Working width for the degraded copies; big enough for dense codes, small enough to be quick
+const WORK_WIDTH = 400;
+
+const resize = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, width: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(sourceHeight * (width / sourceWidth)));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const pixels = (canvas: HTMLCanvasElement) =>
+  canvas.getContext('2d', { willReadFrequently: true })!.getImageData(0, 0, canvas.width, canvas.height);
+
+const scaledTo = (source: HTMLCanvasElement, width: number) => resize(source, source.width, source.height, width);
+
+// Shrinking to a third and back up smears each module into its neighbours like a soft focus
+const blurred = (source: HTMLCanvasElement) => {
+  const small = scaledTo(source, WORK_WIDTH / 3);
+  return resize(small, small.width, small.height, WORK_WIDTH);
+};
+
+const rotated = (source: HTMLCanvasElement, degrees: number) => {
+  const base = scaledTo(source, WORK_WIDTH);
+  const angle = (degrees * Math.PI) / 180;
+  const w = Math.ceil(base.width * Math.abs(Math.cos(angle)) + base.height * Math.abs(Math.sin(angle)));
+  const h = Math.ceil(base.width * Math.abs(Math.sin(angle)) + base.height * Math.abs(Math.cos(angle)));
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, w, h);
+  ctx.translate(w / 2, h / 2);
+  ctx.rotate(angle);
+  ctx.drawImage(base, -base.width / 2, -base.height / 2);
+  return canvas;
+};
+
+// Squeezes every channel into a narrow, light band
+const lowContrast = (source: HTMLCanvasElement) => {
+  const data = pixels(scaledTo(source, WORK_WIDTH));
+  const d = data.data;
+  for (let i = 0; i < d.length; i += 4) {
+    d[i] = 110 + d[i] * 0.35;
+    d[i + 1] = 110 + d[i + 1] * 0.35;
+    d[i + 2] = 110 + d[i + 2] * 0.35;
+  }
+  return data;
+};
+
+const CHECKS: { label: string; weight: number; image: (source: HTMLCanvasElement) => ImageData }[] = [
+  { label: 'As rendered', weight: 40, image: pixels },
+  { label: 'Small print', weight: 15, image: source => pixels(scaledTo(source, 200)) },
+  { label: 'Blurred', weight: 15, image: source => pixels(blurred(source)) },
+  { label: 'Rotated', weight: 15, image: source => pixels(rotated(source, 15)) },
+  { label: 'Low contrast', weight: 15, image: lowContrast },
+];
+
+// Only zxing reads Micro QR and rMQR. A full QR code must read back exactly through both of
+// the Scanner's decoders, jsQR first and zxing as the fallback, since they can disagree on
+// the same symbol.
+const decodesTo = async (image: ImageData, expected: string, format: CodeFormat) => {
+  if (format === 'qr' && decodeQR(image)?.data !== expected) return false;
+  return (await decodeZxing(image, true))?.data === expected;
+};
+
+export const checkScannability = async (source: HTMLCanvasElement, expected: string, format: CodeFormat = 'qr'): Promise<ScannabilityReport> => {
+  // Work from a copy so a re-render of the source mid-check can't mix two codes
+  const snapshot = scaledTo(source, Math.min(source.width, 800));
+  const checks: ScanCheck[] = [];
+  let score = 0;
+
+  for (const check of CHECKS) {
+    let passed = false;
+    try {
+      passed = await decodesTo(check.image(snapshot), expected, format);
+    } catch (e) {
+      console.warn(`Scannability check "${check.label}" failed to run`, e);
+    }
+    checks.push({ label: check.label, passed });
+    if (passed) score += check.weight;
+    // Let the UI breathe between decodes
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  const status = !checks[0].passed ? 'fail' : checks.every(c => c.passed) ? 'pass' : 'warn';
+  return { score, status, checks };
+};
@@ -0,0 +1,119 @@
+import { ErrorLevel } from '../types';
+import { QRSymbol, encodeSymbol, pushBits, dataCapacityBits } from './qrEncoder';
+
+// Structured Append (ISO/IEC 18004 8.3.6): one payload spread over up to 16 QR codes. Each
+// symbol starts with its position, the count and a parity byte shared by the whole set.
+
+export const MAX_PARTS = 16;
+
+const encoder = new TextEncoder();
+
+// Mode indicator, index, count - 1 and parity, then the ECI and byte mode headers
+const HEADER_BITS = 4 + 4 + 4 + 8;
+const ECI_BITS = 4 + 8;
+const BYTE_HEADER_BITS = (version: number) => 4 + (version <= 9 ? 8 : 16);
+
+// XOR of every byte of the complete payload
+export const parityOf = (text: string) => encoder.encode(text).reduce((parity, byte) => parity ^ byte, 0);
+
+const isAscii = (text: string) => !/[^\x00-\x7f]/.test(text);
+
+// Bytes a single part of the given version can carry
+const partCapacity = (version: number, level: ErrorLevel, utf8: boolean) =>
+  Math.floor((dataCapacityBits(version, level) - HEADER_BITS - (utf8 ? ECI_BITS : 0) - BYTE_HEADER_BITS(version)) / 8);
+
+// Fewest parts that hold the payload at version 40, or null when even 16 can't
+export const minimumParts = (text: string, level: ErrorLevel) => {
+  const parts = Math.max(1, Math.ceil(encoder.encode(text).length / partCapacity(40, level, !isAscii(text))));
+  return parts <= MAX_PARTS ? parts : null;
+};
+
+// Parts for codes no larger than `version`, kept within what the set can hold
+export const suggestedParts = (text: string, level: ErrorLevel, version: number) => {
+  const minimum = minimumParts(text, level);
+  if (!minimum) return null;
+  const parts = Math.ceil(encoder.encode(text).length / partCapacity(version, level, !isAscii(text)));
+  return Math.min(MAX_PARTS, Math.max(minimum, parts));
+};
+
+// Splits into `count` runs of roughly equal byte length, only between characters: readers
+// decode each symbol's bytes on their own, so a character must not straddle two parts
+export const splitPayload = (text: string, count: number) => {
+  const chars = Array.from(text);
+  const total = encoder.encode(text).length;
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  chars.forEach(ch => {
+    const target = (total * (parts.length + 1)) / count;
+    if (bytes >= target && parts.length < count - 1) {
+      parts.push(current);
+      current = '';
+    }
+    current += ch;
+    bytes += encoder.encode(ch).length;
+  });
+  parts.push(current);
+  return parts;
+};
+
+// One symbol per part, each as small as its share allows. Null if a part doesn't fit.
+export const encodeStructuredAppend = (text: string, count: number, level: ErrorLevel): QRSymbol[] | null => {
+  const parity = parityOf(text);
+  // UTF-8 is declared with ECI 26, which jsQR and zxing both honour
+  const utf8 = !isAscii(text);
+  const symbols = splitPayload(text, count).map((part, index) => {
+    const bytes = encoder.encode(part);
+    return encodeSymbol(version => {
+      const bits: number[] = [];
+      pushBits(bits, 0b0011, 4);
+      pushBits(bits, index, 4);
+      pushBits(bits, count - 1, 4);
+      pushBits(bits, parity, 8);
+      if (utf8) {
+        pushBits(bits, 0b0111, 4);
+        pushBits(bits, 26, 8);
+      }
+      pushBits(bits, 0b0100, 4);
+      pushBits(bits, bytes.length, BYTE_HEADER_BITS(version) - 4);
+      bytes.forEach(byte => pushBits(bits, byte, 8));
+      return bits;
+    }, level);
+  });
+  return symbols.every(Boolean) ? (symbols as QRSymbol[]) : null;
+};
+
+/* ---------------------------- Reassembly ---------------------------- */
+
+export interface SequencePart {
+  index: number; // 0-based
+  total: number;
+  parity: number;
+}
+
+// Parts of one set collected so far, by index
+export interface PartialSequence {
+  total: number;
+  parity: number;
+  parts: Record<number, string>;
+}
+
+// Adds a scanned part. A part from a different set starts a new collection.
+export const addSequencePart = (
+  current: PartialSequence | null,
+  { index, total, parity }: SequencePart,
+  data: string
+): PartialSequence => {
+  const sameSet = current && current.total === total && current.parity === parity;
+  return { total, parity, parts: { ...(sameSet ? current.parts : {}), [index]: data } };
+};
+
+// 0-based indexes still to scan
+export const missingParts = (sequence: PartialSequence) =>
+  Array.from({ length: sequence.total }, (_, i) => i).filter(i => !(i in sequence.parts));
+
+// The original payload once every part is in, otherwise null
+export const assembleSequence = (sequence: PartialSequence) =>
+  missingParts(sequence).length
+    ? null
+    : Array.from({ length: sequence.total }, (_, i) => sequence.parts[i]).join('');
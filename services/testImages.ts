@@ -0,0 +1,31 @@
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { prepareZXingModule } from 'zxing-wasm/reader';
+import { QRSymbol } from './qrEncoder';
+
+// Helpers for the decoder tests, which run in Node without a canvas or a server for the wasm
+
+// Black modules on white, with a quiet zone, as the camera would see them
+export const renderSymbol = (symbol: QRSymbol, scale = 4, quiet = 4): ImageData => {
+  const size = symbol.modules.size;
+  const width = (size + quiet * 2) * scale;
+  const data = new Uint8ClampedArray(width * width * 4).fill(255);
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      if (!symbol.modules.get(r, c)) continue;
+      for (let y = 0; y < scale; y++) {
+        for (let x = 0; x < scale; x++) {
+          const i = (((r + quiet) * scale + y) * width + (c + quiet) * scale + x) * 4;
+          data[i] = data[i + 1] = data[i + 2] = 0;
+        }
+      }
+    }
+  }
+  return { data, width, height: width, colorSpace: 'srgb' } as ImageData;
+};
+
+// Hands zxing's reader its wasm straight from node_modules
+export const loadReaderWasm = () => {
+  const wasm = readFileSync(createRequire(import.meta.url).resolve('zxing-wasm/reader/zxing_reader.wasm'));
+  prepareZXingModule({ overrides: { wasmBinary: wasm.buffer.slice(wasm.byteOffset, wasm.byteOffset + wasm.byteLength) } });
+};
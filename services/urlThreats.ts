@@ -0,0 +1,207 @@
+import { SafetyRating, ThreatReason, UrlThreatAnalysis } from '../types';
+
+// Offline heuristics for scanned links. No network and no API key: every check looks only
+// at the URL text, so the verdict is available the moment a code is scanned.
+
+const DANGEROUS_SCHEMES = ['javascript:', 'data:', 'vbscript:', 'file:', 'blob:'];
+
+const SHORTENERS = new Set([
+  'bit.ly', 'bitly.com', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'v.gd', 'buff.ly', 'rebrand.ly',
+  'cutt.ly', 'shorturl.at', 'tiny.cc', 'rb.gy', 's.id', 't.ly', 'bl.ink', 'lnkd.in', 'qrco.de', 'shorte.st',
+  'adf.ly', 'soo.gd', 'clck.ru', 'x.co', 'tr.im', 'urlz.fr', 'short.io', 'ln.run',
+]);
+
+// TLDs that are cheap or free to register and over-represented in phishing feeds, plus
+// ones that read like file names
+const SUSPICIOUS_TLDS = new Set([
+  'zip', 'mov', 'xyz', 'top', 'tk', 'ml', 'ga', 'cf', 'gq', 'click', 'country', 'kim', 'work', 'support',
+  'rest', 'fit', 'loan', 'men', 'cam', 'icu', 'cyou', 'buzz', 'sbs', 'monster', 'quest', 'live', 'link',
+]);
+
+// Public suffixes that take two labels, so "example.co.uk" counts as the registered domain
+const TWO_LABEL_SUFFIXES = new Set([
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'com.au', 'net.au', 'org.au', 'co.jp', 'co.nz', 'com.br', 'com.mx',
+  'co.in', 'co.za', 'com.cn', 'com.sg', 'com.tr', 'co.kr', 'com.hk', 'com.tw', 'com.ar',
+]);
+
+// Brand keyword -> registered domains it legitimately uses besides <brand>.<tld>
+const BRANDS: Record<string, string[]> = {
+  paypal: [],
+  apple: ['icloud.com'],
+  icloud: ['apple.com'],
+  google: ['youtube.com', 'gmail.com', 'googleapis.com', 'googleusercontent.com', 'goo.gl'],
+  gmail: ['google.com'],
+  microsoft: ['live.com', 'office.com', 'microsoftonline.com', 'outlook.com', 'azure.com'],
+  office365: ['office.com', 'microsoft.com'],
+  outlook: ['live.com', 'office.com', 'microsoft.com'],
+  amazon: ['amazonaws.com', 'amzn.to', 'a2z.com'],
+  netflix: [],
+  facebook: ['fb.com', 'fbcdn.net', 'meta.com'],
+  instagram: [],
+  whatsapp: ['wa.me'],
+  linkedin: ['lnkd.in'],
+  coinbase: [],
+  binance: [],
+  metamask: [],
+  dhl: [],
+  fedex: [],
+  usps: [],
+  wellsfargo: ['wf.com'],
+  chase: [],
+  bankofamerica: ['bofa.com'],
+};
+
+// Cyrillic and Greek letters that render like Latin ones
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c', 'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j', 'ѕ': 's',
+  'ԁ': 'd', 'ԛ': 'q', 'ԝ': 'w', 'һ': 'h', 'ӏ': 'l', 'к': 'k', 'м': 'm', 'н': 'h', 'т': 't', 'в': 'b',
+  'α': 'a', 'ο': 'o', 'ρ': 'p', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'τ': 't', 'υ': 'u', 'χ': 'x',
+};
+
+// ASCII swaps used to imitate a brand ("paypa1", "rnicrosoft")
+const ASCII_LOOKALIKES: [RegExp, string][] = [[/0/g, 'o'], [/1/g, 'l'], [/rn/g, 'm'], [/vv/g, 'w']];
+
+/* ----------------------------- Punycode ----------------------------- */
+
+// RFC 3492 decoding for one "xn--" label; null when the label isn't valid punycode
+const decodePunycode = (input: string): string | null => {
+  const BASE = 36, T_MIN = 1, T_MAX = 26, SKEW = 38, DAMP = 700;
+  const adapt = (delta: number, numPoints: number, first: boolean) => {
+    delta = first ? Math.floor(delta / DAMP) : delta >> 1;
+    delta += Math.floor(delta / numPoints);
+    let k = 0;
+    while (delta > ((BASE - T_MIN) * T_MAX) >> 1) {
+      delta = Math.floor(delta / (BASE - T_MIN));
+      k += BASE;
+    }
+    return k + Math.floor(((BASE - T_MIN + 1) * delta) / (delta + SKEW));
+  };
+  const digit = (c: number) => (c - 48 < 10 ? c - 22 : c - 65 < 26 ? c - 65 : c - 97 < 26 ? c - 97 : BASE);
+
+  const split = input.lastIndexOf('-');
+  const output = split > 0 ? Array.from(input.slice(0, split)).map(c => c.codePointAt(0)!) : [];
+  let n = 128, i = 0, bias = 72;
+  for (let pos = split > 0 ? split + 1 : 0; pos < input.length;) {
+    const oldi = i;
+    for (let w = 1, k = BASE; ; k += BASE) {
+      if (pos >= input.length) return null;
+      const d = digit(input.charCodeAt(pos++));
+      if (d >= BASE) return null;
+      i += d * w;
+      const t = k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias;
+      if (d < t) break;
+      w *= BASE - t;
+    }
+    bias = adapt(i - oldi, output.length + 1, oldi === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    output.splice(i++, 0, n);
+  }
+  try {
+    return String.fromCodePoint(...output);
+  } catch {
+    return null;
+  }
+};
+
+const toUnicodeHost = (host: string) =>
+  host.split('.').map(label => (label.startsWith('xn--') && decodePunycode(label.slice(4))) || label).join('.');
+
+/* ----------------------------- Helpers ----------------------------- */
+
+const registeredDomain = (host: string) => {
+  const labels = host.split('.');
+  const take = TWO_LABEL_SUFFIXES.has(labels.slice(-2).join('.')) ? 3 : 2;
+  return labels.slice(-take).join('.');
+};
+
+const scriptOf = (ch: string) =>
+  /[a-z]/i.test(ch) ? 'latin' : /\p{Script=Cyrillic}/u.test(ch) ? 'cyrillic' : /\p{Script=Greek}/u.test(ch) ? 'greek' : null;
+
+const skeleton = (label: string) => {
+  let out = Array.from(label.toLowerCase()).map(ch => CONFUSABLES[ch] || ch).join('');
+  for (const [pattern, letter] of ASCII_LOOKALIKES) out = out.replace(pattern, letter);
+  return out;
+};
+
+const isIpHost = (host: string) => /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.startsWith('[');
+
+const ratingFor = (reasons: ThreatReason[]): SafetyRating => {
+  if (reasons.some(r => r.severity !== 'low')) return 'caution';
+  return reasons.length ? 'unknown' : 'safe';
+};
+
+/* ----------------------------- Analyzer ----------------------------- */
+
+// Null for data that isn't a link at all
+export const analyzeUrl = (raw: string): UrlThreatAnalysis | null => {
+  const data = raw.trim();
+  const scheme = DANGEROUS_SCHEMES.find(s => data.toLowerCase().replace(/\s+/g, '').startsWith(s));
+  if (scheme) {
+    return {
+      safetyRating: 'caution',
+      reasons: [{ severity: 'high', message: `Uses a ${scheme} link, which can run code or hide content instead of opening a website` }],
+      displayHost: '',
+    };
+  }
+
+  const candidate = /^www\./i.test(data) ? `https://${data}` : data;
+  if (!/^https?:\/\//i.test(candidate)) return null;
+  let url: URL;
+  try {
+    url = new URL(candidate);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/\.$/, '');
+  const displayHost = toUnicodeHost(host);
+  const reasons: ThreatReason[] = [];
+  const add = (severity: ThreatReason['severity'], message: string) => reasons.push({ severity, message });
+
+  if (url.username || url.password) {
+    add('high', `Has text before an "@", so the real destination is ${displayHost}, not what the link seems to start with`);
+  }
+
+  if (isIpHost(host)) {
+    add('medium', 'Points to a raw IP address instead of a domain name');
+  } else {
+    const domain = registeredDomain(host);
+    const labels = host.split('.');
+    const tld = labels[labels.length - 1];
+
+    // Internationalized labels: flag them, and say which ones mix alphabets or imitate Latin text
+    if (labels.some(l => l.startsWith('xn--'))) {
+      const unicodeLabels = displayHost.split('.');
+      const mixed = unicodeLabels.some(l => new Set(Array.from(l).map(scriptOf).filter(Boolean)).size > 1);
+      const imitated = unicodeLabels.find(l => /[^\x00-\x7f]/.test(l) && /^[a-z0-9-]+$/.test(skeleton(l)));
+      if (mixed || imitated) {
+        add('high', `Uses lookalike characters${imitated ? ` to imitate "${skeleton(imitated)}"` : ''} (${displayHost})`);
+      } else {
+        add('low', `Uses an internationalized domain name (${displayHost})`);
+      }
+    }
+
+    if (SHORTENERS.has(domain) || SHORTENERS.has(host)) {
+      add('low', `${domain} is a link shortener; the final destination isn't visible`);
+    }
+
+    const subdomains = labels.length - domain.split('.').length;
+    if (subdomains >= 4) add('medium', `Has ${subdomains} levels of subdomains, a common way to bury the real domain`);
+    else if (host.length > 60) add('medium', 'Has an unusually long hostname');
+
+    if (SUSPICIOUS_TLDS.has(tld)) add('medium', `Uses the .${tld} domain ending, which is common in phishing links`);
+
+    // A brand name anywhere in the hostname, lookalikes included, that isn't the brand's own domain
+    const displayDomain = registeredDomain(displayHost);
+    const brand = Object.keys(BRANDS).find(b => displayHost.split(/[.-]/).map(skeleton).includes(b));
+    if (brand && displayDomain.split('.')[0] !== brand && !BRANDS[brand].includes(domain)) {
+      add('high', `Mentions "${brand}" but the site is ${displayDomain}`);
+    }
+  }
+
+  if (url.port) add('low', `Uses a non-standard port (${url.port})`);
+  if (url.protocol === 'http:') add('low', "Isn't encrypted (http instead of https)");
+
+  return { safetyRating: ratingFor(reasons), reasons, displayHost };
+};
@@ -0,0 +1,424 @@
+import { QRStyle } from '../types';
+import {
+  PathSink, Paint, QRLayout,
+  backgroundPaint, foregroundPaint, traceDataModules, traceFinderPatterns, traceLogoClip, traceLogoPlate,
+  labelAnchor, labelFont, loadImage
+} from './qrRenderer';
+
+type Segment =
+  | { op: 'M' | 'L'; pts: number[] }
+  | { op: 'C'; pts: number[] }
+  | { op: 'Z'; pts: number[] };
+
+const fmt = (n: number) => {
+  const v = Math.round(n * 100) / 100;
+  return Object.is(v, -0) ? '0' : String(v);
+};
+
+// Records canvas path calls as absolute move/line/cubic/close segments,
+// which map one-to-one onto both SVG path data and PDF path operators.
+export class PathRecorder implements PathSink {
+  segments: Segment[] = [];
+  private current: [number, number] | null = null;
+  private subpathStart: [number, number] | null = null;
+
+  moveTo(x: number, y: number) {
+    this.segments.push({ op: 'M', pts: [x, y] });
+    this.current = [x, y];
+    this.subpathStart = [x, y];
+  }
+
+  lineTo(x: number, y: number) {
+    if (!this.current) return this.moveTo(x, y);
+    this.segments.push({ op: 'L', pts: [x, y] });
+    this.current = [x, y];
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number) {
+    if (!this.current) this.moveTo(cpx, cpy);
+    const [x0, y0] = this.current!;
+    // Degree elevation: a quadratic Bezier is exactly representable as a cubic
+    this.segments.push({
+      op: 'C',
+      pts: [x0 + (2 / 3) * (cpx - x0), y0 + (2 / 3) * (cpy - y0), x + (2 / 3) * (cpx - x), y + (2 / 3) * (cpy - y), x, y]
+    });
+    this.current = [x, y];
+  }
+
+  arc(cx: number, cy: number, r: number, startAngle: number, endAngle: number, counterclockwise = false) {
+    // Same sweep normalisation as CanvasPath.arc
+    const full = Math.PI * 2;
+    let sweep: number;
+    if (!counterclockwise) {
+      sweep = endAngle - startAngle >= full ? full : ((endAngle - startAngle) % full + full) % full;
+    } else {
+      sweep = startAngle - endAngle >= full ? -full : -(((startAngle - endAngle) % full + full) % full);
+    }
+
+    const sx = cx + r * Math.cos(startAngle);
+    const sy = cy + r * Math.sin(startAngle);
+    if (!this.current) this.moveTo(sx, sy);
+    else if (Math.abs(this.current[0] - sx) > 1e-6 || Math.abs(this.current[1] - sy) > 1e-6) this.lineTo(sx, sy);
+
+    // Split into quarter turns at most, each approximated by one cubic
+    const steps = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+    const delta = sweep / steps;
+    const k = (4 / 3) * Math.tan(delta / 4);
+
+    let a1 = startAngle;
+    for (let i = 0; i < steps; i++) {
+      const a2 = a1 + delta;
+      const cos1 = Math.cos(a1), sin1 = Math.sin(a1);
+      const cos2 = Math.cos(a2), sin2 = Math.sin(a2);
+      this.segments.push({
+        op: 'C',
+        pts: [
+          cx + r * (cos1 - k * sin1), cy + r * (sin1 + k * cos1),
+          cx + r * (cos2 + k * sin2), cy + r * (sin2 - k * cos2),
+          cx + r * cos2, cy + r * sin2
+        ]
+      });
+      a1 = a2;
+    }
+    this.current = [cx + r * Math.cos(a1), cy + r * Math.sin(a1)];
+  }
+
+  rect(x: number, y: number, w: number, h: number) {
+    this.moveTo(x, y);
+    this.lineTo(x + w, y);
+    this.lineTo(x + w, y + h);
+    this.lineTo(x, y + h);
+    this.closePath();
+    this.moveTo(x, y);
+  }
+
+  closePath() {
+    if (!this.current) return;
+    this.segments.push({ op: 'Z', pts: [] });
+    this.current = this.subpathStart;
+  }
+
+  toSvgPath() {
+    return this.segments
+      .filter((s, i, all) => !(s.op === 'M' && all[i + 1]?.op === 'M') && !(s.op === 'M' && i === all.length - 1))
+      .map(s => s.op + s.pts.map(fmt).join(' '))
+      .join('');
+  }
+
+  toPdfPath() {
+    const ops: Record<Segment['op'], string> = { M: 'm', L: 'l', C: 'c', Z: 'h' };
+    return this.segments
+      .filter((s, i, all) => !(s.op === 'M' && all[i + 1]?.op === 'M') && !(s.op === 'M' && i === all.length - 1))
+      .map(s => [...s.pts.map(fmt), ops[s.op]].join(' '))
+      .join('\n');
+  }
+}
+
+const trace = (fn: (sink: PathSink) => unknown) => {
+  const recorder = new PathRecorder();
+  fn(recorder);
+  return recorder;
+};
+
+const parseColor = (hex: string): [number, number, number] => {
+  let h = hex.trim().replace(/^#/, '');
+  if (h.length === 3) h = h.split('').map(c => c + c).join('');
+  if (!/^[0-9a-f]{6}$/i.test(h)) return [0, 0, 0];
+  return [parseInt(h.slice(0, 2), 16), parseInt(h.slice(2, 4), 16), parseInt(h.slice(4, 6), 16)];
+};
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+/* ----------------------------- SVG ----------------------------- */
+
+const svgPaint = (paint: Paint, id: string, defs: string[]) => {
+  if (paint.kind === 'solid') return escapeXml(paint.color);
+
+  if (paint.kind === 'linear') {
+    defs.push(
+      `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${fmt(paint.x0)}" y1="${fmt(paint.y0)}" x2="${fmt(paint.x1)}" y2="${fmt(paint.y1)}">` +
+      `<stop offset="0" stop-color="${escapeXml(paint.from)}"/><stop offset="1" stop-color="${escapeXml(paint.to)}"/></linearGradient>`
+    );
+  } else {
+    // Canvas radial gradients start at r0; inside it the first colour is padded
+    const start = paint.r1 > 0 ? paint.r0 / paint.r1 : 0;
+    defs.push(
+      `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${fmt(paint.cx)}" cy="${fmt(paint.cy)}" r="${fmt(paint.r1)}">` +
+      `<stop offset="${fmt(start)}" stop-color="${escapeXml(paint.from)}"/><stop offset="1" stop-color="${escapeXml(paint.to)}"/></radialGradient>`
+    );
+  }
+  return `url(#${id})`;
+};
+
+export const renderToSvg = (layout: QRLayout, style: QRStyle): string => {
+  const { totalWidth: w, totalHeight: h } = layout;
+  const defs: string[] = [];
+  const body: string[] = [];
+
+  body.push(`<rect width="${fmt(w)}" height="${fmt(h)}" fill="${svgPaint(backgroundPaint(layout, style), 'qr-bg', defs)}"/>`);
+
+  const fg = svgPaint(foregroundPaint(layout, style), 'qr-fg', defs);
+  const modules = trace(sink => traceDataModules(sink, layout, style.dotStyle));
+  const eyes = trace(sink => traceFinderPatterns(sink, layout, style.eyeStyle));
+  body.push(`<path d="${modules.toSvgPath()}" fill="${fg}"/>`);
+  body.push(`<path d="${eyes.toSvgPath()}" fill="${fg}" fill-rule="evenodd"/>`);
+
+  if (layout.plateRect) {
+    const plate = trace(sink => traceLogoPlate(sink, layout.plateRect!, style.logoShape));
+    body.push(`<path d="${plate.toSvgPath()}" fill="${escapeXml(style.logoPlateColor)}"/>`);
+  }
+
+  if (style.logo && layout.logoRect) {
+    const { x, y, size } = layout.logoRect;
+    let clip = '';
+    const clipPath = new PathRecorder();
+    if (traceLogoClip(clipPath, layout.logoRect, style.logoShape)) {
+      defs.push(`<clipPath id="qr-logo-clip"><path d="${clipPath.toSvgPath()}"/></clipPath>`);
+      clip = ' clip-path="url(#qr-logo-clip)"';
+    }
+    body.push(
+      `<image x="${fmt(x)}" y="${fmt(y)}" width="${fmt(size)}" height="${fmt(size)}" preserveAspectRatio="none" ` +
+      `href="${escapeXml(style.logo)}" xlink:href="${escapeXml(style.logo)}"${clip}/>`
+    );
+  }
+
+  if (style.labelText) {
+    const { x, y } = labelAnchor(layout, style);
+    body.push(
+      `<text x="${fmt(x)}" y="${fmt(y)}" fill="${escapeXml(style.labelColor)}" font-family="${escapeXml(style.labelFont)}" ` +
+      `font-weight="bold" font-size="${fmt(layout.labelFontSize)}" text-anchor="middle" dominant-baseline="central">${escapeXml(style.labelText)}</text>`
+    );
+  }
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${fmt(w)}" height="${fmt(h)}" viewBox="0 0 ${fmt(w)} ${fmt(h)}">`,
+    defs.length ? `<defs>${defs.join('')}</defs>` : '',
+    ...body,
+    `</svg>`
+  ].filter(Boolean).join('\n');
+};
+
+/* ----------------------------- PDF ----------------------------- */
+
+const PX_TO_PT = 0.75; // CSS px are 1/96 in, PDF points 1/72 in
+
+const encoder = new TextEncoder();
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array | null> => {
+  if (typeof CompressionStream === 'undefined') return null;
+  try {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch (e) {
+    return null;
+  }
+};
+
+// Pixel data of the logo exactly as the canvas preview stretches it
+const rasterizeLogo = async (src: string, sizePx: number) => {
+  const img = await loadImage(src);
+  if (!img) return null;
+
+  const side = Math.max(1, Math.min(1024, Math.round(sizePx * 2)));
+  const canvas = document.createElement('canvas');
+  canvas.width = side;
+  canvas.height = side;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0, side, side);
+
+  const { data } = ctx.getImageData(0, 0, side, side);
+  const rgb = new Uint8Array(side * side * 3);
+  const alpha = new Uint8Array(side * side);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    rgb[p * 3] = data[i];
+    rgb[p * 3 + 1] = data[i + 1];
+    rgb[p * 3 + 2] = data[i + 2];
+    alpha[p] = data[i + 3];
+  }
+  return { side, rgb, alpha };
+};
+
+const pdfString = (s: string) => {
+  let out = '(';
+  for (const ch of s) {
+    const code = ch.codePointAt(0)!;
+    if (ch === '(' || ch === ')' || ch === '\\') out += '\\' + ch;
+    else if (code >= 32 && code < 127) out += ch;
+    else if (code >= 160 && code < 256) out += '\\' + code.toString(8).padStart(3, '0');
+    else out += '?';
+  }
+  return out + ')';
+};
+
+// Closest of the 14 standard PDF fonts, so the file needs no embedded font program
+const standardFont = (family: string) => {
+  const f = family.toLowerCase();
+  if (f.includes('mono')) return 'Courier-Bold';
+  if (f.includes('serif') && !f.includes('sans')) return 'Times-Bold';
+  return 'Helvetica-Bold';
+};
+
+class PdfWriter {
+  private objects: (string | Uint8Array)[][] = [];
+
+  reserve() {
+    this.objects.push([]);
+    return this.objects.length;
+  }
+
+  set(id: number, dict: string) {
+    this.objects[id - 1] = [dict];
+  }
+
+  add(dict: string) {
+    const id = this.reserve();
+    this.set(id, dict);
+    return id;
+  }
+
+  async addStream(dict: string, data: Uint8Array | string) {
+    const raw = typeof data === 'string' ? encoder.encode(data) : data;
+    const packed = await deflate(raw);
+    const bytes = packed ?? raw;
+    const filter = packed ? ' /Filter /FlateDecode' : '';
+    const id = this.reserve();
+    this.objects[id - 1] = [`<< ${dict}${filter} /Length ${bytes.length} >>\nstream\n`, bytes, `\nendstream`];
+    return id;
+  }
+
+  toBlob(rootId: number) {
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const push = (part: string | Uint8Array) => {
+      const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+
+    push('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+    const offsets: number[] = [];
+    this.objects.forEach((parts, i) => {
+      offsets.push(length);
+      push(`${i + 1} 0 obj\n`);
+      parts.forEach(push);
+      push(`\nendobj\n`);
+    });
+
+    const xref = length;
+    push(`xref\n0 ${this.objects.length + 1}\n0000000000 65535 f \n`);
+    offsets.forEach(o => push(`${String(o).padStart(10, '0')} 00000 n \n`));
+    push(`trailer\n<< /Size ${this.objects.length + 1} /Root ${rootId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+  }
+}
+
+const pdfColor = (hex: string) => parseColor(hex).map(v => fmt(v / 255)).join(' ');
+
+const pdfShading = (paint: Exclude<Paint, { kind: 'solid' }>) => {
+  const fn = `<< /FunctionType 2 /Domain [0 1] /C0 [${pdfColor(paint.from)}] /C1 [${pdfColor(paint.to)}] /N 1 >>`;
+  const coords = paint.kind === 'linear'
+    ? [paint.x0, paint.y0, paint.x1, paint.y1]
+    : [paint.cx, paint.cy, paint.r0, paint.cx, paint.cy, paint.r1];
+  return `<< /ShadingType ${paint.kind === 'linear' ? 2 : 3} /ColorSpace /DeviceRGB /Coords [${coords.map(fmt).join(' ')}] /Function ${fn} /Extend [true true] >>`;
+};
+
+export const renderToPdf = async (layout: QRLayout, style: QRStyle): Promise<Blob> => {
+  const { totalWidth: w, totalHeight: h } = layout;
+  const pdf = new PdfWriter();
+  const shadings: string[] = [];
+  const xObjects: string[] = [];
+  const fonts: string[] = [];
+  const content: string[] = [];
+
+  // Flip to a top-left origin so every coordinate matches the canvas preview
+  content.push(`${fmt(PX_TO_PT)} 0 0 ${fmt(-PX_TO_PT)} 0 ${fmt(h * PX_TO_PT)} cm`);
+
+  const fillPath = (path: PathRecorder, paint: Paint, evenOdd: boolean) => {
+    const d = path.toPdfPath();
+    if (!d) return;
+    if (paint.kind === 'solid') {
+      content.push(`${pdfColor(paint.color)} rg`, d, evenOdd ? 'f*' : 'f');
+    } else {
+      const name = `Sh${shadings.length}`;
+      shadings.push(`/${name} ${pdfShading(paint)}`);
+      content.push('q', d, evenOdd ? 'W* n' : 'W n', `/${name} sh`, 'Q');
+    }
+  };
+
+  fillPath(trace(sink => sink.rect(0, 0, w, h)), backgroundPaint(layout, style), false);
+
+  const fg = foregroundPaint(layout, style);
+  fillPath(trace(sink => traceDataModules(sink, layout, style.dotStyle)), fg, false);
+  fillPath(trace(sink => traceFinderPatterns(sink, layout, style.eyeStyle)), fg, true);
+
+  if (layout.plateRect) {
+    fillPath(trace(sink => traceLogoPlate(sink, layout.plateRect!, style.logoShape)), { kind: 'solid', color: style.logoPlateColor }, false);
+  }
+
+  if (style.logo && layout.logoRect) {
+    const { x, y, size } = layout.logoRect;
+    const pixels = await rasterizeLogo(style.logo, size);
+    if (pixels) {
+      const imageDict = `/Type /XObject /Subtype /Image /Width ${pixels.side} /Height ${pixels.side} /BitsPerComponent 8`;
+      const maskId = await pdf.addStream(`${imageDict} /ColorSpace /DeviceGray`, pixels.alpha);
+      const imageId = await pdf.addStream(`${imageDict} /ColorSpace /DeviceRGB /SMask ${maskId} 0 R`, pixels.rgb);
+      xObjects.push(`/Im0 ${imageId} 0 R`);
+
+      const clipPath = new PathRecorder();
+      content.push('q');
+      if (traceLogoClip(clipPath, layout.logoRect, style.logoShape)) {
+        content.push(clipPath.toPdfPath(), 'W n');
+      }
+      // Image space is bottom-up, so undo the page flip for the unit square
+      content.push(`${fmt(size)} 0 0 ${fmt(-size)} ${fmt(x)} ${fmt(y + size)} cm`, '/Im0 Do', 'Q');
+    }
+  }
+
+  if (style.labelText) {
+    const { x, y } = labelAnchor(layout, style);
+    const fontSize = layout.labelFontSize;
+    fonts.push(`/F0 << /Type /Font /Subtype /Type1 /BaseFont /${standardFont(style.labelFont)} /Encoding /WinAnsiEncoding >>`);
+
+    // Centre using the browser's measurement of the preview font
+    const measure = document.createElement('canvas').getContext('2d');
+    let textWidth = style.labelText.length * fontSize * 0.6;
+    if (measure) {
+      measure.font = labelFont(layout, style);
+      textWidth = measure.measureText(style.labelText).width;
+    }
+
+    // Canvas 'middle' sits at the centre of the em box, roughly 0.3em above the baseline
+    content.push(
+      'BT',
+      `${pdfColor(style.labelColor)} rg`,
+      `/F0 ${fmt(fontSize)} Tf`,
+      `1 0 0 -1 ${fmt(x - textWidth / 2)} ${fmt(y + fontSize * 0.3)} Tm`,
+      `${pdfString(style.labelText)} Tj`,
+      'ET'
+    );
+  }
+
+  const contentId = await pdf.addStream('', content.join('\n'));
+  const catalogId = pdf.reserve();
+  const pagesId = pdf.reserve();
+  const pageId = pdf.reserve();
+
+  const resources = [
+    shadings.length ? `/Shading << ${shadings.join(' ')} >>` : '',
+    xObjects.length ? `/XObject << ${xObjects.join(' ')} >>` : '',
+    fonts.length ? `/Font << ${fonts.join(' ')} >>` : '',
+  ].filter(Boolean).join(' ');
+
+  pdf.set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  pdf.set(pagesId, `<< /Type /Pages /Kids [${pageId} 0 R] /Count 1 >>`);
+  pdf.set(pageId,
+    `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${fmt(w * PX_TO_PT)} ${fmt(h * PX_TO_PT)}] ` +
+    `/Resources << ${resources} >> /Contents ${contentId} 0 R >>`
+  );
+
+  return pdf.toBlob(catalogId);
+};
@@ -1,25 +1,386 @@
+export type Symbology = 'QR Code' | 'Micro QR' | 'rMQR' | 'EAN-13' | 'UPC-A' | 'Code 128' | 'Code 39';
+
+export type PayloadType = 'url' | 'text' | 'wifi' | 'email' | 'contact' | 'phone' | 'sms' | 'geo' | 'event' | 'crypto' | 'payment';
+
 export interface ScanResult {
   id: string;
   data: string;
   timestamp: number;
-  type: 'url' | 'text' | 'wifi' | 'email' | 'other';
+  type: PayloadType | 'other';
   aiSummary?: string;
+  aiAnalysis?: GeminiAnalysis; // Missing on scans analysed before the full result was kept
   aiLoading?: boolean;
   originalImage?: string;
+  sessionId?: string; // Set when the scan was captured in a continuous scanning session
+  symbology?: Symbology; // Missing on scans made before barcode support (always QR)
+  tags?: string[];
+  notes?: string;
+}
+
+// A code captured during a continuous scanning session, before it becomes a ScanResult
+export interface SessionCode {
+  data: string;
+  timestamp: number;
+  symbology?: Symbology;
+  image?: string; // Crop of the code's region when it came from an uploaded image
 }
 
-export type Tab = 'scan' | 'generate' | 'history';
+export type Tab = 'scan' | 'generate' | 'history' | 'settings';
 
 export interface GeneratedQR {
   id: string;
   data: string;
   timestamp: number;
-  base64: string;
+  base64?: string; // Left out of items loaded from the history store until the image is needed
+  tags?: string[];
+  notes?: string;
+  // Generator state at creation, for reopening the code in the editor (missing on older items)
+  content?: GeneratorContent;
+  style?: QRStyle;
+}
+
+// Structured views of a scanned payload, produced by services/payloadParser
+export interface UrlPayload {
+  type: 'url';
+  url: string;
+  hostname: string;
+}
+
+export interface TextPayload {
+  type: 'text';
+  text: string;
+}
+
+export interface WifiPayload {
+  type: 'wifi';
+  ssid: string;
+  password: string;
+  encryption: string; // As written in T:, e.g. 'WPA', 'SAE', 'WPA2-EAP', 'WEP', or '' for open networks
+  hidden: boolean;
+  eapMethod: string; // E:, enterprise networks only (PEAP, TTLS, TLS…)
+  identity: string; // I:
+  anonymousIdentity: string; // A:
+  phase2: string; // PH2:, e.g. MSCHAPV2
+}
+
+export interface EmailPayload {
+  type: 'email';
+  format: 'mailto' | 'matmsg' | 'address';
+  to: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  body: string;
+}
+
+export interface ContactEntry {
+  value: string;
+  label: string; // vCard TYPE, e.g. "cell" or "work"; '' when untyped
+}
+
+// The vCard ADR components the Generator edits (PO box and extended address are left out)
+export interface PostalAddress {
+  street: string;
+  city: string;
+  region: string;
+  postalCode: string;
+  country: string;
+}
+
+export interface ContactPayload {
+  type: 'contact';
+  format: 'vcard' | 'mecard';
+  name: string;
+  firstName: string;
+  lastName: string;
+  org: string;
+  title: string;
+  phones: ContactEntry[];
+  emails: ContactEntry[];
+  urls: string[];
+  address: string; // One line, for display
+  postal: PostalAddress | null; // The same address by component, when the format has them
+  note: string;
+  birthday: string;
 }
 
+export interface PhonePayload {
+  type: 'phone';
+  number: string;
+}
+
+export interface SmsPayload {
+  type: 'sms';
+  number: string;
+  message: string;
+}
+
+export interface GeoPayload {
+  type: 'geo';
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  query: string;
+}
+
+export interface EventPayload {
+  type: 'event';
+  summary: string;
+  start?: number; // Epoch ms
+  end?: number;
+  allDay: boolean;
+  location: string;
+  description: string;
+}
+
+export type CryptoCurrency = 'bitcoin' | 'ethereum';
+
+export interface CryptoPayload {
+  type: 'crypto';
+  currency: CryptoCurrency;
+  address: string;
+  amount: string; // In whole coins (BTC/ETH) as a decimal string, '' when not requested
+  label: string;
+  message: string;
+  chainId?: number; // EIP-681 '@chainId'
+}
+
+export type PaymentScheme = 'epc' | 'emv';
+
+// A bank or merchant payment code: EPC069-12 SEPA credit transfer or EMVCo merchant-presented QR
+export interface PaymentPayload {
+  type: 'payment';
+  scheme: PaymentScheme;
+  payee: string;
+  account: string; // IBAN for EPC; the merchant account for EMVCo
+  accountNetwork: string; // EMVCo: the payment network or GUID the account belongs to
+  bic: string;
+  amount: string; // '' when the payer enters it
+  currency: string; // ISO 4217 letter code, or the numeric code when unknown
+  reference: string;
+  city: string;
+  country: string;
+  issues: string[]; // Failed checks (IBAN or RF check digits, CRC) and malformed fields
+}
+
+export type ParsedPayload =
+  | UrlPayload | TextPayload | WifiPayload | EmailPayload | ContactPayload
+  | PhonePayload | SmsPayload | GeoPayload | EventPayload | CryptoPayload | PaymentPayload;
+
+export type SafetyRating = 'safe' | 'caution' | 'unknown';
+
+// Something the user can do with scanned content, with everything needed to do it
+export type AnalysisAction =
+  | { type: 'open_url'; label: string; url: string }
+  | { type: 'copy'; label: string; value: string }
+  | { type: 'add_contact'; label: string; name: string; phone?: string; email?: string }
+  | { type: 'create_event'; label: string; title: string; start: string; end?: string; location?: string } // ISO 8601
+  | { type: 'compose_email'; label: string; to: string; subject?: string; body?: string }
+  | { type: 'web_search'; label: string; query: string };
+
+export type AnalysisActionType = AnalysisAction['type'];
+
 export interface GeminiAnalysis {
   summary: string;
-  safetyRating: 'safe' | 'caution' | 'unknown';
+  safetyRating: SafetyRating;
   category: string;
-  actions: string[];
-}
\ No newline at end of file
+  actions: (AnalysisAction | string)[]; // Plain strings in analyses saved before actions were typed
+}
+
+export type AiProviderId = 'gemini' | 'openai' | 'ollama';
+
+// Chosen on the Settings tab and kept in localStorage
+export interface AiSettings {
+  provider: AiProviderId;
+  model: string;
+  apiKey: string;
+  baseUrl: string; // Endpoint root for the HTTP providers; unused by Gemini
+}
+
+export type ThreatSeverity = 'high' | 'medium' | 'low';
+
+export interface ThreatReason {
+  severity: ThreatSeverity;
+  message: string;
+}
+
+// Offline verdict for a scanned link, rated on the same scale as GeminiAnalysis
+export interface UrlThreatAnalysis {
+  safetyRating: SafetyRating;
+  reasons: ThreatReason[];
+  displayHost: string; // Unicode form of the hostname, so lookalike characters are visible
+}
+
+export type DotStyle = 'square' | 'rounded' | 'dots' | 'extra-rounded' | 'classy' | 'classy-inverted' | 'diamond' | 'cross';
+export type EyeStyle = 'square' | 'circle' | 'rounded' | 'leaf';
+export type ColorMode = 'solid' | 'gradient';
+export type GradientType = 'vertical' | 'horizontal' | 'diagonal' | 'radial';
+export type LogoShape = 'none' | 'circle' | 'rounded' | 'square';
+// What sits behind the logo: the bare background with the modules removed, a filled plate,
+// or the modules themselves
+export type LogoPlate = 'clear' | 'solid' | 'none';
+export type ErrorLevel = 'L' | 'M' | 'Q' | 'H';
+export type ExportFormat = 'png' | 'svg' | 'pdf';
+// 'auto' splits the payload into the cheapest mix of segments; the others force one segment
+export type SegmentMode = 'auto' | 'numeric' | 'alphanumeric' | 'byte' | 'kanji';
+// What the Generator outputs: a full QR code, a Micro QR code or a rectangular Micro QR (rMQR) code
+export type CodeFormat = 'qr' | 'microqr' | 'rmqr';
+
+// Everything the Generator needs to paint a code, independent of its content
+export interface QRStyle {
+  codeFormat: CodeFormat;
+  fgColorMode: ColorMode;
+  fgColor1: string;
+  fgColor2: string;
+  fgGradientType: GradientType;
+  bgColorMode: ColorMode;
+  bgColor1: string;
+  bgColor2: string;
+  bgGradientType: GradientType;
+  errorLevel: ErrorLevel;
+  dotStyle: DotStyle;
+  eyeStyle: EyeStyle;
+  logo: string | null;
+  logoSize: number; // Percentage of the QR width, capped by what the error correction can recover
+  logoShape: LogoShape;
+  logoPadding: number; // Modules of clear space around the logo
+  logoPlate: LogoPlate;
+  logoPlateColor: string;
+  labelText: string;
+  labelPosition: 'top' | 'bottom';
+  labelColor: string;
+  labelSize: number;
+  labelFont: string;
+  qrSize: number;
+  // Advanced encoding, full QR codes only
+  qrVersion: number; // 1-40, or 0 for the smallest that fits
+  maskPattern: number; // 0-7, or -1 for the lowest penalty
+  segmentMode: SegmentMode;
+  eciUtf8: boolean; // Declare UTF-8 (ECI 26) ahead of the data
+}
+
+// A saved style. Presets hold a full QRStyle; brand kits only the brand fields
+// (logo, colours, dot/eye style, label font) and are applied over the current style.
+export interface StylePreset {
+  id: string;
+  name: string;
+  kind: 'preset' | 'brandKit';
+  style: Partial<QRStyle>;
+  createdAt: number;
+}
+
+// Generator content templates
+export type QRContentType = 'text' | 'url' | 'wifi' | 'email' | 'vcard' | 'mecard' | 'phone' | 'sms' | 'geo' | 'event' | 'crypto' | 'payment';
+
+// 'SAE' is WPA3-Personal; 'WPA2-EAP' is WPA2/WPA3-Enterprise
+export type WifiEncryption = 'WPA' | 'SAE' | 'WPA2-EAP' | 'WEP' | 'nopass';
+
+export interface WifiFields {
+  ssid: string;
+  password: string;
+  encryption: WifiEncryption;
+  hidden: boolean;
+  // Enterprise (WPA2-EAP) only
+  eapMethod: string;
+  identity: string;
+  anonymousIdentity: string;
+  phase2: string;
+}
+
+export interface EmailFields {
+  email: string;
+  subject: string;
+  body: string;
+}
+
+export type VcardVersion = '3.0' | '4.0';
+
+export interface VcardFields {
+  version: VcardVersion;
+  firstName: string;
+  lastName: string;
+  org: string;
+  title: string;
+  phones: ContactEntry[];
+  emails: ContactEntry[];
+  url: string;
+  address: PostalAddress;
+  note: string;
+  birthday: string; // <input type="date"> value
+}
+
+export interface MecardFields {
+  firstName: string;
+  lastName: string;
+  phone: string;
+  email: string;
+  url: string;
+  address: string;
+  note: string;
+}
+
+export interface PhoneFields {
+  phone: string;
+}
+
+export interface SmsFields {
+  phone: string;
+  message: string;
+}
+
+// Kept as typed so a half-entered coordinate isn't lost
+export interface GeoFields {
+  latitude: string;
+  longitude: string;
+}
+
+export interface EventFields {
+  summary: string;
+  start: string; // <input type="datetime-local"> value, or a date when allDay
+  end: string; // Optional; for all-day events the last day, inclusive
+  allDay: boolean;
+  location: string;
+  description: string;
+}
+
+export interface CryptoFields {
+  currency: CryptoCurrency;
+  address: string;
+  amount: string;
+  label: string;
+  message: string;
+}
+
+export interface PaymentFields {
+  scheme: PaymentScheme;
+  payee: string; // EPC beneficiary or EMVCo merchant name
+  amount: string;
+  reference: string; // EPC: RF creditor reference or free remittance text; EMVCo: reference label
+  // EPC only
+  iban: string;
+  bic: string;
+  // EMVCo only
+  merchantAccountId: string; // Network GUID or AID for the account template (ID 26)
+  merchantAccount: string;
+  merchantCity: string;
+  countryCode: string;
+  currency: string; // ISO 4217 letter code
+  category: string; // Merchant category code
+}
+
+// The Generator's content form: the active template plus every template's fields
+export interface GeneratorContent {
+  contentType: QRContentType;
+  text: string;
+  url: string;
+  wifi: WifiFields;
+  email: EmailFields;
+  vcard: VcardFields;
+  mecard: MecardFields;
+  phone: PhoneFields;
+  sms: SmsFields;
+  geo: GeoFields;
+  event: EventFields;
+  crypto: CryptoFields;
+  payment: PaymentFields;
+}